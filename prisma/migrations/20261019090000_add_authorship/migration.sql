@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Collection" ADD COLUMN     "createdById" TEXT;
+
+-- AlterTable
+ALTER TABLE "Component" ADD COLUMN     "createdById" TEXT,
+ADD COLUMN     "deletedById" TEXT,
+ADD COLUMN     "updatedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "ComponentVersion" ADD COLUMN     "createdById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Component_createdById_idx" ON "Component"("createdById");
+
+-- CreateIndex
+CREATE INDEX "ComponentVersion_createdById_idx" ON "ComponentVersion"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "Component" ADD CONSTRAINT "Component_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Component" ADD CONSTRAINT "Component_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Component" ADD CONSTRAINT "Component_deletedById_fkey" FOREIGN KEY ("deletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ComponentVersion" ADD CONSTRAINT "ComponentVersion_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Collection" ADD CONSTRAINT "Collection_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Component" ADD COLUMN     "lastVersionNumber" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "ComponentVersion" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "archivedById" TEXT;
+
+-- Backfill the version counter from existing versions
+UPDATE "Component" c SET "lastVersionNumber" = v."maxVersion"
+FROM (
+  SELECT "componentId", MAX("version") AS "maxVersion"
+  FROM "ComponentVersion"
+  GROUP BY "componentId"
+) v
+WHERE v."componentId" = c."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ComponentVersion_componentId_version_key" ON "ComponentVersion"("componentId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ComponentVersion" ADD CONSTRAINT "ComponentVersion_archivedById_fkey" FOREIGN KEY ("archivedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
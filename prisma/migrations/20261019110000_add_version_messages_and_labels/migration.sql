@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "ComponentVersion" ADD COLUMN     "message" TEXT;
+
+-- CreateTable
+CREATE TABLE "VersionLabel" (
+    "id" TEXT NOT NULL,
+    "componentId" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "VersionLabel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VersionLabel_versionId_idx" ON "VersionLabel"("versionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VersionLabel_componentId_name_key" ON "VersionLabel"("componentId", "name");
+
+-- AddForeignKey
+ALTER TABLE "VersionLabel" ADD CONSTRAINT "VersionLabel_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "Component"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionLabel" ADD CONSTRAINT "VersionLabel_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "ComponentVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionLabel" ADD CONSTRAINT "VersionLabel_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
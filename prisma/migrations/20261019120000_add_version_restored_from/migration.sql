@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ComponentVersion" ADD COLUMN     "restoredFromId" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "ComponentVersion" ADD CONSTRAINT "ComponentVersion_restoredFromId_fkey" FOREIGN KEY ("restoredFromId") REFERENCES "ComponentVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "Component" ADD COLUMN     "forkedFromComponentId" TEXT,
+ADD COLUMN     "forkedFromVersionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Component_forkedFromComponentId_idx" ON "Component"("forkedFromComponentId");
+
+-- AddForeignKey
+ALTER TABLE "Component" ADD CONSTRAINT "Component_forkedFromComponentId_fkey" FOREIGN KEY ("forkedFromComponentId") REFERENCES "Component"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Component" ADD CONSTRAINT "Component_forkedFromVersionId_fkey" FOREIGN KEY ("forkedFromVersionId") REFERENCES "ComponentVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "Component_title_trgm_idx" ON "Component" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Component_description_trgm_idx" ON "Component" USING GIN ("description" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "ComponentFile_code_trgm_idx" ON "ComponentFile" USING GIN ("code" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "ComponentFile_code_fts_idx" ON "ComponentFile" USING GIN (to_tsvector('simple', "code"));
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Collection" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Keep the existing alphabetical sibling order
+UPDATE "Collection" c
+SET "position" = ordered."position"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "parentId" ORDER BY "name" ASC) - 1 AS "position"
+    FROM "Collection"
+) ordered
+WHERE c."id" = ordered."id";
+
+-- CreateIndex
+CREATE INDEX "Collection_parentId_position_idx" ON "Collection"("parentId", "position");
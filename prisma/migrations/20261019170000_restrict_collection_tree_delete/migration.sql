@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "Collection" DROP CONSTRAINT "Collection_parentId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Collection" ADD CONSTRAINT "Collection_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Collection"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Component" ADD COLUMN     "slug" TEXT;
+
+-- Derive slugs from titles; later components with a repeated title get an id suffix
+UPDATE "Component" c
+SET "slug" = CASE WHEN ranked."rank" = 1 THEN ranked."base" ELSE ranked."base" || '-' || LEFT(ranked."id", 8) END
+FROM (
+    SELECT "id", "base", ROW_NUMBER() OVER (PARTITION BY "base" ORDER BY "createdAt" ASC, "id" ASC) AS "rank"
+    FROM (
+        SELECT "id", "createdAt",
+            COALESCE(NULLIF(TRIM(BOTH '-' FROM REGEXP_REPLACE(LOWER("title"), '[^a-z0-9]+', '-', 'g')), ''), 'component') AS "base"
+        FROM "Component"
+    ) slugs
+) ranked
+WHERE c."id" = ranked."id";
+
+ALTER TABLE "Component" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Component_slug_key" ON "Component"("slug");
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "VersionComment" (
+    "id" TEXT NOT NULL,
+    "componentId" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "parentId" TEXT,
+    "filename" TEXT,
+    "startLine" INTEGER,
+    "endLine" INTEGER,
+    "anchorText" TEXT,
+    "body" TEXT NOT NULL,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "VersionComment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VersionComment_componentId_idx" ON "VersionComment"("componentId");
+
+-- CreateIndex
+CREATE INDEX "VersionComment_versionId_idx" ON "VersionComment"("versionId");
+
+-- CreateIndex
+CREATE INDEX "VersionComment_parentId_idx" ON "VersionComment"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "VersionComment" ADD CONSTRAINT "VersionComment_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "Component"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionComment" ADD CONSTRAINT "VersionComment_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "ComponentVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionComment" ADD CONSTRAINT "VersionComment_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "VersionComment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionComment" ADD CONSTRAINT "VersionComment_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionComment" ADD CONSTRAINT "VersionComment_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "Component" ADD COLUMN     "reviewVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "VersionReview" (
+    "id" TEXT NOT NULL,
+    "componentId" TEXT NOT NULL,
+    "versionId" TEXT NOT NULL,
+    "reviewerId" TEXT NOT NULL,
+    "requestedById" TEXT,
+    "decision" TEXT NOT NULL DEFAULT 'pending',
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" TIMESTAMP(3),
+
+    CONSTRAINT "VersionReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VersionReview_componentId_idx" ON "VersionReview"("componentId");
+
+-- CreateIndex
+CREATE INDEX "VersionReview_reviewerId_idx" ON "VersionReview"("reviewerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VersionReview_versionId_reviewerId_key" ON "VersionReview"("versionId", "reviewerId");
+
+-- AddForeignKey
+ALTER TABLE "Component" ADD CONSTRAINT "Component_reviewVersionId_fkey" FOREIGN KEY ("reviewVersionId") REFERENCES "ComponentVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionReview" ADD CONSTRAINT "VersionReview_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "Component"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionReview" ADD CONSTRAINT "VersionReview_versionId_fkey" FOREIGN KEY ("versionId") REFERENCES "ComponentVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionReview" ADD CONSTRAINT "VersionReview_reviewerId_fkey" FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "VersionReview" ADD CONSTRAINT "VersionReview_requestedById_fkey" FOREIGN KEY ("requestedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Statuses other than the workflow's are reset to the starting state
+UPDATE "Component" SET "status" = 'experiment' WHERE "status" NOT IN ('experiment', 'in_review', 'ready', 'deprecated');
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ComponentFavorite" (
+    "userId" TEXT NOT NULL,
+    "componentId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ComponentFavorite_pkey" PRIMARY KEY ("userId","componentId")
+);
+
+-- CreateIndex
+CREATE INDEX "ComponentFavorite_componentId_idx" ON "ComponentFavorite"("componentId");
+
+-- AddForeignKey
+ALTER TABLE "ComponentFavorite" ADD CONSTRAINT "ComponentFavorite_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ComponentFavorite" ADD CONSTRAINT "ComponentFavorite_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "Component"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- "index" is reserved for the registry index (/r/index.json); move any component using it
+UPDATE "Component" SET "slug" = 'index-' || LEFT("id", 8) WHERE "slug" = 'index';
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/server/db";
+import { purgeExpiredTrash } from "@/server/trash";
+
+/**
+ * Scheduled purge of components that have outlived the trash retention period.
+ * Called by the cron in vercel.json, which sends `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret) {
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeExpiredTrash(db);
+    console.log(
+      `[Trash Purge] Purged ${result.purgedCount} component(s) deleted before ${result.cutoff.toISOString()}`
+    );
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Trash Purge] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to purge trash" },
+      { status: 500 }
+    );
+  }
+}
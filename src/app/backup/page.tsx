@@ -0,0 +1,360 @@
+"use client";
+
+import { useRef, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, DatabaseBackup, Download, FileArchive, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+import { usePermissions } from "@/lib/use-permissions";
+import { downloadFile } from "@/lib/download";
+import {
+  createLibraryBackupArchive,
+  getBackupFilename,
+  readLibraryBackupArchive,
+  type LibraryBackup,
+  type LibraryBackupManifest,
+} from "@/lib/library-backup";
+
+type RestoreMode = "merge" | "replace";
+
+const MODE_OPTIONS: { value: RestoreMode; title: string; description: string }[] = [
+  {
+    value: "merge",
+    title: "Merge",
+    description:
+      "Keep the current library and add what the backup contains. Restored records get new ids; components and collections that already exist here are skipped.",
+  },
+  {
+    value: "replace",
+    title: "Replace",
+    description:
+      "Delete every component and collection here first, then restore the backup with its original ids. Share links, comments, reviews, favorites and usage history are not in backups and are deleted too.",
+  },
+];
+
+// "3 share links, 12 comments", listing only what a replace restore would lose
+function describeRemovedExtras(
+  extras: Record<"shareLinks" | "comments" | "reviews" | "favorites" | "usageEvents", number>
+) {
+  const labels = [
+    [extras.shareLinks, "share link"],
+    [extras.comments, "comment"],
+    [extras.reviews, "review"],
+    [extras.favorites, "favorite"],
+    [extras.usageEvents, "usage event"],
+  ] as const;
+  return labels
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}${count === 1 ? "" : "s"}`)
+    .join(", ");
+}
+
+export default function BackupPage() {
+  const utils = trpc.useUtils();
+  const { canManageBackups } = usePermissions();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [loaded, setLoaded] = useState<{
+    fileName: string;
+    manifest: LibraryBackupManifest;
+    backup: LibraryBackup;
+  } | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const restoreMutation = trpc.backup.restore.useMutation({
+    onSuccess: (report) => {
+      if (report.dryRun) return;
+      setIsConfirmOpen(false);
+      utils.invalidate();
+      toast.success(
+        `Restored ${report.components.created} components and ${report.collections.created} collections`
+      );
+    },
+  });
+  const report = restoreMutation.data;
+  const removedExtras = report?.mode === "replace" ? describeRemovedExtras(report.removed.notInBackup) : "";
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await utils.backup.export.fetch();
+      downloadFile(createLibraryBackupArchive(backup), getBackupFilename(), "application/zip");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Backup failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    restoreMutation.reset();
+    setReadError(null);
+    try {
+      const { manifest, backup } = readLibraryBackupArchive(new Uint8Array(await file.arrayBuffer()));
+      setLoaded({ fileName: file.name, manifest, backup });
+    } catch (error) {
+      setLoaded(null);
+      setReadError(error instanceof Error ? error.message : "Could not read the backup");
+    }
+  };
+
+  const runRestore = (dryRun: boolean) => {
+    if (loaded) restoreMutation.mutate({ backup: loaded.backup, mode, dryRun });
+  };
+
+  if (!canManageBackups) {
+    return (
+      <div className="container max-w-3xl mx-auto py-10 space-y-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" title="Back to library">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <p className="text-muted-foreground">Only superadmins can back up or restore the library.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-3xl mx-auto py-10 space-y-8">
+      <div className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" title="Back to library">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <DatabaseBackup className="h-5 w-5" /> Backup &amp; Restore
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Snapshot the whole library for disaster recovery or to move it to another environment.
+          </p>
+        </div>
+      </div>
+
+      <section className="rounded-lg border p-5 space-y-3">
+        <h2 className="font-semibold">Download a backup</h2>
+        <p className="text-sm text-muted-foreground">
+          One zip with every collection (including the tree structure) and every component with all
+          of its versions, files, labels and tags. Trashed components and archived versions are
+          included. Authors are stored by email.
+        </p>
+        <Button onClick={handleExport} disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-1" />
+          )}
+          {isExporting ? "Preparing backup..." : "Download backup"}
+        </Button>
+      </section>
+
+      <section className="rounded-lg border p-5 space-y-4">
+        <h2 className="font-semibold">Restore from a backup</h2>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = "";
+          }}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Choose backup file
+          </Button>
+          {loaded && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground min-w-0">
+              <FileArchive className="h-4 w-4 shrink-0" />
+              <span className="truncate">
+                {loaded.fileName} · exported {format(new Date(loaded.manifest.exportedAt), "PPp")} ·{" "}
+                {loaded.backup.components.length} components, {loaded.backup.collections.length}{" "}
+                collections
+              </span>
+            </span>
+          )}
+        </div>
+        {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+        {loaded && (
+          <>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {MODE_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className={cn(
+                    "flex gap-3 rounded-md border p-3 cursor-pointer text-sm transition-colors",
+                    mode === option.value ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                  )}
+                >
+                  <input
+                    type="radio"
+                    name="restore-mode"
+                    checked={mode === option.value}
+                    onChange={() => {
+                      setMode(option.value);
+                      restoreMutation.reset();
+                    }}
+                    className="mt-1 h-4 w-4 accent-primary"
+                  />
+                  <div className="space-y-1">
+                    <div className="font-medium">{option.title}</div>
+                    <p className="text-muted-foreground">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => runRestore(true)} disabled={restoreMutation.isPending}>
+                {restoreMutation.isPending && restoreMutation.variables?.dryRun
+                  ? "Checking..."
+                  : "Preview restore"}
+              </Button>
+              <Button
+                variant={mode === "replace" ? "destructive" : "default"}
+                onClick={() => setIsConfirmOpen(true)}
+                disabled={!report?.dryRun || restoreMutation.isPending}
+                title={report?.dryRun ? undefined : "Preview the restore first"}
+              >
+                Restore now
+              </Button>
+            </div>
+          </>
+        )}
+
+        {restoreMutation.error && (
+          <p className="text-sm text-destructive">{restoreMutation.error.message}</p>
+        )}
+
+        {report && (
+          <div className="rounded-md bg-muted/40 p-4 space-y-3 text-sm">
+            <h3 className="font-medium">
+              {report.dryRun ? "Dry run - nothing has been written yet" : "Restore complete"}
+            </h3>
+            <ul className="space-y-1">
+              {report.mode === "replace" && (
+                <li className="text-destructive">
+                  {report.dryRun ? "Deletes" : "Deleted"} {report.removed.components} components and{" "}
+                  {report.removed.collections} collections
+                </li>
+              )}
+              {removedExtras && (
+                <li className="text-destructive">
+                  {report.dryRun ? "Also deletes" : "Also deleted"} {removedExtras}, which backups don&apos;t contain
+                </li>
+              )}
+              <li>
+                Collections: {report.collections.created} {report.dryRun ? "to create" : "created"}
+                {report.collections.reused > 0 && `, ${report.collections.reused} already here`}
+              </li>
+              <li>
+                Components: {report.components.created} {report.dryRun ? "to create" : "created"}
+                {report.components.skipped > 0 && `, ${report.components.skipped} already here (skipped)`}
+              </li>
+              <li>
+                {report.versions} versions, {report.files} files, {report.labels} labels
+              </li>
+            </ul>
+
+            {report.collections.renamedSlugs.length > 0 && (
+              <div>
+                <p className="font-medium">Collection slugs changed to avoid collisions</p>
+                <ul className="list-disc pl-5 text-muted-foreground">
+                  {report.collections.renamedSlugs.map((rename) => (
+                    <li key={rename.to}>
+                      {rename.name}: {rename.from} → {rename.to}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.components.renamedSlugs.length > 0 && (
+              <div>
+                <p className="font-medium">Component slugs changed to avoid collisions</p>
+                <ul className="list-disc pl-5 text-muted-foreground">
+                  {report.components.renamedSlugs.map((rename) => (
+                    <li key={rename.to}>
+                      {rename.title}: {rename.from} → {rename.to}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.unmatchedAuthors.length > 0 && (
+              <div>
+                <p className="font-medium">Authors without an account here (restored without author)</p>
+                <p className="text-muted-foreground">{report.unmatchedAuthors.join(", ")}</p>
+              </div>
+            )}
+
+            {report.warnings.length > 0 && (
+              <div>
+                <p className="font-medium">Warnings</p>
+                <ul className="list-disc pl-5 text-muted-foreground">
+                  {report.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </section>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {mode === "replace" ? "Replace the entire library?" : "Merge the backup into the library?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {mode === "replace"
+                ? `All ${report?.removed.components ?? 0} components and ${report?.removed.collections ?? 0} collections are permanently deleted and replaced by the backup.${
+                  removedExtras ? ` Their ${removedExtras} are not in the backup and are lost.` : ""
+                } This cannot be undone.`
+                : `${report?.components.created ?? 0} components and ${report?.collections.created ?? 0} collections are added to the library.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                runRestore(false);
+              }}
+              disabled={restoreMutation.isPending}
+              className={cn(
+                mode === "replace" && "bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              )}
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { db } from "@/server/db";
+import { resolveEmbed } from "@/server/embed";
+import { createEmbedPage, parseEmbedOptions } from "@/lib/embed";
+import type { Framework } from "@/lib/detect-framework";
+
+/**
+ * Standalone preview page for embedding in external docs. Access is granted
+ * by a share token (?token=) for this component, or a signed-in session.
+ * See src/lib/embed.ts for the supported query parameters.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ componentId: string }> }
+) {
+  const { componentId } = await params;
+  const { searchParams, origin } = request.nextUrl;
+  const options = parseEmbedOptions(searchParams);
+  const token = searchParams.get("token");
+
+  try {
+    const result = await resolveEmbed(db, {
+      componentId,
+      token,
+      version: options.version,
+      isSignedIn: !token && !!(await auth())?.user,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    const html = createEmbedPage({
+      title: result.component.title,
+      version: result.version.version,
+      files: result.version.files,
+      framework: result.component.framework as Framework,
+      options,
+      openUrl: `${origin}${result.openPath}`,
+    });
+
+    return new Response(html, {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        // Share links can be revoked at any time, so never serve a cached copy
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[Embed] Error:", error);
+    return NextResponse.json({ error: "Failed to load the embed" }, { status: 500 });
+  }
+}
@@ -1,13 +1,16 @@
 "use client";
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useMemo, useRef } from "react";
 import { TopBar } from "@/components/layout/top-bar";
 import { Sidebar } from "@/components/layout/sidebar";
 import { ComponentGrid } from "@/components/grid/component-grid";
 import { AddComponentForm } from "@/components/editor/add-component-form";
+import { BulkActionBar } from "@/components/grid/bulk-action-bar";
+import { toast } from "sonner";
 import { trpc } from "@/lib/trpc";
 import { useDebounce } from "@/lib/use-debounce";
 import { useGlobalShortcuts } from "@/lib/use-keyboard-shortcuts";
+import { usePermissions } from "@/lib/use-permissions";
 
 export default function HomePage() {
   const [searchQuery, setSearchQuery] = useState("");
@@ -17,40 +20,107 @@ export default function HomePage() {
   );
   const [frameworkFilter, setFrameworkFilter] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<string | null>(null);
+  const [createdByMeFilter, setCreatedByMeFilter] = useState(false);
+  // The Favorites pseudo-collection; selecting it or a real collection clears the other
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<"any" | "all">("any");
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
+  const [isSelectingAll, setIsSelectingAll] = useState(false);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const { canWrite } = usePermissions();
+  const utils = trpc.useUtils();
 
   const debouncedSearch = useDebounce(searchQuery, 300);
-
-  const { data: components, isLoading } = trpc.component.list.useQuery({
+  const filters = {
     search: debouncedSearch || undefined,
     framework: frameworkFilter || undefined,
     status: statusFilter || undefined,
     collectionId: selectedCollection || undefined,
+    createdByMe: createdByMeFilter || undefined,
+    favoritesOnly: favoritesOnly || undefined,
+    tags: tagFilter.length > 0 ? tagFilter : undefined,
+    tagMode,
+  };
+
+  const {
+    data,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = trpc.component.list.useInfiniteQuery(filters, {
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const components = useMemo(
+    () => data?.pages.flatMap((page) => page.items) ?? [],
+    [data]
+  );
 
   const handleSearch = useCallback((query: string) => {
     setSearchQuery(query);
   }, []);
 
+  const handleCollectionSelect = (collectionId: string | null) => {
+    setSelectedCollection(collectionId);
+    setFavoritesOnly(false);
+  };
+
+  const handleFavoritesSelect = () => {
+    setSelectedCollection(null);
+    setFavoritesOnly(true);
+  };
+
+  const handleToggleSelect = (id: string, { range }: { range: boolean }) => {
+    const next = new Set(selectedIds);
+    const anchorIndex = components.findIndex((c) => c.id === selectionAnchorId);
+    const index = components.findIndex((c) => c.id === id);
+    if (range && anchorIndex !== -1 && index !== -1) {
+      const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      components.slice(start, end + 1).forEach((c) => next.add(c.id));
+    } else if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelectedIds(next);
+    setSelectionAnchorId(id);
+  };
+
+  // Selects every match for the current filters, including pages not loaded yet
+  const handleSelectAllMatching = async () => {
+    setIsSelectingAll(true);
+    try {
+      const { ids, total } = await utils.component.listIds.fetch(filters);
+      setSelectedIds(new Set(ids));
+      if (total > ids.length) {
+        toast.warning(`Selected the first ${ids.length} of ${total} matching components`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to select components");
+    } finally {
+      setIsSelectingAll(false);
+    }
+  };
+
   // Global keyboard shortcuts
   useGlobalShortcuts({
     onSearch: () => {
-      // Focus search input - will be connected via TopBar
-      const searchInput = document.querySelector(
-        'input[type="search"]'
-      ) as HTMLInputElement;
-      searchInput?.focus();
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
     },
-    onAddComponent: () => setIsAddModalOpen(true),
+    onAddComponent: canWrite ? () => setIsAddModalOpen(true) : undefined,
   });
 
   return (
     <div className="min-h-screen flex flex-col">
       <TopBar
         onSearch={handleSearch}
-        onAddComponent={() => setIsAddModalOpen(true)}
+        searchInputRef={searchInputRef}
+        onAddComponent={canWrite ? () => setIsAddModalOpen(true) : undefined}
         viewMode={viewMode}
         onViewModeChange={setViewMode}
         onMenuClick={() => setIsSidebarOpen(!isSidebarOpen)}
@@ -59,11 +129,19 @@ export default function HomePage() {
       <div className="flex flex-1 relative">
         <Sidebar
           selectedCollection={selectedCollection}
-          onCollectionSelect={setSelectedCollection}
+          onCollectionSelect={handleCollectionSelect}
+          favoritesSelected={favoritesOnly}
+          onFavoritesSelect={handleFavoritesSelect}
           frameworkFilter={frameworkFilter}
           onFrameworkFilterChange={setFrameworkFilter}
           statusFilter={statusFilter}
           onStatusFilterChange={setStatusFilter}
+          createdByMeFilter={createdByMeFilter}
+          onCreatedByMeFilterChange={setCreatedByMeFilter}
+          tagFilter={tagFilter}
+          onTagFilterChange={setTagFilter}
+          tagMode={tagMode}
+          onTagModeChange={setTagMode}
           isOpen={isSidebarOpen}
           onClose={() => setIsSidebarOpen(false)}
         />
@@ -75,14 +153,29 @@ export default function HomePage() {
           }}
         >
           <ComponentGrid
-            components={components ?? []}
+            components={components}
             viewMode={viewMode}
             isLoading={isLoading}
+            hasNextPage={hasNextPage}
+            isFetchingNextPage={isFetchingNextPage}
+            onLoadMore={fetchNextPage}
             selectedCollection={selectedCollection}
+            favoritesOnly={favoritesOnly}
+            selectedIds={canWrite ? selectedIds : undefined}
+            onToggleSelect={canWrite ? handleToggleSelect : undefined}
           />
         </main>
       </div>
 
+      {canWrite && (
+        <BulkActionBar
+          selectedIds={selectedIds}
+          onSelectionChange={setSelectedIds}
+          onSelectAllMatching={handleSelectAllMatching}
+          isSelectingAll={isSelectingAll}
+        />
+      )}
+
       <AddComponentForm
         open={isAddModalOpen}
         onOpenChange={setIsAddModalOpen}
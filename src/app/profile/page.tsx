@@ -17,8 +17,9 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, Shield, Calendar, Mail, User as UserIcon, Settings, Lock, Users } from "lucide-react";
+import { Loader2, Shield, Calendar, Mail, User as UserIcon, Settings, Lock, Users, Package, FolderOpen, ScrollText, Eye, Copy, Terminal, BarChart3 } from "lucide-react";
 import { UserManagement } from "@/components/auth/user-management";
+import { AuditLog } from "@/components/auth/audit-log";
 
 export default function ProfilePage() {
     const { data: session, status } = useSession();
@@ -74,12 +75,39 @@ export default function ProfilePage() {
                             <Calendar className="w-3 h-3" /> Member since {format(new Date(stats.memberSince), "MMMM d, yyyy")}
                         </p>
                     )}
+                    {stats && (
+                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                            <span className="flex items-center gap-2">
+                                <Package className="w-3 h-3" /> {stats.componentCount} component{stats.componentCount !== 1 ? "s" : ""} created
+                            </span>
+                            <span className="flex items-center gap-2">
+                                <FolderOpen className="w-3 h-3" /> {stats.collectionCount} collection{stats.collectionCount !== 1 ? "s" : ""} created
+                            </span>
+                            <span className="flex items-center gap-2">
+                                <BarChart3 className="w-3 h-3" /> {stats.componentsUsed} component{stats.componentsUsed !== 1 ? "s" : ""} used in the last {stats.componentsUsedDays} days
+                            </span>
+                        </div>
+                    )}
+                    {stats && (
+                        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                            <span className="text-foreground/80">Your components were used by others:</span>
+                            <span className="flex items-center gap-2">
+                                <Eye className="w-3 h-3" /> {stats.receivedUsage.view} view{stats.receivedUsage.view !== 1 ? "s" : ""}
+                            </span>
+                            <span className="flex items-center gap-2">
+                                <Copy className="w-3 h-3" /> {stats.receivedUsage.copy} code cop{stats.receivedUsage.copy !== 1 ? "ies" : "y"}
+                            </span>
+                            <span className="flex items-center gap-2">
+                                <Terminal className="w-3 h-3" /> {stats.receivedUsage.install} install{stats.receivedUsage.install !== 1 ? "s" : ""}
+                            </span>
+                        </div>
+                    )}
                 </div>
             </div>
 
             {/* Tabs */}
             <Tabs defaultValue="general" className="w-full">
-                <TabsList className={`grid w-full ${user.role === "superadmin" ? "grid-cols-3" : "grid-cols-2"} lg:w-[600px]`}>
+                <TabsList className={`grid w-full ${user.role === "superadmin" ? "grid-cols-4" : "grid-cols-2"} lg:w-[600px]`}>
                     <TabsTrigger value="general">General</TabsTrigger>
                     <TabsTrigger value="security">Security</TabsTrigger>
                     {user.role === "superadmin" && (
@@ -88,6 +116,12 @@ export default function ProfilePage() {
                             User Management
                         </TabsTrigger>
                     )}
+                    {user.role === "superadmin" && (
+                        <TabsTrigger value="audit" className="gap-2">
+                            <ScrollText className="h-4 w-4" />
+                            Audit Log
+                        </TabsTrigger>
+                    )}
                 </TabsList>
 
                 {/* General Tab */}
@@ -174,6 +208,13 @@ export default function ProfilePage() {
                         <UserManagement />
                     </TabsContent>
                 )}
+
+                {/* Audit Log Tab - Only visible to superadmin */}
+                {user.role === "superadmin" && (
+                    <TabsContent value="audit" className="mt-6">
+                        <AuditLog />
+                    </TabsContent>
+                )}
             </Tabs>
         </div>
     );
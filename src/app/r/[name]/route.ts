@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { db } from "@/server/db";
+import { getRegistryIndex, getRegistryItem } from "@/server/registry";
+
+/**
+ * shadcn-compatible registry:
+ *   GET /r/index.json         every published component
+ *   GET /r/<slug>.json        one component as a registry-item
+ *   ?label=<name>             serve the version with that label instead of the latest
+ *   ?experimental=1           also serve components that are not "ready"
+ *
+ * Signed-in users can browse it directly. The shadcn CLI authenticates with
+ * `Authorization: Bearer $REGISTRY_TOKEN` (configured under "registries" in components.json).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const token = process.env.REGISTRY_TOKEN;
+  const hasToken = !!token && request.headers.get("authorization") === `Bearer ${token}`;
+  if (!hasToken && !(await auth())?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { name } = await params;
+  if (!name.endsWith(".json")) {
+    return NextResponse.json({ error: "Registry URLs end in .json" }, { status: 404 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const includeExperimental = ["1", "true"].includes(searchParams.get("experimental") ?? "");
+
+  try {
+    if (name === "index.json") {
+      const index = await getRegistryIndex(db, {
+        includeExperimental,
+        homepage: request.nextUrl.origin,
+      });
+      return NextResponse.json(index);
+    }
+
+    const result = await getRegistryItem(db, {
+      slug: name.slice(0, -".json".length),
+      label: searchParams.get("label"),
+      includeExperimental,
+    });
+    if (!result.found) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+    return NextResponse.json(result.item);
+  } catch (error) {
+    console.error("[Registry] Error:", error);
+    return NextResponse.json({ error: "Failed to load the registry" }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { LinkIcon } from "lucide-react";
+import { db } from "@/server/db";
+import { resolveShareLink, type ResolvedShareLink } from "@/server/share-links";
+import { SharedComponentView } from "@/components/share/shared-component-view";
+
+// Every visit counts a view and re-checks expiry, so never cache this page
+export const dynamic = "force-dynamic";
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+const UNAVAILABLE_MESSAGES: Record<Extract<ResolvedShareLink, { ok: false }>["reason"], string> = {
+  not_found: "This share link does not exist.",
+  expired: "This share link has expired. Ask the person who shared it for a new one.",
+  revoked: "This share link has been revoked.",
+  unavailable: "The shared component is no longer available.",
+};
+
+// Public, read-only view of one component. Access is granted by the token alone (see middleware)
+export default async function SharePage({ params }: PageProps) {
+  const { token } = await params;
+  const result = await resolveShareLink(db, token, { countView: true });
+
+  if (!result.ok) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-3 text-center px-4">
+        <LinkIcon className="h-8 w-8 text-muted-foreground" />
+        <p className="text-muted-foreground">{UNAVAILABLE_MESSAGES[result.reason]}</p>
+      </div>
+    );
+  }
+
+  return (
+    <SharedComponentView
+      component={result.component}
+      version={result.version}
+      isPinned={!!result.link.versionId}
+    />
+  );
+}
@@ -0,0 +1,319 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Check, GitMerge, Loader2, Pencil, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { trpc } from "@/lib/trpc";
+import { usePermissions } from "@/lib/use-permissions";
+import { normalizeTagName, validateTagName } from "@/lib/tags";
+
+export default function TagsPage() {
+  const utils = trpc.useUtils();
+  const { canManageTags } = usePermissions();
+  const [filter, setFilter] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+  const [isMergeDialogOpen, setIsMergeDialogOpen] = useState(false);
+  const [tagToDelete, setTagToDelete] = useState<{ id: string; name: string } | null>(null);
+
+  const { data: tags = [], isLoading } = trpc.tag.list.useQuery();
+
+  const visibleTags = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return query ? tags.filter((tag) => tag.name.includes(query)) : tags;
+  }, [tags, filter]);
+  const selectedTags = tags.filter((tag) => selectedIds.has(tag.id));
+
+  const onChanged = () => {
+    utils.tag.list.invalidate();
+    utils.component.list.invalidate();
+    utils.component.getById.invalidate();
+  };
+
+  const renameMutation = trpc.tag.rename.useMutation({
+    onSuccess: () => {
+      onChanged();
+      setEditing(null);
+    },
+  });
+  const mergeMutation = trpc.tag.merge.useMutation({
+    onSuccess: () => {
+      onChanged();
+      setSelectedIds(new Set());
+      setIsMergeDialogOpen(false);
+    },
+  });
+  const deleteMutation = trpc.tag.delete.useMutation({
+    onSuccess: () => {
+      onChanged();
+      setTagToDelete(null);
+    },
+  });
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const editingError = editing ? validateTagName(editing.name) : null;
+  const error = renameMutation.error ?? mergeMutation.error ?? deleteMutation.error;
+  // Default the merge target to the most used of the selected tags
+  const effectiveTargetId =
+    mergeTargetId && selectedIds.has(mergeTargetId)
+      ? mergeTargetId
+      : [...selectedTags].sort((a, b) => b.componentCount - a.componentCount)[0]?.id;
+  const mergeTarget = tags.find((tag) => tag.id === effectiveTargetId);
+
+  return (
+    <div className="container max-w-4xl mx-auto py-10 space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" title="Back to library">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Tag className="h-5 w-5" /> Tags
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            {canManageTags
+              ? "Rename, merge or delete tags across the whole library."
+              : "All tags in the library. Only superadmins can rename or merge them."}
+          </p>
+        </div>
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter tags..."
+          className="w-48"
+        />
+      </div>
+
+      {canManageTags && selectedTags.length > 1 && (
+        <div className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-2 text-sm">
+          <span>{selectedTags.length} selected</span>
+          <Button
+            size="sm"
+            variant="outline"
+            className="ml-auto"
+            onClick={() => {
+              mergeMutation.reset();
+              setIsMergeDialogOpen(true);
+            }}
+          >
+            <GitMerge className="h-4 w-4 mr-1" />
+            Merge
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : visibleTags.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          {filter ? "No tags match this filter." : "No tags yet. Add tags to components to see them here."}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {canManageTags && <TableHead className="w-10" />}
+              <TableHead>Tag</TableHead>
+              <TableHead className="w-32 text-right">Components</TableHead>
+              {canManageTags && <TableHead className="w-24" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleTags.map((tag) => (
+              <TableRow key={tag.id} data-state={selectedIds.has(tag.id) ? "selected" : undefined}>
+                {canManageTags && (
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${tag.name}`}
+                      checked={selectedIds.has(tag.id)}
+                      onChange={() => toggle(tag.id)}
+                      className="h-4 w-4 accent-primary"
+                    />
+                  </TableCell>
+                )}
+                <TableCell>
+                  {editing?.id === tag.id ? (
+                    <form
+                      className="flex items-center gap-1"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        if (editingError) return;
+                        renameMutation.mutate({ id: tag.id, name: normalizeTagName(editing.name) });
+                      }}
+                    >
+                      <Input
+                        value={editing.name}
+                        onChange={(e) => setEditing({ id: tag.id, name: e.target.value })}
+                        onKeyDown={(e) => e.key === "Escape" && setEditing(null)}
+                        className="h-8 max-w-xs"
+                        aria-invalid={!!editingError}
+                        autoFocus
+                      />
+                      <Button
+                        type="submit"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={!!editingError || renameMutation.isPending}
+                        title={editingError ?? "Save"}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditing(null)}
+                        title="Cancel"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </form>
+                  ) : (
+                    <span className="font-medium">{tag.name}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right text-muted-foreground">{tag.componentCount}</TableCell>
+                {canManageTags && (
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Rename"
+                        onClick={() => {
+                          renameMutation.reset();
+                          setEditing({ id: tag.id, name: tag.name });
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-destructive hover:text-destructive"
+                        title="Delete"
+                        onClick={() => setTagToDelete({ id: tag.id, name: tag.name })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <AlertDialog open={isMergeDialogOpen} onOpenChange={setIsMergeDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge {selectedTags.length} tags</AlertDialogTitle>
+            <AlertDialogDescription>
+              Components tagged with any of the selected tags get the target tag instead. The
+              other tags are deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Select value={effectiveTargetId} onValueChange={setMergeTargetId}>
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Target tag" />
+            </SelectTrigger>
+            <SelectContent>
+              {selectedTags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>
+                  {tag.name} ({tag.componentCount})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (!mergeTarget) return;
+                mergeMutation.mutate({
+                  targetId: mergeTarget.id,
+                  sourceIds: selectedTags.map((tag) => tag.id),
+                });
+              }}
+              disabled={!mergeTarget || mergeMutation.isPending}
+            >
+              {mergeMutation.isPending ? "Merging..." : `Merge into "${mergeTarget?.name ?? ""}"`}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={tagToDelete !== null} onOpenChange={(open) => !open && setTagToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag &quot;{tagToDelete?.name}&quot;?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tag is removed from every component. The components themselves are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (tagToDelete) deleteMutation.mutate(tagToDelete.id);
+              }}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
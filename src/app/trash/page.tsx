@@ -0,0 +1,262 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { differenceInDays, formatDistanceToNow } from "date-fns";
+import { ArrowLeft, Loader2, RotateCcw, Trash2, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { UserByline } from "@/components/auth/user-avatar";
+import { getFrameworkColor, getFrameworkLabel, type Framework } from "@/lib/detect-framework";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { usePermissions } from "@/lib/use-permissions";
+
+export default function TrashPage() {
+  const utils = trpc.useUtils();
+  const { canWrite, canPurgeComponent } = usePermissions();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirm, setConfirm] = useState<"purge" | "purgeExpired" | null>(null);
+
+  const { data, isLoading } = trpc.component.listDeleted.useQuery();
+  const components = useMemo(() => data?.components ?? [], [data]);
+  const retentionDays = data?.retentionDays ?? 0;
+
+  // Drop selections for rows that are no longer in the trash
+  const selected = useMemo(
+    () => components.filter((c) => selectedIds.has(c.id)).map((c) => c.id),
+    [components, selectedIds]
+  );
+  const allSelected = components.length > 0 && selected.length === components.length;
+
+  const onChanged = () => {
+    setSelectedIds(new Set());
+    utils.component.listDeleted.invalidate();
+    utils.component.list.invalidate();
+  };
+
+  const restoreMutation = trpc.component.restoreMany.useMutation({ onSuccess: onChanged });
+  const purgeMutation = trpc.component.purge.useMutation({
+    onSuccess: () => {
+      onChanged();
+      setConfirm(null);
+    },
+  });
+  const purgeExpiredMutation = trpc.component.purgeExpired.useMutation({
+    onSuccess: () => {
+      onChanged();
+      setConfirm(null);
+    },
+  });
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(components.map((c) => c.id)));
+  };
+
+  const daysLeft = (deletedAt: Date) =>
+    Math.max(0, retentionDays - differenceInDays(new Date(), new Date(deletedAt)));
+
+  const error = restoreMutation.error ?? purgeMutation.error ?? purgeExpiredMutation.error;
+
+  return (
+    <div className="container max-w-5xl mx-auto py-10 space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" title="Back to library">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Trash2 className="h-5 w-5" /> Trash
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Deleted components are permanently removed after {retentionDays} days.
+          </p>
+        </div>
+        {canPurgeComponent && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setConfirm("purgeExpired")}
+            disabled={purgeExpiredMutation.isPending}
+          >
+            <Timer className="h-4 w-4 mr-1" />
+            Purge expired now
+          </Button>
+        )}
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex items-center gap-2 rounded-md border bg-muted/30 px-3 py-2 text-sm">
+          <span>{selected.length} selected</span>
+          <div className="ml-auto flex items-center gap-2">
+            {canWrite && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => restoreMutation.mutate(selected)}
+                disabled={restoreMutation.isPending}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                {restoreMutation.isPending ? "Restoring..." : "Restore"}
+              </Button>
+            )}
+            {canPurgeComponent && (
+              <Button size="sm" variant="destructive" onClick={() => setConfirm("purge")}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete permanently
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+      {isLoading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : components.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">The trash is empty.</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <input
+                  type="checkbox"
+                  aria-label="Select all"
+                  checked={allSelected}
+                  onChange={toggleAll}
+                  className="h-4 w-4 accent-primary"
+                />
+              </TableHead>
+              <TableHead>Component</TableHead>
+              <TableHead>Deleted by</TableHead>
+              <TableHead>Deleted</TableHead>
+              <TableHead>Purged in</TableHead>
+              {canWrite && <TableHead className="w-10" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {components.map((component) => {
+              const remaining = component.deletedAt ? daysLeft(component.deletedAt) : retentionDays;
+              return (
+                <TableRow key={component.id} data-state={selectedIds.has(component.id) ? "selected" : undefined}>
+                  <TableCell>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${component.title}`}
+                      checked={selectedIds.has(component.id)}
+                      onChange={() => toggle(component.id)}
+                      className="h-4 w-4 accent-primary"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="font-medium truncate">{component.title}</span>
+                      <Badge
+                        variant="outline"
+                        className={cn("text-xs", getFrameworkColor(component.framework as Framework))}
+                      >
+                        {getFrameworkLabel(component.framework as Framework)}
+                      </Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {component.deletedBy ? (
+                      <UserByline label="" user={component.deletedBy} />
+                    ) : (
+                      "Unknown"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {component.deletedAt &&
+                      formatDistanceToNow(new Date(component.deletedAt), { addSuffix: true })}
+                  </TableCell>
+                  <TableCell className={cn("text-xs", remaining <= 3 ? "text-red-500" : "text-muted-foreground")}>
+                    {remaining === 0 ? "Next purge" : `${remaining} day${remaining === 1 ? "" : "s"}`}
+                  </TableCell>
+                  {canWrite && (
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title="Restore"
+                        onClick={() => restoreMutation.mutate([component.id])}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <AlertDialog open={confirm !== null} onOpenChange={(open) => !open && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirm === "purge"
+                ? `Permanently delete ${selected.length} component${selected.length === 1 ? "" : "s"}?`
+                : "Purge expired components?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm === "purge"
+                ? "All versions and files of the selected components will be deleted. This action cannot be undone."
+                : `Components deleted more than ${retentionDays} days ago will be permanently deleted. This normally runs on a schedule.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (confirm === "purge") purgeMutation.mutate(selected);
+                else purgeExpiredMutation.mutate();
+              }}
+              disabled={purgeMutation.isPending || purgeExpiredMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {purgeMutation.isPending || purgeExpiredMutation.isPending ? "Deleting..." : "Delete permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, BarChart3, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ComponentStatusBadge } from "@/components/grid/component-status-badge";
+import { UserByline } from "@/components/auth/user-avatar";
+import {
+  DEFAULT_USAGE_PERIOD,
+  USAGE_EVENT_LABELS,
+  USAGE_EVENT_TYPES,
+  USAGE_PERIODS,
+  type UsagePeriod,
+} from "@/lib/usage";
+import { getFrameworkColor, getFrameworkLabel, type Framework } from "@/lib/detect-framework";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+
+function ComponentCell({
+  component,
+}: {
+  component: { id: string; title: string; framework: string; status: string };
+}) {
+  return (
+    <div className="flex items-center gap-2 min-w-0">
+      <Link href={`/component/${component.id}`} className="font-medium hover:underline truncate">
+        {component.title}
+      </Link>
+      <Badge
+        variant="outline"
+        className={cn("text-xs shrink-0", getFrameworkColor(component.framework as Framework))}
+      >
+        {getFrameworkLabel(component.framework as Framework)}
+      </Badge>
+      <ComponentStatusBadge status={component.status} className="shrink-0" />
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [days, setDays] = useState<UsagePeriod>(DEFAULT_USAGE_PERIOD);
+  const { data: report, isLoading } = trpc.usage.getLibraryReport.useQuery({ days });
+
+  return (
+    <div className="container max-w-5xl mx-auto py-10 space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/" title="Back to library">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" /> Usage
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Which components get viewed, copied and installed, and which nobody has used.
+          </p>
+        </div>
+        <div className="flex gap-1">
+          {USAGE_PERIODS.map((period) => (
+            <Button
+              key={period}
+              variant={days === period ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setDays(period)}
+              aria-pressed={days === period}
+            >
+              {period} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="flex justify-center py-16">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+            {USAGE_EVENT_TYPES.map((type) => (
+              <div key={type} className="rounded-md border p-3">
+                <p className="text-xs text-muted-foreground">{USAGE_EVENT_LABELS[type]}</p>
+                <p className="text-2xl font-semibold">{report.totals[type]}</p>
+              </div>
+            ))}
+            <div className="rounded-md border p-3">
+              <p className="text-xs text-muted-foreground">Components used</p>
+              <p className="text-2xl font-semibold">
+                {report.usedCount}
+                <span className="text-sm font-normal text-muted-foreground"> of {report.componentCount}</span>
+              </p>
+            </div>
+          </div>
+
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">Most used in the last {report.days} days</h2>
+            {report.mostUsed.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                No usage recorded in this period.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Component</TableHead>
+                    {USAGE_EVENT_TYPES.map((type) => (
+                      <TableHead key={type} className="w-28 text-right">
+                        {USAGE_EVENT_LABELS[type]}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.mostUsed.map(({ component, counts }) => (
+                    <TableRow key={component.id}>
+                      <TableCell className="max-w-0 w-full">
+                        <ComponentCell component={component} />
+                      </TableCell>
+                      {USAGE_EVENT_TYPES.map((type) => (
+                        <TableCell key={type} className="text-right tabular-nums">
+                          {counts[type]}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+
+          <section className="space-y-2">
+            <h2 className="text-lg font-semibold">
+              Never used
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                {report.neverUsedCount} component{report.neverUsedCount !== 1 ? "s" : ""}
+                {report.neverUsedCount > report.neverUsed.length && `, oldest ${report.neverUsed.length} shown`}
+              </span>
+            </h2>
+            {report.neverUsed.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                Every component has been used at least once.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Component</TableHead>
+                    <TableHead className="w-56">Created</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.neverUsed.map((component) => (
+                    <TableRow key={component.id}>
+                      <TableCell className="max-w-0 w-full">
+                        <ComponentCell component={component} />
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {component.createdBy ? (
+                          <UserByline
+                            label={`${formatDistanceToNow(new Date(component.createdAt), { addSuffix: true })} by`}
+                            user={component.createdBy}
+                          />
+                        ) : (
+                          formatDistanceToNow(new Date(component.createdAt), { addSuffix: true })
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
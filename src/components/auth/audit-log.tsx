@@ -0,0 +1,369 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import {
+    Card,
+    CardContent,
+    CardDescription,
+    CardHeader,
+    CardTitle,
+} from "@/components/ui/card";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { UserAvatar, getUserDisplayName } from "@/components/auth/user-avatar";
+import { ChevronDown, ChevronRight, Download, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { useDebounce } from "@/lib/use-debounce";
+import { downloadFile } from "@/lib/download";
+
+const ALL = "all";
+
+// Parses a yyyy-MM-dd date input as local midnight, optionally a number of days later
+function parseDay(value: string, addDays = 0) {
+    if (!value) return undefined;
+    const [year, month, day] = value.split("-").map(Number);
+    return new Date(year, month - 1, day + addDays);
+}
+
+export function AuditLog() {
+    const utils = trpc.useUtils();
+    const [actorId, setActorId] = useState(ALL);
+    const [procedure, setProcedure] = useState(ALL);
+    const [result, setResult] = useState(ALL);
+    const [targetId, setTargetId] = useState("");
+    const [fromDate, setFromDate] = useState("");
+    const [toDate, setToDate] = useState("");
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+    const debouncedTargetId = useDebounce(targetId.trim(), 300);
+
+    const filters = {
+        actorId: actorId === ALL ? undefined : actorId,
+        procedure: procedure === ALL ? undefined : procedure,
+        success: result === ALL ? undefined : result === "success",
+        targetId: debouncedTargetId || undefined,
+        from: parseDay(fromDate),
+        // The "to" day is inclusive, so the bound is the start of the next day
+        to: parseDay(toDate, 1),
+    };
+    const hasFilters =
+        actorId !== ALL || procedure !== ALL || result !== ALL || !!targetId || !!fromDate || !!toDate;
+
+    const { data: options } = trpc.audit.getFilterOptions.useQuery();
+    const {
+        data,
+        isLoading,
+        hasNextPage,
+        isFetchingNextPage,
+        fetchNextPage,
+    } = trpc.audit.list.useInfiniteQuery(filters, {
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+    });
+    const events = data?.pages.flatMap((page) => page.items) ?? [];
+
+    const clearFilters = () => {
+        setActorId(ALL);
+        setProcedure(ALL);
+        setResult(ALL);
+        setTargetId("");
+        setFromDate("");
+        setToDate("");
+    };
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        try {
+            const { csv, count, truncated } = await utils.audit.exportCsv.fetch(filters);
+            downloadFile(csv, `audit-log-${format(new Date(), "yyyy-MM-dd-HHmm")}.csv`, "text/csv");
+            if (truncated) toast.warning(`Exported the newest ${count} events; narrow the filters for older ones`);
+        } catch (error) {
+            toast.error(error instanceof Error ? error.message : "Export failed");
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div>
+                        <CardTitle>Audit Log</CardTitle>
+                        <CardDescription>
+                            Every change made through the app, who made it and whether it succeeded.
+                        </CardDescription>
+                    </div>
+                    <Button
+                        onClick={handleExport}
+                        size="sm"
+                        variant="outline"
+                        className="gap-2"
+                        disabled={isExporting}
+                    >
+                        {isExporting ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                            <Download className="h-4 w-4" />
+                        )}
+                        Export CSV
+                    </Button>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {/* Filters */}
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                    <div className="grid gap-1.5">
+                        <Label className="text-xs">Actor</Label>
+                        <Select value={actorId} onValueChange={setActorId}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>Anyone</SelectItem>
+                                {options?.actors.map((actor) => (
+                                    <SelectItem key={actor.id} value={actor.id}>
+                                        {getUserDisplayName(actor)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label className="text-xs">Action</Label>
+                        <Select value={procedure} onValueChange={setProcedure}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>All actions</SelectItem>
+                                {options?.procedures.map((name) => (
+                                    <SelectItem key={name} value={name} className="font-mono text-xs">
+                                        {name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label className="text-xs">Result</Label>
+                        <Select value={result} onValueChange={setResult}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL}>Any result</SelectItem>
+                                <SelectItem value="success">Succeeded</SelectItem>
+                                <SelectItem value="failure">Failed</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="audit-target" className="text-xs">Target id</Label>
+                        <Input
+                            id="audit-target"
+                            placeholder="Component, collection, user..."
+                            value={targetId}
+                            onChange={(e) => setTargetId(e.target.value)}
+                            className="font-mono text-xs"
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="audit-from" className="text-xs">From</Label>
+                        <Input
+                            id="audit-from"
+                            type="date"
+                            value={fromDate}
+                            onChange={(e) => setFromDate(e.target.value)}
+                        />
+                    </div>
+                    <div className="grid gap-1.5">
+                        <Label htmlFor="audit-to" className="text-xs">To</Label>
+                        <Input
+                            id="audit-to"
+                            type="date"
+                            value={toDate}
+                            onChange={(e) => setToDate(e.target.value)}
+                        />
+                    </div>
+                </div>
+                {hasFilters && (
+                    <Button variant="ghost" size="sm" className="gap-1" onClick={clearFilters}>
+                        <X className="h-3 w-3" />
+                        Clear filters
+                    </Button>
+                )}
+
+                {/* Events Table */}
+                <div className="rounded-md border">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="w-8" />
+                                <TableHead>Time</TableHead>
+                                <TableHead>Actor</TableHead>
+                                <TableHead>Action</TableHead>
+                                <TableHead>Targets</TableHead>
+                                <TableHead>Result</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {isLoading ? (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center py-8">
+                                        <Loader2 className="h-5 w-5 animate-spin inline text-muted-foreground" />
+                                    </TableCell>
+                                </TableRow>
+                            ) : events.length === 0 ? (
+                                <TableRow>
+                                    <TableCell
+                                        colSpan={6}
+                                        className="text-center py-8 text-muted-foreground"
+                                    >
+                                        {hasFilters
+                                            ? "No events match these filters."
+                                            : "No events recorded yet."}
+                                    </TableCell>
+                                </TableRow>
+                            ) : (
+                                events.map((event) => {
+                                    const isExpanded = expandedId === event.id;
+                                    return (
+                                        <Fragment key={event.id}>
+                                            <TableRow
+                                                className="cursor-pointer"
+                                                onClick={() => setExpandedId(isExpanded ? null : event.id)}
+                                            >
+                                                <TableCell>
+                                                    {isExpanded ? (
+                                                        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                                                    ) : (
+                                                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                                                    {format(new Date(event.createdAt), "MMM d, yyyy HH:mm:ss")}
+                                                </TableCell>
+                                                <TableCell>
+                                                    {event.actor ? (
+                                                        <div className="flex items-center gap-2">
+                                                            <UserAvatar user={event.actor} />
+                                                            <span className="text-sm truncate">
+                                                                {getUserDisplayName(event.actor)}
+                                                            </span>
+                                                        </div>
+                                                    ) : (
+                                                        <span className="text-sm text-muted-foreground">
+                                                            {event.actorEmail ?? "Signed out"}
+                                                        </span>
+                                                    )}
+                                                </TableCell>
+                                                <TableCell className="font-mono text-xs">
+                                                    {event.procedure}
+                                                </TableCell>
+                                                <TableCell className="max-w-[200px]">
+                                                    <div className="flex flex-wrap gap-1">
+                                                        {event.targetIds.slice(0, 3).map((id) => (
+                                                            <button
+                                                                key={id}
+                                                                type="button"
+                                                                className="font-mono text-xs text-muted-foreground hover:text-foreground truncate max-w-[180px]"
+                                                                title="Show events for this id"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    setTargetId(id);
+                                                                }}
+                                                            >
+                                                                {id}
+                                                            </button>
+                                                        ))}
+                                                        {event.targetIds.length > 3 && (
+                                                            <span className="text-xs text-muted-foreground">
+                                                                +{event.targetIds.length - 3}
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                </TableCell>
+                                                <TableCell>
+                                                    {event.success ? (
+                                                        <Badge variant="outline" className="text-green-500 border-green-500/20">
+                                                            Success
+                                                        </Badge>
+                                                    ) : (
+                                                        <Badge variant="outline" className="text-destructive border-destructive/20">
+                                                            {event.errorCode ?? "Failed"}
+                                                        </Badge>
+                                                    )}
+                                                </TableCell>
+                                            </TableRow>
+                                            {isExpanded && (
+                                                <TableRow className="hover:bg-transparent">
+                                                    <TableCell />
+                                                    <TableCell colSpan={5} className="space-y-2 pb-4">
+                                                        {event.errorMessage && (
+                                                            <p className="text-sm text-destructive">{event.errorMessage}</p>
+                                                        )}
+                                                        <p className="text-xs text-muted-foreground">
+                                                            Took {event.durationMs} ms
+                                                            {event.targetIds.length > 0 && ` · Targets: ${event.targetIds.join(", ")}`}
+                                                        </p>
+                                                        <p className="text-xs font-medium">Input</p>
+                                                        <pre className="max-h-64 overflow-auto rounded-md bg-muted/50 p-3 text-xs whitespace-pre-wrap break-all">
+                                                            {event.input === null
+                                                                ? "No input"
+                                                                : JSON.stringify(event.input, null, 2)}
+                                                        </pre>
+                                                        {event.result !== null && (
+                                                            <>
+                                                                <p className="text-xs font-medium">Result</p>
+                                                                <pre className="max-h-64 overflow-auto rounded-md bg-muted/50 p-3 text-xs whitespace-pre-wrap break-all">
+                                                                    {JSON.stringify(event.result, null, 2)}
+                                                                </pre>
+                                                            </>
+                                                        )}
+                                                    </TableCell>
+                                                </TableRow>
+                                            )}
+                                        </Fragment>
+                                    );
+                                })
+                            )}
+                        </TableBody>
+                    </Table>
+                </div>
+
+                {hasNextPage && (
+                    <div className="flex justify-center">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => fetchNextPage()}
+                            disabled={isFetchingNextPage}
+                        >
+                            {isFetchingNextPage && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Load more
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
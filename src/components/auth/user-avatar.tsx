@@ -0,0 +1,62 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+
+export interface UserSummary {
+  id: string;
+  name: string | null;
+  email: string | null;
+  image: string | null;
+}
+
+export function getUserDisplayName(user: UserSummary | null | undefined) {
+  return user?.name || user?.email || "Unknown user";
+}
+
+function getUserInitials(user: UserSummary | null | undefined) {
+  return (
+    user?.name
+      ?.split(" ")
+      .map((n) => n[0])
+      .join("")
+      .toUpperCase()
+      .slice(0, 2) ||
+    user?.email?.[0]?.toUpperCase() ||
+    "?"
+  );
+}
+
+interface UserAvatarProps {
+  user: UserSummary | null | undefined;
+  className?: string;
+}
+
+export function UserAvatar({ user, className }: UserAvatarProps) {
+  const displayName = getUserDisplayName(user);
+
+  return (
+    <Avatar className={cn("h-5 w-5", className)} title={displayName}>
+      <AvatarImage src={user?.image || undefined} alt={displayName} />
+      <AvatarFallback className="text-[9px] font-medium">
+        {getUserInitials(user)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+interface UserBylineProps extends UserAvatarProps {
+  label: string;
+}
+
+// Avatar plus "<label> <name>", e.g. "Created by Jane Doe"
+export function UserByline({ user, label, className }: UserBylineProps) {
+  return (
+    <span className={cn("flex items-center gap-1.5 min-w-0", className)}>
+      <UserAvatar user={user} />
+      <span className="truncate">
+        {label} <span className="text-foreground">{getUserDisplayName(user)}</span>
+      </span>
+    </span>
+  );
+}
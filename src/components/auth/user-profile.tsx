@@ -13,7 +13,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useState } from "react";
 import { UserManagementDialog } from "./user-management-dialog";
-import { Shield, LogOut, User } from "lucide-react";
+import { Shield, LogOut, User, Trash2, Tag, DatabaseBackup, BarChart3 } from "lucide-react";
 import Link from "next/link";
 
 export function UserProfile() {
@@ -66,6 +66,24 @@ export function UserProfile() {
               <span>Profile</span>
             </Link>
           </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/trash" className="cursor-pointer w-full flex items-center">
+              <Trash2 className="mr-2 h-4 w-4" />
+              <span>Trash</span>
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/tags" className="cursor-pointer w-full flex items-center">
+              <Tag className="mr-2 h-4 w-4" />
+              <span>Tags</span>
+            </Link>
+          </DropdownMenuItem>
+          <DropdownMenuItem asChild>
+            <Link href="/usage" className="cursor-pointer w-full flex items-center">
+              <BarChart3 className="mr-2 h-4 w-4" />
+              <span>Usage</span>
+            </Link>
+          </DropdownMenuItem>
 
           {session.user.role === "superadmin" && (
             <>
@@ -74,6 +92,12 @@ export function UserProfile() {
                 <Shield className="mr-2 h-4 w-4" />
                 <span>Manage Users</span>
               </DropdownMenuItem>
+              <DropdownMenuItem asChild>
+                <Link href="/backup" className="cursor-pointer w-full flex items-center">
+                  <DatabaseBackup className="mr-2 h-4 w-4" />
+                  <span>Backup &amp; Restore</span>
+                </Link>
+              </DropdownMenuItem>
             </>
           )}
 
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { FolderTree, FolderUp, Loader2 } from "lucide-react";
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+
+type DeleteMode = "moveChildrenUp" | "deleteSubtree";
+
+interface DeleteCollectionDialogProps {
+    collection: { id: string; name: string } | null;
+    onOpenChange: (open: boolean) => void;
+    onDeleted?: (deletedIds: string[]) => void;
+}
+
+function plural(count: number, noun: string) {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+// Confirms deleting a collection and asks what happens to everything nested in it
+export function DeleteCollectionDialog({
+    collection,
+    onOpenChange,
+    onDeleted,
+}: DeleteCollectionDialogProps) {
+    const [mode, setMode] = useState<DeleteMode>("moveChildrenUp");
+    const utils = trpc.useUtils();
+
+    const { data: impact, isLoading, error: impactError } =
+        trpc.collection.getDeleteImpact.useQuery(collection?.id ?? "", {
+            enabled: collection !== null,
+        });
+
+    const deleteMutation = trpc.collection.delete.useMutation({
+        onSuccess: ({ deletedIds }) => {
+            utils.collection.list.invalidate();
+            utils.collection.getDeleteImpact.invalidate();
+            utils.component.list.invalidate();
+            onDeleted?.(deletedIds);
+            onOpenChange(false);
+        },
+    });
+
+    const isEmpty = impact && impact.descendantCount === 0 && impact.componentCount === 0;
+    const parentName = impact?.parent ? `"${impact.parent.name}"` : "the top level";
+    const error = impactError ?? deleteMutation.error;
+
+    const options: { mode: DeleteMode; icon: typeof FolderUp; title: string; details: string[] }[] =
+        impact
+            ? [
+                {
+                    mode: "moveChildrenUp",
+                    icon: FolderUp,
+                    title: `Move contents up to ${parentName}`,
+                    details: [
+                        `Moves ${plural(impact.childCount, "sub-collection")} to ${parentName}, with everything nested in them.`,
+                        impact.parent
+                            ? `Adds ${plural(impact.componentCount, "component")} to ${parentName}.`
+                            : `Removes ${plural(impact.componentCount, "component")} from this collection; they stay in the library.`,
+                    ],
+                },
+                {
+                    mode: "deleteSubtree",
+                    icon: FolderTree,
+                    title: "Delete the whole subtree",
+                    details: [
+                        `Also deletes ${plural(impact.descendantCount, "nested sub-collection")}.`,
+                        `Removes ${plural(impact.subtreeComponentCount, "component")} from these collections; they stay in the library.`,
+                    ],
+                },
+            ]
+            : [];
+
+    return (
+        <AlertDialog
+            open={collection !== null}
+            onOpenChange={(open) => {
+                if (!open) deleteMutation.reset();
+                onOpenChange(open);
+            }}
+        >
+            <AlertDialogContent>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>Delete collection &quot;{collection?.name}&quot;?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                        {impact
+                            ? isEmpty
+                                ? "This collection is empty."
+                                : `Including everything nested in it, it contains ${plural(impact.descendantCount, "sub-collection")} and ${plural(impact.subtreeComponentCount, "component")}. Components themselves are never deleted.`
+                            : "Checking what this collection contains..."}
+                    </AlertDialogDescription>
+                </AlertDialogHeader>
+
+                {isLoading && (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                )}
+
+                {impact && !isEmpty && (
+                    <div className="space-y-2" role="radiogroup" aria-label="What happens to the contents">
+                        {options.map((option) => (
+                            <label
+                                key={option.mode}
+                                className={cn(
+                                    "flex gap-3 rounded-md border p-3 cursor-pointer transition-colors",
+                                    mode === option.mode ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                                )}
+                            >
+                                <input
+                                    type="radio"
+                                    name="delete-mode"
+                                    value={option.mode}
+                                    checked={mode === option.mode}
+                                    onChange={() => setMode(option.mode)}
+                                    className="mt-1 h-4 w-4 accent-primary"
+                                />
+                                <div className="space-y-1 text-sm">
+                                    <div className="flex items-center gap-2 font-medium">
+                                        <option.icon className="h-4 w-4" />
+                                        {option.title}
+                                    </div>
+                                    {option.details.map((detail) => (
+                                        <p key={detail} className="text-muted-foreground">
+                                            {detail}
+                                        </p>
+                                    ))}
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-destructive">{error.message}</p>}
+
+                <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                        onClick={(e) => {
+                            e.preventDefault();
+                            if (collection) deleteMutation.mutate({ id: collection.id, mode });
+                        }}
+                        disabled={!impact || deleteMutation.isPending}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                        {deleteMutation.isPending
+                            ? "Deleting..."
+                            : impact && mode === "deleteSubtree" && impact.descendantCount > 0
+                                ? `Delete ${plural(impact.descendantCount + 1, "collection")}`
+                                : "Delete collection"}
+                    </AlertDialogAction>
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    );
+}
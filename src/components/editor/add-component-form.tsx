@@ -40,6 +40,8 @@ import {
 import { extractComponentName, suggestFilename } from "@/lib/parse-imports";
 import { trpc } from "@/lib/trpc";
 import { cn } from "@/lib/utils";
+import { TagInput } from "@/components/tags/tag-input";
+import { ImportComponentArchive } from "./import-component-archive";
 
 interface FileTab {
   id: string;
@@ -78,10 +80,10 @@ export function AddComponentForm({
   const [files, setFiles] = useState<FileTab[]>([]);
   const [activeFileId, setActiveFileId] = useState<string>("");
   const [framework, setFramework] = useState<Framework>("html");
-  const [status, setStatus] = useState<"experiment" | "ready">("experiment");
   const [pasteAreaCode, setPasteAreaCode] = useState("");
   const [packageInstallCommand, setPackageInstallCommand] = useState("");
   const [coverImage, setCoverImage] = useState("");
+  const [tags, setTags] = useState<string[]>([]);
 
   const utils = trpc.useUtils();
   const createMutation = trpc.component.create.useMutation({
@@ -364,12 +366,12 @@ export function AddComponentForm({
   const resetForm = () => {
     setPackageInstallCommand("");
     setCoverImage("");
+    setTags([]);
     setTitle("");
     setDescription("");
     setFiles([]);
     setActiveFileId("");
     setFramework("html");
-    setStatus("experiment");
     setPasteAreaCode("");
   };
 
@@ -491,6 +493,7 @@ export function AddComponentForm({
       isRenderable: isRenderable(detectedFramework) || uniqueLanguages.has("html"),
       packageInstallCommand: packageInstallCommand.trim() || undefined,
       coverImage: coverImage.trim() || undefined,
+      tags,
     });
   };
 
@@ -535,6 +538,14 @@ export function AddComponentForm({
           </DialogDescription>
         </DialogHeader>
 
+        <ImportComponentArchive
+          onImported={() => {
+            resetForm();
+            onOpenChange(false);
+            onSuccess?.();
+          }}
+        />
+
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
             <Label htmlFor="title">Title</Label>
@@ -557,6 +568,16 @@ export function AddComponentForm({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="tags">Tags (optional)</Label>
+            <TagInput
+              id="tags"
+              value={tags}
+              onChange={setTags}
+              placeholder="e.g. animation, glassmorphism"
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="coverImage">Cover Image URL (optional)</Label>
             <div className="relative">
@@ -742,22 +763,6 @@ export function AddComponentForm({
                 </SelectContent>
               </Select>
             </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="status">Status</Label>
-              <Select
-                value={status}
-                onValueChange={(v) => setStatus(v as "experiment" | "ready")}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="experiment">Experiment</SelectItem>
-                  <SelectItem value="ready">Ready</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
           </div>
 
           <DialogFooter>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useRef, useCallback, lazy, Suspense } from "react";
+import { useRef, useCallback, useEffect, useState, lazy, Suspense } from "react";
 import type { OnMount, OnChange } from "@monaco-editor/react";
 import type { editor } from "monaco-editor";
 import type * as monaco from "monaco-editor";
@@ -10,12 +10,32 @@ import type { Language } from "@/lib/detect-framework";
 // Dynamically import Monaco Editor to reduce initial bundle size
 const Editor = lazy(() => import("@monaco-editor/react").then((mod) => ({ default: mod.default })));
 
+// A review comment thread shown as a glyph-margin marker on its lines
+export interface EditorComment {
+  id: string;
+  startLine: number;
+  endLine: number;
+  resolved: boolean;
+  summary: string;
+}
+
+export interface EditorLineRange {
+  startLine: number;
+  endLine: number;
+}
+
 interface CodeEditorProps {
   value: string;
   onChange: (value: string) => void;
   language: Language;
   className?: string;
   readOnly?: boolean;
+  comments?: EditorComment[];
+  onCommentClick?: (commentId: string) => void;
+  // Lines covered by the selection, or null when nothing is selected
+  onSelectionChange?: (range: EditorLineRange | null) => void;
+  // Scrolls to and places the cursor on this line whenever a new object is passed
+  revealLine?: { line: number } | null;
 }
 
 const languageMap: Record<Language, string> = {
@@ -28,6 +48,10 @@ const languageMap: Record<Language, string> = {
   js: "javascript",
 };
 
+export function getMonacoLanguage(language: string) {
+  return languageMap[language as Language] || "plaintext";
+}
+
 // Configure Monaco loader to use local or specific CDN path
 // and ensure it works with COEP (Cross-Origin-Embedder-Policy)
 if (typeof window !== "undefined") {
@@ -47,11 +71,52 @@ export function CodeEditor({
   language,
   className,
   readOnly = false,
+  comments,
+  onCommentClick,
+  onSelectionChange,
+  revealLine,
 }: CodeEditorProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  const monacoRef = useRef<typeof monaco | null>(null);
+  const commentDecorationsRef = useRef<editor.IEditorDecorationsCollection | null>(null);
+  const [isMounted, setIsMounted] = useState(false);
+
+  // Editor event handlers are registered once on mount, so they read the latest props from here
+  const commentPropsRef = useRef({ comments, onCommentClick, onSelectionChange });
+  useEffect(() => {
+    commentPropsRef.current = { comments, onCommentClick, onSelectionChange };
+  }, [comments, onCommentClick, onSelectionChange]);
 
   const handleEditorMount: OnMount = useCallback((editor, monaco) => {
     editorRef.current = editor;
+    monacoRef.current = monaco;
+    commentDecorationsRef.current = editor.createDecorationsCollection();
+
+    editor.onMouseDown((e) => {
+      if (e.target.type !== monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN) return;
+      const line = e.target.position?.lineNumber;
+      if (!line) return;
+      const { comments, onCommentClick } = commentPropsRef.current;
+      const comment = comments?.find((c) => line >= c.startLine && line <= c.endLine);
+      if (comment) onCommentClick?.(comment.id);
+    });
+
+    editor.onDidChangeCursorSelection(({ selection }) => {
+      const { onSelectionChange } = commentPropsRef.current;
+      if (!onSelectionChange) return;
+      if (selection.isEmpty()) {
+        onSelectionChange(null);
+        return;
+      }
+      // A selection ending at column 1 doesn't include that line
+      const endLine =
+        selection.endColumn === 1 && selection.endLineNumber > selection.startLineNumber
+          ? selection.endLineNumber - 1
+          : selection.endLineNumber;
+      onSelectionChange({ startLine: selection.startLineNumber, endLine });
+    });
+
+    setIsMounted(true);
 
     // Store Monaco globally so monaco-types utility can access it
     if (typeof window !== "undefined") {
@@ -224,6 +289,31 @@ export function CodeEditor({
     }
   }, []);
 
+  useEffect(() => {
+    const collection = commentDecorationsRef.current;
+    const monacoApi = monacoRef.current;
+    if (!isMounted || !collection || !monacoApi) return;
+
+    collection.set(
+      (comments ?? []).map((comment) => ({
+        range: new monacoApi.Range(comment.startLine, 1, comment.endLine, 1),
+        options: {
+          isWholeLine: true,
+          className: comment.resolved ? undefined : "comment-line",
+          glyphMarginClassName: cn("comment-glyph", comment.resolved && "comment-glyph-resolved"),
+          glyphMarginHoverMessage: { value: comment.summary },
+        },
+      }))
+    );
+  }, [comments, isMounted]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!isMounted || !editor || !revealLine) return;
+    editor.revealLineInCenter(revealLine.line);
+    editor.setPosition({ lineNumber: revealLine.line, column: 1 });
+  }, [revealLine, isMounted]);
+
   const handleChange: OnChange = useCallback(
     (value) => {
       onChange(value ?? "");
@@ -242,13 +332,14 @@ export function CodeEditor({
       >
         <Editor
           height="100%"
-          language={languageMap[language] || "plaintext"}
+          language={getMonacoLanguage(language)}
           value={value}
           onChange={handleChange}
           onMount={handleEditorMount}
           theme="vs-dark"
           options={{
             readOnly,
+            glyphMargin: !!comments,
             minimap: { enabled: false },
             scrollBeyondLastLine: false,
             fontSize: 14,
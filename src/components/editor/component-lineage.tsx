@@ -0,0 +1,95 @@
+"use client";
+
+import { formatDistanceToNow } from "date-fns";
+import { GitFork } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { UserAvatar, type UserSummary } from "@/components/auth/user-avatar";
+
+interface VersionRef {
+  id: string;
+  version: number;
+}
+
+interface ForkSummary {
+  id: string;
+  title: string;
+  createdAt: Date;
+  createdBy?: UserSummary | null;
+  forkedFromVersion?: VersionRef | null;
+}
+
+interface ComponentLineageProps {
+  forkedFromComponent?: { id: string; title: string; deletedAt: Date | null } | null;
+  forkedFromVersion?: VersionRef | null;
+  forks: ForkSummary[];
+  // Navigation goes through the Playground so unsaved changes can be confirmed first
+  onNavigate: (componentId: string) => void;
+}
+
+// "Forked from X v3" link plus a menu of this component's own forks
+export function ComponentLineage({
+  forkedFromComponent,
+  forkedFromVersion,
+  forks,
+  onNavigate,
+}: ComponentLineageProps) {
+  if (!forkedFromComponent && forks.length === 0) return null;
+
+  return (
+    <div className="hidden lg:flex items-center gap-2 text-xs text-muted-foreground min-w-0">
+      {forkedFromComponent && (
+        <span className="flex items-center gap-1 min-w-0">
+          <GitFork className="h-3 w-3 shrink-0" />
+          <span className="shrink-0">Forked from</span>
+          {forkedFromComponent.deletedAt ? (
+            <span className="truncate line-through" title="The original component was deleted">
+              {forkedFromComponent.title}
+            </span>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onNavigate(forkedFromComponent.id)}
+              className="truncate text-foreground hover:text-primary hover:underline"
+            >
+              {forkedFromComponent.title}
+            </button>
+          )}
+          {forkedFromVersion && <span className="shrink-0">v{forkedFromVersion.version}</span>}
+        </span>
+      )}
+
+      {forks.length > 0 && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 px-1.5 text-xs text-muted-foreground">
+              <GitFork className="h-3 w-3 mr-1" />
+              {forks.length} fork{forks.length === 1 ? "" : "s"}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="w-64">
+            <DropdownMenuLabel className="text-xs">Forks of this component</DropdownMenuLabel>
+            {forks.map((fork) => (
+              <DropdownMenuItem key={fork.id} onClick={() => onNavigate(fork.id)}>
+                <div className="flex items-center gap-2 min-w-0 w-full">
+                  <UserAvatar user={fork.createdBy} className="h-4 w-4 shrink-0" />
+                  <span className="truncate">{fork.title}</span>
+                  <span className="ml-auto shrink-0 text-[11px] text-muted-foreground">
+                    {fork.forkedFromVersion && `v${fork.forkedFromVersion.version} · `}
+                    {formatDistanceToNow(new Date(fork.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  DEFAULT_USAGE_PERIOD,
+  USAGE_EVENT_LABELS,
+  USAGE_EVENT_TYPES,
+  USAGE_PERIODS,
+  getUsageTrend,
+  type UsageEventType,
+  type UsagePeriod,
+} from "@/lib/usage";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+
+interface ComponentUsageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  componentId: string;
+}
+
+// Bar segment colors, stacked bottom to top in USAGE_EVENT_TYPES order
+const USAGE_COLORS: Record<UsageEventType, string> = {
+  view: "bg-muted-foreground/40",
+  copy: "bg-primary",
+  install: "bg-emerald-500",
+};
+
+export function ComponentUsageDialog({ open, onOpenChange, componentId }: ComponentUsageDialogProps) {
+  const [days, setDays] = useState<UsagePeriod>(DEFAULT_USAGE_PERIOD);
+  const { data: usage, isLoading } = trpc.usage.getComponentStats.useQuery(
+    { componentId, days },
+    { enabled: open }
+  );
+
+  const maxDayTotal = Math.max(1, ...(usage?.daily.map((day) => day.view + day.copy + day.install) ?? []));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Usage</DialogTitle>
+          <DialogDescription>
+            Views of this component, copies of its code and copies of its install commands in the Playground.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-1">
+          {USAGE_PERIODS.map((period) => (
+            <Button
+              key={period}
+              variant={days === period ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setDays(period)}
+              aria-pressed={days === period}
+            >
+              {period} days
+            </Button>
+          ))}
+        </div>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading usage...</p>}
+
+        {usage && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              {USAGE_EVENT_TYPES.map((type) => {
+                const trend = getUsageTrend(usage.period[type], usage.previousPeriod[type]);
+                return (
+                  <div key={type} className="rounded-md border p-2 space-y-0.5">
+                    <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                      <span className={cn("h-2 w-2 rounded-full", USAGE_COLORS[type])} />
+                      {USAGE_EVENT_LABELS[type]}
+                    </p>
+                    <p className="text-xl font-semibold">{usage.period[type]}</p>
+                    <p className="text-[11px] text-muted-foreground flex items-center gap-1">
+                      {trend === null ? (
+                        "No earlier data"
+                      ) : (
+                        <span
+                          className={cn(
+                            "flex items-center gap-0.5",
+                            trend > 0 && "text-green-500",
+                            trend < 0 && "text-destructive"
+                          )}
+                        >
+                          {trend >= 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                          {trend > 0 ? "+" : ""}
+                          {trend}%
+                        </span>
+                      )}
+                      <span className="ml-auto">{usage.totals[type]} all time</span>
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-end gap-px h-24 rounded-md border p-2">
+              {usage.daily.map((day) => {
+                const total = day.view + day.copy + day.install;
+                return (
+                  <div
+                    key={day.date}
+                    className="flex-1 flex flex-col-reverse h-full"
+                    title={`${day.date}: ${day.view} views, ${day.copy} copies, ${day.install} installs`}
+                  >
+                    {total === 0 ? (
+                      <div className="h-px bg-border" />
+                    ) : (
+                      USAGE_EVENT_TYPES.map((type) => (
+                        <div
+                          key={type}
+                          className={USAGE_COLORS[type]}
+                          style={{ height: `${(day[type] / maxDayTotal) * 100}%` }}
+                        />
+                      ))
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {usage.uniqueUsers} {usage.uniqueUsers === 1 ? "person" : "people"} in the last {usage.days} days
+              {" · "}
+              {usage.lastUsedAt
+                ? `Last used ${formatDistanceToNow(new Date(usage.lastUsedAt), { addSuffix: true })}`
+                : "Never used"}
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  MANIFEST_FILENAME,
+  createComponentArchive,
+  getArchiveFilename,
+} from "@/lib/component-archive";
+import { downloadFile } from "@/lib/download";
+import { trpc } from "@/lib/trpc";
+
+interface ExportComponentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  componentId: string;
+  // The saved version being viewed; the latest version is exported when missing
+  version?: { id: string; version: number } | null;
+}
+
+export function ExportComponentDialog({
+  open,
+  onOpenChange,
+  componentId,
+  version,
+}: ExportComponentDialogProps) {
+  const [includeHistory, setIncludeHistory] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const archive = await utils.component.exportArchive.fetch({
+        id: componentId,
+        versionId: version?.id,
+        includeHistory,
+      });
+      downloadFile(
+        createComponentArchive(archive),
+        getArchiveFilename(archive.title, archive.version.version),
+        "application/zip"
+      );
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export {version ? `v${version.version}` : "Component"} as zip</DialogTitle>
+          <DialogDescription>
+            The zip contains every file of this version plus a {MANIFEST_FILENAME} manifest with
+            the title, description, framework, status, install command, collections and cover
+            image. Import it from the Add Component dialog.
+          </DialogDescription>
+        </DialogHeader>
+
+        <label className="flex items-center gap-2 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeHistory}
+            onChange={(e) => setIncludeHistory(e.target.checked)}
+            className="h-4 w-4 accent-primary"
+          />
+          Include full version history (archived versions are left out)
+        </label>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            <Download className="h-4 w-4 mr-1" />
+            {isExporting ? "Exporting..." : "Download zip"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { FileArchive, Upload, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { getFrameworkLabel, type Framework } from "@/lib/detect-framework";
+import { readComponentArchive, type ComponentArchive } from "@/lib/component-archive";
+import { trpc } from "@/lib/trpc";
+
+interface ImportComponentArchiveProps {
+  onImported?: (componentId: string) => void;
+}
+
+// Lets AddComponentForm recreate a component from a zip made by "Export as zip"
+export function ImportComponentArchive({ onImported }: ImportComponentArchiveProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<ComponentArchive | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [readError, setReadError] = useState<string | null>(null);
+  const [includeHistory, setIncludeHistory] = useState(true);
+  const utils = trpc.useUtils();
+
+  const importMutation = trpc.component.importArchive.useMutation({
+    onSuccess: ({ component, versionCount, missingCollections }) => {
+      utils.component.list.invalidate();
+      utils.collection.list.invalidate();
+      utils.tag.list.invalidate();
+      toast.success(
+        `Imported "${component.title}" with ${versionCount} version${versionCount === 1 ? "" : "s"}`,
+        missingCollections.length > 0
+          ? { description: `Collections not found here: ${missingCollections.join(", ")}` }
+          : undefined
+      );
+      setArchive(null);
+      onImported?.(component.id);
+    },
+  });
+
+  const handleFile = async (file: File) => {
+    setReadError(null);
+    importMutation.reset();
+    try {
+      setArchive(readComponentArchive(new Uint8Array(await file.arrayBuffer())));
+      setFileName(file.name);
+      setIncludeHistory(true);
+    } catch (error) {
+      setArchive(null);
+      setReadError(error instanceof Error ? error.message : "Could not read the archive");
+    }
+  };
+
+  const historyCount = archive?.history?.length ?? 0;
+
+  return (
+    <div className="rounded-md border border-dashed p-3 space-y-2">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = "";
+        }}
+      />
+
+      {!archive ? (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">Have a component exported from VaultUI?</span>
+          <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import from zip
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <div className="flex items-start gap-2">
+            <FileArchive className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium truncate">{archive.title}</span>
+                <Badge variant="outline" className="text-xs">
+                  {getFrameworkLabel(archive.framework as Framework)}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground truncate">
+                {fileName} · v{archive.version.version} · {archive.version.files.length} file
+                {archive.version.files.length === 1 ? "" : "s"}
+                {archive.collections.length > 0 &&
+                  ` · ${archive.collections.map((c) => c.name).join(", ")}`}
+              </p>
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              onClick={() => setArchive(null)}
+              title="Discard archive"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {historyCount > 0 && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeHistory}
+                onChange={(e) => setIncludeHistory(e.target.checked)}
+                className="h-4 w-4 accent-primary"
+              />
+              Import full version history ({historyCount} versions)
+            </label>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => importMutation.mutate({ archive, includeHistory: historyCount > 0 && includeHistory })}
+              disabled={importMutation.isPending}
+            >
+              {importMutation.isPending ? "Importing..." : "Import Component"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(readError || importMutation.error) && (
+        <p className="text-sm text-destructive">{readError ?? importMutation.error?.message}</p>
+      )}
+    </div>
+  );
+}
@@ -21,9 +21,18 @@ import {
   Info,
   AlertTriangle,
   Play,
+  GitFork,
+  Download,
+  Package,
+  Share2,
+  MessageSquare,
+  ClipboardCheck,
+  BarChart3,
 } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import {
   DropdownMenu,
@@ -40,10 +49,22 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { CodeEditor } from "./code-editor";
+import { CodeEditor, type EditorComment, type EditorLineRange } from "./code-editor";
 import { LivePreview } from "@/components/preview/live-preview";
 import { VersionHistory } from "./version-history";
+import { VersionDiffDialog } from "./version-diff-dialog";
+import { RestoreVersionDialog } from "./restore-version-dialog";
+import { ExportComponentDialog } from "./export-component-dialog";
+import { ShareComponentDialog } from "./share-component-dialog";
+import { ReviewDialog } from "./review-dialog";
+import { ComponentUsageDialog } from "./component-usage-dialog";
 import { ComponentDocumentation } from "./component-documentation";
+import { ComponentLineage } from "./component-lineage";
+import { VersionCommentsPanel, type CommentThread } from "./version-comments-panel";
+import { ComponentTagsEditor } from "@/components/tags/component-tags-editor";
+import { ComponentStatusBadge } from "@/components/grid/component-status-badge";
+import { FavoriteButton } from "@/components/grid/favorite-button";
+import { UserByline, getUserDisplayName } from "@/components/auth/user-avatar";
 import {
   detectFramework,
   detectLanguage,
@@ -54,11 +75,15 @@ import {
 } from "@/lib/detect-framework";
 import { extractComponentName, suggestFilename } from "@/lib/parse-imports";
 import { extractImports } from "@/lib/dependency-registry";
+import { createViteProjectArchive, getViteProjectFilename } from "@/lib/vite-project";
+import { downloadFile } from "@/lib/download";
 import { trpc } from "@/lib/trpc";
 import { cn } from "@/lib/utils";
 import { useWebContainer } from "@/lib/use-webcontainer";
 import { addPackageTypeDefinitions } from "@/lib/monaco-types";
 import { useCrossOriginIsolation } from "@/lib/use-cross-origin-isolation";
+import { usePermissions } from "@/lib/use-permissions";
+import { MAX_VERSION_MESSAGE_LENGTH } from "@/lib/version-labels";
 
 interface TerminalLine {
   type: "stdout" | "stderr" | "info" | "command";
@@ -94,6 +119,7 @@ function generateId() {
 export function Playground({ componentId }: PlaygroundProps) {
   const router = useRouter();
   const utils = trpc.useUtils();
+  const { canWrite, canArchiveVersion, canShare } = usePermissions();
 
   const { data: component, isLoading } = trpc.component.getById.useQuery(
     componentId
@@ -124,6 +150,13 @@ export function Playground({ componentId }: PlaygroundProps) {
   const [previewKey, setPreviewKey] = useState(0);
   const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
   const [isVersionSaveDialogOpen, setIsVersionSaveDialogOpen] = useState(false);
+  const [versionMessage, setVersionMessage] = useState("");
+  const [isCompareDialogOpen, setIsCompareDialogOpen] = useState(false);
+  const [versionToRestore, setVersionToRestore] = useState<{ id: string; version: number } | null>(null);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isReviewDialogOpen, setIsReviewDialogOpen] = useState(false);
+  const [isUsageDialogOpen, setIsUsageDialogOpen] = useState(false);
   const [pendingNavigation, setPendingNavigation] = useState<(() => void) | null>(null);
   const [saveNameInput, setSaveNameInput] = useState("");
   const [editorWidth, setEditorWidth] = useState(50); // Percentage
@@ -172,6 +205,10 @@ export function Playground({ componentId }: PlaygroundProps) {
   const [isTerminalOpen, setIsTerminalOpen] = useState(false);
   const [terminalTab, setTerminalTab] = useState<"terminal" | "console">("terminal");
   const [isDocumentationOpen, setIsDocumentationOpen] = useState(false);
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
+  const [editorSelection, setEditorSelection] = useState<EditorLineRange | null>(null);
+  const [focusedThreadId, setFocusedThreadId] = useState<string | null>(null);
+  const [revealLine, setRevealLine] = useState<{ line: number } | null>(null);
   const [terminalCommand, setTerminalCommand] = useState("");
   const [terminalOutput, setTerminalOutput] = useState<TerminalLine[]>([]);
   const [isRunningCommand, setIsRunningCommand] = useState(false);
@@ -416,64 +453,54 @@ export function Playground({ componentId }: PlaygroundProps) {
     return `npm i ${installPackages.join(" ")}`;
   }, [installPackages]);
 
+  // Refetch the component and load its latest version into the editor
+  const loadLatestVersion = useCallback(async () => {
+    // Invalidate and refetch component to get updated versions list
+    await utils.component.getById.invalidate(componentId);
+    const updatedComponent = await utils.component.getById.fetch(componentId);
+
+    console.log("[Playground Save] Updated component after save:", updatedComponent);
+
+    if (updatedComponent && updatedComponent.versions.length > 0) {
+      // The newly created version is always the latest (versions[0] since ordered desc)
+      const versionToSwitchTo = updatedComponent.versions[0];
+      console.log("[Playground Save] Setting currentVersionId to:", versionToSwitchTo.id);
+      setCurrentVersionId(versionToSwitchTo.id);
+
+      // Update files to match the version we're staying on
+      const versionFiles: FileTab[] = versionToSwitchTo.files.map((f) => ({
+        id: f.id,
+        filename: f.filename,
+        language: f.language as Language,
+        code: f.code,
+      }));
+      setFiles(versionFiles);
+      setOriginalFiles(versionFiles);
+      if (versionFiles.length > 0) {
+        setActiveFileId(versionFiles[0].id);
+      }
+    }
+
+    utils.component.list.invalidate();
+    utils.component.getPreviewFiles.invalidate(componentId);
+    setHasUnsavedChanges(false);
+  }, [componentId, utils]);
+
   const saveMutation = trpc.version.add.useMutation({
     onSuccess: async (newVersion, variables) => {
       console.log("[Playground Save] Save mutation success, new version:", newVersion);
       console.log("[Playground Save] Variables:", variables);
+      await loadLatestVersion();
+    },
+  });
 
-      // Invalidate and refetch component to get updated versions list
-      await utils.component.getById.invalidate(componentId);
-      const updatedComponent = await utils.component.getById.fetch(componentId);
-
-      console.log("[Playground Save] Updated component after save:", updatedComponent);
-
-      if (updatedComponent && updatedComponent.versions.length > 0) {
-        // Check if we need to stay on a specific version number (for replace)
-        // This is stored on the mutation object by handleVersionSaveChoice
-        const stayOnVersionNumber = (saveMutation as any).__stayOnVersionNumber;
-        if (stayOnVersionNumber) {
-          delete (saveMutation as any).__stayOnVersionNumber; // Clean up
-        }
-
-        let versionToSwitchTo;
-        if (stayOnVersionNumber) {
-          // When replacing, the newly created version becomes the latest
-          // But we want to stay on the version at the same position as the one we replaced
-          // After deletion and renumbering, the new version will be at the end (latest)
-          // So we need to find which version is at the position we replaced
-
-          // The newly created version is always the latest (versions[0] since ordered desc)
-          // But we want to find the version that's at the position where we replaced
-          // Since we deleted a version and created a new one, the new one is the latest
-          // So we should use the latest version (the one we just created)
-          versionToSwitchTo = updatedComponent.versions[0]; // Latest version (the newly created one)
-          console.log("[Playground Save] Replacing - using newly created version (latest):", versionToSwitchTo);
-          console.log("[Playground Save] This version is at position where we replaced");
-        } else {
-          // Not replacing, use the newly created version (latest)
-          versionToSwitchTo = updatedComponent.versions[0]; // Latest version
-          console.log("[Playground Save] Using latest version (not replacing):", versionToSwitchTo);
-        }
-
-        console.log("[Playground Save] Setting currentVersionId to:", versionToSwitchTo.id);
-        setCurrentVersionId(versionToSwitchTo.id);
-
-        // Update files to match the version we're staying on
-        const versionFiles: FileTab[] = versionToSwitchTo.files.map((f) => ({
-          id: f.id,
-          filename: f.filename,
-          language: f.language as Language,
-          code: f.code,
-        }));
-        setFiles(versionFiles);
-        setOriginalFiles(versionFiles);
-        if (versionFiles.length > 0) {
-          setActiveFileId(versionFiles[0].id);
-        }
-      }
-
-      utils.component.list.invalidate();
-      setHasUnsavedChanges(false);
+  const restoreMutation = trpc.version.restore.useMutation({
+    onSuccess: async () => {
+      await loadLatestVersion();
+      setVersionToRestore(null);
+    },
+    onError: (error) => {
+      alert(`Failed to restore version: ${error.message || "Unknown error"}`);
     },
   });
 
@@ -491,6 +518,29 @@ export function Playground({ componentId }: PlaygroundProps) {
     },
   });
 
+  // Forks the saved version being viewed; unsaved edits stay in this component
+  const forkMutation = trpc.component.fork.useMutation({
+    onSuccess: (fork) => {
+      utils.component.list.invalidate();
+      utils.component.getById.invalidate(componentId);
+      handleNavigation(() => router.push(`/component/${fork.id}`));
+    },
+    onError: (error) => {
+      alert(`Failed to fork component: ${error.message || "Unknown error"}`);
+    },
+  });
+
+  // Usage analytics (views, code copies, install-command copies)
+  const { mutate: recordUsage } = trpc.usage.record.useMutation({
+    onSuccess: () => utils.usage.getComponentStats.invalidate({ componentId }),
+  });
+
+  // One view per opened component; the server ignores repeat views shortly after
+  const loadedComponentId = component?.id;
+  useEffect(() => {
+    if (loadedComponentId) recordUsage({ componentId: loadedComponentId, type: "view" });
+  }, [loadedComponentId, recordUsage]);
+
   // Initialize state from component data
   useEffect(() => {
     if (component) {
@@ -828,6 +878,43 @@ export function Playground({ componentId }: PlaygroundProps) {
     [activeFileId]
   );
 
+  // Review comments on the version being viewed, shown as markers in the editor
+  const { data: commentThreads } = trpc.comment.list.useQuery(
+    { versionId: currentVersionId ?? "" },
+    { enabled: !!currentVersionId }
+  );
+
+  const editorComments = useMemo<EditorComment[]>(() => {
+    const filename = files.find((f) => f.id === activeFileId)?.filename;
+    return (commentThreads ?? []).flatMap((thread) =>
+      thread.filename === filename && thread.startLine && thread.endLine
+        ? [{
+          id: thread.id,
+          startLine: thread.startLine,
+          endLine: thread.endLine,
+          resolved: !!thread.resolvedAt,
+          summary: `**${getUserDisplayName(thread.createdBy)}:** ${thread.body}`,
+        }]
+        : []
+    );
+  }, [commentThreads, files, activeFileId]);
+
+  const handleCommentClick = useCallback((threadId: string) => {
+    setFocusedThreadId(threadId);
+    setIsCommentsOpen(true);
+  }, []);
+
+  const handleJumpToComment = useCallback(
+    (thread: CommentThread) => {
+      const file = files.find((f) => f.filename === thread.filename);
+      if (!file || !thread.startLine) return;
+      setActiveFileId(file.id);
+      setRevealLine({ line: thread.startLine });
+      setFocusedThreadId(thread.id);
+    },
+    [files]
+  );
+
   // Add new file
   const handleAddFile = useCallback((template: typeof FILE_TEMPLATES[0]) => {
     const existingFile = files.find((f) => f.filename === template.filename);
@@ -964,17 +1051,22 @@ export function Playground({ componentId }: PlaygroundProps) {
       return;
     }
 
+    if (!canWrite) {
+      console.log("[Playground Save] Session role cannot save, returning");
+      return;
+    }
+
     // Show dialog for ALL versions (not just latest) to choose replace or create new
     console.log("[Playground Save] ✅ Opening save dialog for version:", currentVersionId);
     console.log("[Playground Save] Setting isVersionSaveDialogOpen to true");
     setIsVersionSaveDialogOpen(true);
     console.log("[Playground Save] Dialog state set, returning");
-  }, [componentId, files, hasUnsavedChanges, currentVersionId, component]);
+  }, [hasUnsavedChanges, currentVersionId, component, canWrite]);
 
-  const deleteVersionMutation = trpc.version.delete.useMutation({
+  const archiveVersionMutation = trpc.version.archive.useMutation({
     onSuccess: async () => {
-      console.log("[Playground Save] Delete mutation success, invalidating component cache");
-      // Invalidate to refresh component data after deletion
+      console.log("[Playground Save] Archive mutation success, invalidating component cache");
+      // Invalidate to refresh component data after archiving
       await utils.component.getById.invalidate(componentId);
       console.log("[Playground Save] Component cache invalidated");
     },
@@ -986,59 +1078,16 @@ export function Playground({ componentId }: PlaygroundProps) {
     console.log("[Playground Save] replace:", replace);
     console.log("[Playground Save] currentVersionId:", currentVersionId);
 
-    // Store the current version info before deletion (for staying on the same version after replace)
-    const versionToReplace = component?.versions.find(v => v.id === currentVersionId);
-    const versionNumberToStayOn = versionToReplace?.version;
+    const versionToReplace = replace ? currentVersionId : null;
 
     setIsVersionSaveDialogOpen(false);
     console.log("[Playground Save] Dialog closed");
 
-    if (replace && currentVersionId && versionNumberToStayOn) {
-      console.log("[Playground Save] Replacing current version:", currentVersionId);
-      console.log("[Playground Save] Version number to stay on:", versionNumberToStayOn);
-
-      // Replace current version - delete old version first, then create new
-      // After deletion and renumbering, we'll find the version at the same position
-      deleteVersionMutation.mutate(currentVersionId, {
-        onSuccess: async () => {
-          console.log("[Playground Save] Version deleted successfully, creating new version");
-
-          // After deletion, create new version
-          // Store the version number we want to stay on in a ref so saveMutation can access it
-          (saveMutation as any).__stayOnVersionNumber = versionNumberToStayOn;
-
-          saveMutation.mutate({
-            componentId,
-            files: files
-              .filter((f) => f.code.trim())
-              .map((f, index) => ({
-                filename: f.filename,
-                language: f.language,
-                code: f.code,
-                order: index,
-              })),
-          });
-        },
-        onError: (error) => {
-          console.error("[Playground Save] Error deleting version:", error);
-          // Continue anyway - create new version
-          saveMutation.mutate({
-            componentId,
-            files: files
-              .filter((f) => f.code.trim())
-              .map((f, index) => ({
-                filename: f.filename,
-                language: f.language,
-                code: f.code,
-                order: index,
-              })),
-          });
-        },
-      });
-    } else {
-      console.log("[Playground Save] Creating new version (not replacing)");
-      // Create new version
-      saveMutation.mutate({
+    // Version numbers are immutable, so replacing saves a new version and then
+    // archives the one it replaces. Saving first keeps the component from ever
+    // being left without an active version.
+    saveMutation.mutate(
+      {
         componentId,
         files: files
           .filter((f) => f.code.trim())
@@ -1048,20 +1097,31 @@ export function Playground({ componentId }: PlaygroundProps) {
             code: f.code,
             order: index,
           })),
-      });
-    }
+        message: versionMessage.trim() || undefined,
+      },
+      {
+        onSuccess: () => {
+          setVersionMessage("");
+          if (versionToReplace) {
+            console.log("[Playground Save] Archiving replaced version:", versionToReplace);
+            archiveVersionMutation.mutate(versionToReplace);
+          }
+        },
+      }
+    );
     console.log("[Playground Save] ========== handleVersionSaveChoice COMPLETED ==========");
-  }, [componentId, files, saveMutation, currentVersionId, deleteVersionMutation, component]);
+  }, [componentId, files, saveMutation, currentVersionId, archiveVersionMutation, versionMessage]);
 
   // Handle navigation with unsaved changes check
   const handleNavigation = useCallback((navigateFn: () => void) => {
-    if (hasUnsavedChanges) {
+    // Read-only sessions cannot save, so there is nothing to prompt for
+    if (hasUnsavedChanges && canWrite) {
       setPendingNavigation(() => navigateFn);
       setIsSaveDialogOpen(true);
     } else {
       navigateFn();
     }
-  }, [hasUnsavedChanges]);
+  }, [hasUnsavedChanges, canWrite]);
 
   // Handle discard (leave without saving)
   const handleDiscard = useCallback(() => {
@@ -1080,16 +1140,46 @@ export function Playground({ componentId }: PlaygroundProps) {
       .map((f) => `// ${f.filename}\n${f.code}`)
       .join("\n\n");
     await navigator.clipboard.writeText(allCode);
+    recordUsage({ componentId, type: "copy" });
     setIsCopied(true);
     setTimeout(() => setIsCopied(false), 2000);
-  }, [files]);
+  }, [files, componentId, recordUsage]);
 
   const handleCopyDeps = useCallback(async () => {
     if (!installCommand) return;
     await navigator.clipboard.writeText(installCommand);
+    recordUsage({ componentId, type: "install" });
     setIsDepsCopied(true);
     setTimeout(() => setIsDepsCopied(false), 2000);
-  }, [installCommand]);
+  }, [installCommand, componentId, recordUsage]);
+
+  // Export the files as shown in the editor, unsaved edits included
+  const handleExportProject = useCallback(() => {
+    if (!component) return;
+    const version = hasUnsavedChanges ? null : currentVersion?.version;
+    downloadFile(
+      createViteProjectArchive({
+        title: component.title,
+        description: component.description,
+        packageInstallCommand: component.packageInstallCommand,
+        version,
+        files,
+      }),
+      getViteProjectFilename(component.title, version),
+      "application/zip"
+    );
+  }, [component, currentVersion, files, hasUnsavedChanges]);
+
+  // Install command for the shadcn registry route (src/app/r/[name]/route.ts)
+  const handleCopyShadcnCommand = useCallback(async () => {
+    if (!component) return;
+    const query = component.status !== "ready" ? "?experimental=1" : "";
+    await navigator.clipboard.writeText(
+      `npx shadcn@latest add ${window.location.origin}/r/${component.slug}.json${query}`
+    );
+    recordUsage({ componentId: component.id, type: "install" });
+    toast.success("shadcn command copied");
+  }, [component, recordUsage]);
 
   // Handle title update
   const handleTitleUpdate = useCallback(() => {
@@ -1205,13 +1295,16 @@ export function Playground({ componentId }: PlaygroundProps) {
             ) : (
               <button
                 onClick={() => setIsEditingTitle(true)}
-                className="flex items-center gap-1 text-base sm:text-lg font-semibold hover:text-primary transition-colors truncate min-w-0"
+                disabled={!canWrite}
+                className="flex items-center gap-1 text-base sm:text-lg font-semibold hover:text-primary transition-colors truncate min-w-0 disabled:hover:text-foreground"
               >
                 <span className="truncate">{component.title}</span>
-                <Edit2 className="h-3 w-3 opacity-50 shrink-0" />
+                {canWrite && <Edit2 className="h-3 w-3 opacity-50 shrink-0" />}
               </button>
             )}
 
+            <FavoriteButton componentId={componentId} className="shrink-0" />
+
             {/* Badges — hide file-count on very small screens */}
             <div className="flex items-center gap-1.5 shrink-0">
               <Badge
@@ -1221,6 +1314,8 @@ export function Playground({ componentId }: PlaygroundProps) {
                 {getFrameworkLabel(framework)}
               </Badge>
 
+              <ComponentStatusBadge status={component.status} className="inline-flex" />
+
               <Badge variant="outline" className="text-xs hidden sm:inline-flex">
                 {files.length} file{files.length !== 1 ? "s" : ""}
               </Badge>
@@ -1235,6 +1330,31 @@ export function Playground({ componentId }: PlaygroundProps) {
                 </Badge>
               )}
             </div>
+
+            <ComponentTagsEditor
+              componentId={componentId}
+              tags={component.tags}
+              canEdit={canWrite}
+            />
+
+            <ComponentLineage
+              forkedFromComponent={component.forkedFromComponent}
+              forkedFromVersion={component.forkedFromVersion}
+              forks={component.forks}
+              onNavigate={(id) => handleNavigation(() => router.push(`/component/${id}`))}
+            />
+
+            {/* Authorship — only on wide screens, the header is crowded otherwise */}
+            {(component.createdBy || component.updatedBy) && (
+              <div className="hidden xl:flex items-center gap-3 text-xs text-muted-foreground min-w-0">
+                {component.createdBy && (
+                  <UserByline label="Created by" user={component.createdBy} />
+                )}
+                {component.updatedBy && (
+                  <UserByline label="Last edited by" user={component.updatedBy} />
+                )}
+              </div>
+            )}
           </div>
         </div>
 
@@ -1246,6 +1366,8 @@ export function Playground({ componentId }: PlaygroundProps) {
               currentVersionId={currentVersionId ?? ""}
               onVersionChange={handleVersionChange}
               componentId={componentId}
+              onCompare={() => setIsCompareDialogOpen(true)}
+              onRestore={canWrite ? setVersionToRestore : undefined}
             />
           </div>
 
@@ -1265,17 +1387,19 @@ export function Playground({ componentId }: PlaygroundProps) {
               <span className="hidden sm:inline ml-1">Copy</span>
             </Button>
 
-            <Button
-              variant="default"
-              size="sm"
-              className="h-8 px-2 sm:px-3"
-              onClick={handleSave}
-              disabled={!hasUnsavedChanges || saveMutation.isPending}
-              title="Save (Ctrl+S)"
-            >
-              <Save className="h-4 w-4 sm:mr-1" />
-              <span className="hidden sm:inline">{saveMutation.isPending ? "Saving..." : "Save"}</span>
-            </Button>
+            {canWrite && (
+              <Button
+                variant="default"
+                size="sm"
+                className="h-8 px-2 sm:px-3"
+                onClick={handleSave}
+                disabled={!hasUnsavedChanges || saveMutation.isPending}
+                title="Save (Ctrl+S)"
+              >
+                <Save className="h-4 w-4 sm:mr-1" />
+                <span className="hidden sm:inline">{saveMutation.isPending ? "Saving..." : "Save"}</span>
+              </Button>
+            )}
 
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -1291,27 +1415,60 @@ export function Playground({ componentId }: PlaygroundProps) {
                     currentVersionId={currentVersionId ?? ""}
                     onVersionChange={handleVersionChange}
                     componentId={componentId}
+                    onCompare={() => setIsCompareDialogOpen(true)}
+                    onRestore={canWrite ? setVersionToRestore : undefined}
                   />
                 </div>
-                <DropdownMenuItem
-                  onClick={() =>
-                    updateMutation.mutate({
-                      id: componentId,
-                      status:
-                        component.status === "ready" ? "experiment" : "ready",
-                    })
-                  }
-                >
-                  Mark as {component.status === "ready" ? "Experiment" : "Ready"}
+                <DropdownMenuItem onClick={() => setIsExportDialogOpen(true)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export {currentVersion ? `v${currentVersion.version}` : "Component"} as zip
                 </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem
-                  className="text-red-500"
-                  onClick={() => setIsDeleteDialogOpen(true)}
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
+                <DropdownMenuItem onClick={handleExportProject} disabled={files.length === 0}>
+                  <Package className="h-4 w-4 mr-2" />
+                  Export as project
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleCopyShadcnCommand}>
+                  <Terminal className="h-4 w-4 mr-2" />
+                  Copy shadcn add command
                 </DropdownMenuItem>
+                {canShare && (
+                  <DropdownMenuItem onClick={() => setIsShareDialogOpen(true)}>
+                    <Share2 className="h-4 w-4 mr-2" />
+                    Share read-only link
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => setIsUsageDialogOpen(true)}>
+                  <BarChart3 className="h-4 w-4 mr-2" />
+                  Usage
+                </DropdownMenuItem>
+                {canWrite && (
+                  <>
+                    <DropdownMenuItem
+                      onClick={() =>
+                        currentVersionId &&
+                        forkMutation.mutate({ id: componentId, versionId: currentVersionId })
+                      }
+                      disabled={forkMutation.isPending || !currentVersionId}
+                    >
+                      <GitFork className="h-4 w-4 mr-2" />
+                      {forkMutation.isPending
+                        ? "Forking..."
+                        : `Fork ${currentVersion ? `v${currentVersion.version}` : "Component"}`}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setIsReviewDialogOpen(true)}>
+                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                      Review & status
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-red-500"
+                      onClick={() => setIsDeleteDialogOpen(true)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -1403,6 +1560,10 @@ export function Playground({ componentId }: PlaygroundProps) {
                 value={activeFile.code}
                 onChange={handleCodeChange}
                 language={activeFile.language}
+                comments={editorComments}
+                onCommentClick={handleCommentClick}
+                onSelectionChange={setEditorSelection}
+                revealLine={revealLine}
               />
             )}
           </div>
@@ -1719,6 +1880,50 @@ export function Playground({ componentId }: PlaygroundProps) {
               </div>
             )}
           </div>
+
+          {/* Review Comments Panel */}
+          {currentVersionId && (
+            <div className="border-t border-border bg-muted/50">
+              <div className="flex items-center justify-between border-b border-border">
+                <button
+                  onClick={() => setIsCommentsOpen(!isCommentsOpen)}
+                  className="flex items-center gap-2 px-3 py-2 text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  <MessageSquare className="h-3.5 w-3.5" />
+                  <span>Comments</span>
+                  {commentThreads && commentThreads.some((t) => !t.resolvedAt) && (
+                    <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                      {commentThreads.filter((t) => !t.resolvedAt).length}
+                    </Badge>
+                  )}
+                </button>
+                <button
+                  onClick={() => setIsCommentsOpen(!isCommentsOpen)}
+                  className="px-3 py-2 text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  {isCommentsOpen ? (
+                    <ChevronDown className="h-3.5 w-3.5" />
+                  ) : (
+                    <ChevronUp className="h-3.5 w-3.5" />
+                  )}
+                </button>
+              </div>
+
+              {isCommentsOpen && (
+                <div className="h-[360px]">
+                  <VersionCommentsPanel
+                    versionId={currentVersionId}
+                    threads={commentThreads ?? []}
+                    activeFilename={activeFile?.filename}
+                    selection={editorSelection}
+                    canAnchor={!hasUnsavedChanges}
+                    focusedThreadId={focusedThreadId}
+                    onJumpTo={handleJumpToComment}
+                  />
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -1790,6 +1995,14 @@ export function Playground({ componentId }: PlaygroundProps) {
             </DialogDescription>
           </DialogHeader>
           <div className="py-4 space-y-3">
+            <Textarea
+              value={versionMessage}
+              onChange={(e) => setVersionMessage(e.target.value)}
+              placeholder="Describe your changes (optional)"
+              maxLength={MAX_VERSION_MESSAGE_LENGTH}
+              rows={2}
+              className="resize-none"
+            />
             <Button
               variant="outline"
               className="w-full justify-start h-auto py-3 px-4"
@@ -1797,31 +2010,34 @@ export function Playground({ componentId }: PlaygroundProps) {
                 console.log("[Playground Save Dialog] Create New Version button clicked");
                 handleVersionSaveChoice(false);
               }}
-              disabled={saveMutation.isPending || deleteVersionMutation.isPending}
+              disabled={saveMutation.isPending || archiveVersionMutation.isPending}
             >
               <div className="flex flex-col items-start gap-1">
                 <span className="font-semibold">Create New Version</span>
                 <span className="text-xs text-muted-foreground">
-                  Save as v{(component?.versions[0]?.version ?? 0) + 1}. The current version (v{currentVersion?.version}) will remain unchanged.
-                </span>
-              </div>
-            </Button>
-            <Button
-              variant="outline"
-              className="w-full justify-start h-auto py-3 px-4"
-              onClick={() => {
-                console.log("[Playground Save Dialog] Replace Current Version button clicked");
-                handleVersionSaveChoice(true);
-              }}
-              disabled={saveMutation.isPending || deleteVersionMutation.isPending}
-            >
-              <div className="flex flex-col items-start gap-1">
-                <span className="font-semibold">Replace Current Version</span>
-                <span className="text-xs text-muted-foreground">
-                  Update v{currentVersion?.version} with your changes. The old version will be removed.
+                  Save as v{(component?.lastVersionNumber ?? 0) + 1}. The current version (v{currentVersion?.version}) will remain unchanged.
                 </span>
               </div>
             </Button>
+            {/* Replacing archives the old version */}
+            {canArchiveVersion && (
+              <Button
+                variant="outline"
+                className="w-full justify-start h-auto py-3 px-4"
+                onClick={() => {
+                  console.log("[Playground Save Dialog] Replace Current Version button clicked");
+                  handleVersionSaveChoice(true);
+                }}
+                disabled={saveMutation.isPending || archiveVersionMutation.isPending}
+              >
+                <div className="flex flex-col items-start gap-1">
+                  <span className="font-semibold">Replace Current Version</span>
+                  <span className="text-xs text-muted-foreground">
+                    Save your changes as v{(component?.lastVersionNumber ?? 0) + 1} and archive v{currentVersion?.version}.
+                  </span>
+                </div>
+              </Button>
+            )}
           </div>
           <DialogFooter>
             <Button
@@ -1862,6 +2078,57 @@ export function Playground({ componentId }: PlaygroundProps) {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Version Compare Dialog */}
+      <VersionDiffDialog
+        open={isCompareDialogOpen}
+        onOpenChange={setIsCompareDialogOpen}
+        versions={component.versions}
+        currentVersionId={currentVersionId ?? ""}
+        workingFiles={hasUnsavedChanges ? files : undefined}
+      />
+
+      {/* Restore Version Dialog */}
+      <RestoreVersionDialog
+        open={versionToRestore !== null}
+        onOpenChange={(open) => {
+          if (!open) setVersionToRestore(null);
+        }}
+        version={versionToRestore}
+        latestVersion={component.versions[0] ?? null}
+        nextVersionNumber={component.lastVersionNumber + 1}
+        hasUnsavedChanges={hasUnsavedChanges}
+        isPending={restoreMutation.isPending}
+        onConfirm={(versionId) => restoreMutation.mutate({ versionId })}
+      />
+
+      <ExportComponentDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        componentId={componentId}
+        version={currentVersion}
+      />
+
+      <ShareComponentDialog
+        open={isShareDialogOpen}
+        onOpenChange={setIsShareDialogOpen}
+        componentId={componentId}
+        componentTitle={component.title}
+        version={currentVersion}
+      />
+
+      <ReviewDialog
+        open={isReviewDialogOpen}
+        onOpenChange={setIsReviewDialogOpen}
+        componentId={componentId}
+        version={currentVersion}
+      />
+
+      <ComponentUsageDialog
+        open={isUsageDialogOpen}
+        onOpenChange={setIsUsageDialogOpen}
+        componentId={componentId}
+      />
     </div>
   );
 }
@@ -0,0 +1,151 @@
+"use client";
+
+import { FileCode } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import type { FileDiff } from "@/lib/version-diff";
+
+interface VersionRef {
+  id: string;
+  version: number;
+}
+
+interface RestoreVersionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  version: VersionRef | null;
+  latestVersion: VersionRef | null;
+  nextVersionNumber?: number;
+  hasUnsavedChanges?: boolean;
+  isPending?: boolean;
+  onConfirm: (versionId: string) => void;
+}
+
+const LINE_STYLES = {
+  add: "bg-green-500/10 text-green-400",
+  remove: "bg-red-500/10 text-red-400",
+  context: "text-muted-foreground",
+} as const;
+
+const LINE_PREFIX = { add: "+", remove: "-", context: " " } as const;
+
+// Compact unified view of one file's hunks
+function FileDiffPreview({ file }: { file: FileDiff }) {
+  const label =
+    file.status === "renamed"
+      ? `${file.oldFilename} → ${file.newFilename}`
+      : file.newFilename ?? file.oldFilename;
+
+  return (
+    <div className="rounded-md border overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-1.5 bg-muted/50 text-xs">
+        <FileCode className="h-3.5 w-3.5 shrink-0" />
+        <span className="font-mono truncate">{label}</span>
+        <Badge variant="outline" className="text-[10px] px-1 py-0 h-4 capitalize">
+          {file.status}
+        </Badge>
+        <span className="ml-auto text-green-500">+{file.additions}</span>
+        <span className="text-red-500">-{file.deletions}</span>
+      </div>
+      <pre className="text-[11px] leading-4 font-mono overflow-x-auto">
+        {file.hunks.map((hunk, hunkIndex) => (
+          <div key={hunkIndex}>
+            <div className="px-3 py-0.5 text-blue-400/80 bg-blue-500/5">
+              @@ -{hunk.oldStart},{hunk.oldLines} +{hunk.newStart},{hunk.newLines} @@
+            </div>
+            {hunk.lines.map((line, lineIndex) => (
+              <div key={lineIndex} className={cn("px-3 whitespace-pre", LINE_STYLES[line.type])}>
+                {LINE_PREFIX[line.type]} {line.content}
+              </div>
+            ))}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+export function RestoreVersionDialog({
+  open,
+  onOpenChange,
+  version,
+  latestVersion,
+  nextVersionNumber,
+  hasUnsavedChanges = false,
+  isPending = false,
+  onConfirm,
+}: RestoreVersionDialogProps) {
+  // Preview what the new latest version will change relative to the current latest
+  const { data: diff, isLoading } = trpc.version.diff.useQuery(
+    { fromVersionId: latestVersion?.id ?? "", toVersionId: version?.id ?? "" },
+    { enabled: open && !!version && !!latestVersion && version.id !== latestVersion.id }
+  );
+
+  const changedFiles = diff?.files.filter((f) => f.status !== "unchanged") ?? [];
+  const newVersionLabel = nextVersionNumber ? `v${nextVersionNumber}` : "New Version";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Restore v{version?.version}?</DialogTitle>
+          <DialogDescription>
+            The files of v{version?.version} will be copied into a new latest version. Existing
+            versions, including v{latestVersion?.version}, are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasUnsavedChanges && (
+          <p className="text-sm text-yellow-500">
+            You have unsaved changes in the editor. They will be discarded.
+          </p>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : diff && changedFiles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              v{version?.version} has the same files as v{latestVersion?.version}.
+            </p>
+          ) : (
+            diff && (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  Changes compared to v{latestVersion?.version}: {diff.summary.filesChanged} file
+                  {diff.summary.filesChanged === 1 ? "" : "s"} changed
+                  <span className="text-green-500 ml-2">+{diff.summary.additions}</span>
+                  <span className="text-red-500 ml-1">-{diff.summary.deletions}</span>
+                </p>
+                {changedFiles.map((file) => (
+                  <FileDiffPreview key={`${file.oldFilename}:${file.newFilename}`} file={file} />
+                ))}
+              </>
+            )
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => version && onConfirm(version.id)} disabled={!version || isPending}>
+            {isPending ? "Restoring..." : `Restore as ${newVersionLabel}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
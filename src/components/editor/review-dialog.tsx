@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { useSession } from "next-auth/react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Archive, CheckCircle2, RotateCcw, Send, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ComponentStatusBadge } from "@/components/grid/component-status-badge";
+import { UserAvatar, getUserDisplayName } from "@/components/auth/user-avatar";
+import { canTransition, type ReviewDecision } from "@/lib/component-status";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  componentId: string;
+  // The saved version being viewed; offered as the version to submit for review
+  version?: { id: string; version: number } | null;
+}
+
+const DECISION_BADGES: Record<ReviewDecision, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "text-muted-foreground" },
+  approved: { label: "Approved", className: "text-green-500 border-green-500/20" },
+  changes_requested: { label: "Changes requested", className: "text-destructive border-destructive/20" },
+};
+
+export function ReviewDialog({ open, onOpenChange, componentId, version }: ReviewDialogProps) {
+  const utils = trpc.useUtils();
+  const { data: session } = useSession();
+  const [reviewerIds, setReviewerIds] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+
+  const { data: review, isLoading } = trpc.review.get.useQuery({ componentId }, { enabled: open });
+  const { data: reviewers } = trpc.review.listReviewers.useQuery(undefined, { enabled: open });
+
+  const onSuccess = () => {
+    utils.review.get.invalidate({ componentId });
+    utils.component.getById.invalidate(componentId);
+    utils.component.list.invalidate();
+  };
+  const onError = (error: { message: string }) => toast.error(error.message);
+
+  const requestMutation = trpc.review.request.useMutation({
+    onSuccess: () => {
+      onSuccess();
+      setReviewerIds([]);
+      toast.success("Review requested");
+    },
+    onError,
+  });
+
+  const submitMutation = trpc.review.submit.useMutation({
+    onSuccess: () => {
+      onSuccess();
+      setNote("");
+    },
+    onError,
+  });
+
+  const setStatusMutation = trpc.review.setStatus.useMutation({ onSuccess, onError });
+
+  const status = review?.status ?? "experiment";
+  const myReview = review?.reviews.find((r) => r.reviewer.id === session?.user?.id);
+  const canRequestReview = !!version && (status === "in_review" || canTransition(status, "in_review"));
+  const isPending = requestMutation.isPending || submitMutation.isPending || setStatusMutation.isPending;
+
+  const toggleReviewer = (id: string) =>
+    setReviewerIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Review
+            <ComponentStatusBadge status={status} showExperiment />
+          </DialogTitle>
+          <DialogDescription>
+            Components move from experiment to in review to ready, and can be deprecated. Only a
+            version approved by its reviewers can be marked ready.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && <p className="text-sm text-muted-foreground">Loading review...</p>}
+
+        {review?.reviewVersion && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              Reviews of v{review.reviewVersion.version}
+              {review.isApproved && <span className="ml-2 text-xs text-green-500">Approved</span>}
+            </p>
+            {review.reviews.map((r) => {
+              const badge = DECISION_BADGES[r.decision as ReviewDecision] ?? DECISION_BADGES.pending;
+              return (
+                <div key={r.id} className="rounded-md border p-2 text-sm space-y-1">
+                  <div className="flex items-center gap-2">
+                    <UserAvatar user={r.reviewer} />
+                    <span className="truncate">{getUserDisplayName(r.reviewer)}</span>
+                    <Badge variant="outline" className={cn("text-xs ml-auto", badge.className)}>
+                      {badge.label}
+                    </Badge>
+                  </div>
+                  {r.note && <p className="text-xs whitespace-pre-wrap">{r.note}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    {r.decidedAt
+                      ? `Decided ${formatDistanceToNow(new Date(r.decidedAt), { addSuffix: true })}`
+                      : `Requested ${formatDistanceToNow(new Date(r.createdAt), { addSuffix: true })}`}
+                    {r.requestedBy && ` · by ${getUserDisplayName(r.requestedBy)}`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {status === "in_review" && myReview && (
+          <div className="rounded-md border p-3 space-y-2">
+            <p className="text-sm font-medium">Your review</p>
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Optional note for the author"
+              className="min-h-[60px] text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isPending}
+                onClick={() => submitMutation.mutate({ componentId, decision: "changes_requested", note })}
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Request changes
+              </Button>
+              <Button
+                size="sm"
+                disabled={isPending}
+                onClick={() => submitMutation.mutate({ componentId, decision: "approved", note })}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {canRequestReview && version && (
+          <div className="rounded-md border p-3 space-y-2">
+            <p className="text-sm font-medium">Request review of v{version.version}</p>
+            {reviewers?.length === 0 && (
+              <p className="text-xs text-muted-foreground">There are no other developers to ask.</p>
+            )}
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {reviewers?.map((reviewer) => (
+                <label key={reviewer.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={reviewerIds.includes(reviewer.id)}
+                    onChange={() => toggleReviewer(reviewer.id)}
+                    className="h-4 w-4 accent-primary"
+                  />
+                  <UserAvatar user={reviewer} />
+                  <span className="truncate">{getUserDisplayName(reviewer)}</span>
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                disabled={reviewerIds.length === 0 || isPending}
+                onClick={() => requestMutation.mutate({ componentId, versionId: version.id, reviewerIds })}
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Request review
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {canTransition(status, "experiment") && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() => setStatusMutation.mutate({ componentId, status: "experiment" })}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              {status === "in_review" ? "Withdraw from review" : "Back to experiment"}
+            </Button>
+          )}
+          {canTransition(status, "deprecated") && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isPending}
+              onClick={() => setStatusMutation.mutate({ componentId, status: "deprecated" })}
+            >
+              <Archive className="h-4 w-4 mr-1" />
+              Deprecate
+            </Button>
+          )}
+          {canTransition(status, "ready") && (
+            <Button
+              size="sm"
+              disabled={!review?.isApproved || isPending}
+              title={review?.isApproved ? undefined : "Needs an approval and no requested changes"}
+              onClick={() => setStatusMutation.mutate({ componentId, status: "ready" })}
+            >
+              <CheckCircle2 className="h-4 w-4 mr-1" />
+              Mark v{review?.reviewVersion?.version} as ready
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Check, Code2, Copy, Eye, Link2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_SHARE_LINK_EXPIRY_DAYS,
+  SHARE_LINK_EXPIRY_DAYS,
+  getShareLinkStatus,
+  getSharePath,
+  type ShareLinkStatus,
+} from "@/lib/share-links";
+import { getEmbedPath, getEmbedSnippet } from "@/lib/embed";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+
+interface ShareComponentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  componentId: string;
+  componentTitle: string;
+  // The saved version being viewed; offered as the version to pin
+  version?: { id: string; version: number } | null;
+}
+
+const STATUS_CLASSES: Record<ShareLinkStatus, string> = {
+  active: "text-green-500 border-green-500/20",
+  expired: "text-muted-foreground",
+  revoked: "text-destructive border-destructive/20",
+};
+
+function getShareUrl(token: string) {
+  return `${window.location.origin}${getSharePath(token)}`;
+}
+
+export function ShareComponentDialog({
+  open,
+  onOpenChange,
+  componentId,
+  componentTitle,
+  version,
+}: ShareComponentDialogProps) {
+  const utils = trpc.useUtils();
+  const [pinVersion, setPinVersion] = useState(true);
+  const [expiresInDays, setExpiresInDays] = useState<number>(DEFAULT_SHARE_LINK_EXPIRY_DAYS);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const { data: links, isLoading } = trpc.share.list.useQuery({ componentId }, { enabled: open });
+
+  const copyLink = async (link: { id: string; token: string }) => {
+    await navigator.clipboard.writeText(getShareUrl(link.token));
+    setCopiedId(link.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const copyEmbedCode = async (link: { token: string }) => {
+    const url = `${window.location.origin}${getEmbedPath(componentId, link.token)}`;
+    await navigator.clipboard.writeText(getEmbedSnippet(url, componentTitle));
+    toast.success("Embed code copied");
+  };
+
+  const createMutation = trpc.share.create.useMutation({
+    onSuccess: async (link) => {
+      utils.share.list.invalidate({ componentId });
+      await copyLink(link);
+      toast.success("Share link created and copied");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revokeMutation = trpc.share.revoke.useMutation({
+    onSuccess: () => {
+      utils.share.list.invalidate({ componentId });
+      toast.success("Share link revoked");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Share read-only link</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view the preview and code of this component without signing
+            in, until the link expires or is revoked. The same link can embed the preview in
+            external docs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md border p-3 space-y-3 text-sm">
+          {version && (
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="share-version"
+                  checked={pinVersion}
+                  onChange={() => setPinVersion(true)}
+                  className="h-4 w-4 accent-primary"
+                />
+                Pin to v{version.version}
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="share-version"
+                  checked={!pinVersion}
+                  onChange={() => setPinVersion(false)}
+                  className="h-4 w-4 accent-primary"
+                />
+                Follow the latest version
+              </label>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Expires after</span>
+            <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+              <SelectTrigger className="w-32 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_LINK_EXPIRY_DAYS.map((days) => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} {days === 1 ? "day" : "days"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              className="ml-auto"
+              disabled={createMutation.isPending}
+              onClick={() =>
+                createMutation.mutate({
+                  componentId,
+                  versionId: pinVersion ? version?.id : null,
+                  expiresInDays,
+                })
+              }
+            >
+              <Link2 className="h-4 w-4 mr-1" />
+              {createMutation.isPending ? "Creating..." : "Create link"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {isLoading && <p className="text-sm text-muted-foreground">Loading links...</p>}
+          {links?.length === 0 && (
+            <p className="text-sm text-muted-foreground">No share links for this component yet.</p>
+          )}
+          {links?.map((link) => {
+            const status = getShareLinkStatus(link);
+            return (
+              <div key={link.id} className="flex items-center gap-3 rounded-md border p-2 text-sm">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className={cn("text-xs capitalize", STATUS_CLASSES[status])}>
+                      {status}
+                    </Badge>
+                    <Badge variant="secondary" className="text-xs">
+                      {link.version ? `v${link.version.version}` : "Latest"}
+                    </Badge>
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Eye className="h-3 w-3" />
+                      {link.viewCount}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {status === "revoked" && link.revokedAt
+                      ? `Revoked ${formatDistanceToNow(new Date(link.revokedAt), { addSuffix: true })}`
+                      : `${status === "expired" ? "Expired" : "Expires"} ${formatDistanceToNow(new Date(link.expiresAt), { addSuffix: true })}`}
+                    {link.createdBy && ` · by ${link.createdBy.name ?? link.createdBy.email}`}
+                    {link.lastViewedAt &&
+                      ` · last viewed ${formatDistanceToNow(new Date(link.lastViewedAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+                {status === "active" && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => copyLink(link)}
+                      title="Copy link"
+                    >
+                      {copiedId === link.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => copyEmbedCode(link)}
+                      title="Copy embed code"
+                    >
+                      <Code2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      disabled={revokeMutation.isPending}
+                      onClick={() => revokeMutation.mutate({ id: link.id })}
+                    >
+                      Revoke
+                    </Button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
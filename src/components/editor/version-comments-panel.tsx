@@ -0,0 +1,339 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { CheckCircle2, CornerDownRight, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { UserAvatar, getUserDisplayName, type UserSummary } from "@/components/auth/user-avatar";
+import type { EditorLineRange } from "./code-editor";
+import { hasRole } from "@/lib/permissions";
+import { usePermissions } from "@/lib/use-permissions";
+import { cn } from "@/lib/utils";
+import { trpc } from "@/lib/trpc";
+
+interface CommentEntry {
+  id: string;
+  body: string;
+  createdAt: Date;
+  createdById: string | null;
+  createdBy: UserSummary | null;
+}
+
+export interface CommentThread extends CommentEntry {
+  filename: string | null;
+  startLine: number | null;
+  endLine: number | null;
+  resolvedAt: Date | null;
+  resolvedBy: UserSummary | null;
+  // The anchored lines as they were when the thread was written
+  anchorText: string | null;
+  // Set when the thread was written on an earlier version
+  carriedFrom: { id: string; version: number } | null;
+  // A carried thread whose lines could not be found unchanged here; it has no line numbers
+  outdated: boolean;
+  replies: CommentEntry[];
+}
+
+interface VersionCommentsPanelProps {
+  versionId: string;
+  threads: CommentThread[];
+  activeFilename?: string;
+  // Lines selected in the editor; offered as the anchor for a new comment
+  selection: EditorLineRange | null;
+  // Anchors refer to saved code, so they are unavailable while there are unsaved changes
+  canAnchor: boolean;
+  focusedThreadId: string | null;
+  onJumpTo: (thread: CommentThread) => void;
+}
+
+export function formatCommentAnchor(thread: Pick<CommentThread, "filename" | "startLine" | "endLine">) {
+  if (!thread.filename || !thread.startLine) return null;
+  return thread.endLine && thread.endLine !== thread.startLine
+    ? `${thread.filename}:${thread.startLine}-${thread.endLine}`
+    : `${thread.filename}:${thread.startLine}`;
+}
+
+export function VersionCommentsPanel({
+  versionId,
+  threads,
+  activeFilename,
+  selection,
+  canAnchor,
+  focusedThreadId,
+  onJumpTo,
+}: VersionCommentsPanelProps) {
+  const utils = trpc.useUtils();
+  const { data: session } = useSession();
+  const { canWrite } = usePermissions();
+  const [body, setBody] = useState("");
+  const [anchorToSelection, setAnchorToSelection] = useState(true);
+  const [showResolved, setShowResolved] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const threadRefs = useRef(new Map<string, HTMLDivElement>());
+
+  const invalidate = () => utils.comment.list.invalidate({ versionId });
+
+  const createMutation = trpc.comment.create.useMutation({
+    onSuccess: () => {
+      setBody("");
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const replyMutation = trpc.comment.reply.useMutation({
+    onSuccess: () => {
+      setReplyBody("");
+      setReplyingTo(null);
+      invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const setResolvedMutation = trpc.comment.setResolved.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteMutation = trpc.comment.delete.useMutation({
+    onSuccess: invalidate,
+    onError: (error) => toast.error(error.message),
+  });
+
+  const isFocusedResolved = threads.some((t) => t.id === focusedThreadId && t.resolvedAt);
+  const visibleThreads = threads.filter(
+    (t) => showResolved || !t.resolvedAt || (isFocusedResolved && t.id === focusedThreadId)
+  );
+  const resolvedCount = threads.filter((t) => t.resolvedAt).length;
+
+  useEffect(() => {
+    if (focusedThreadId) {
+      threadRefs.current.get(focusedThreadId)?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+    }
+  }, [focusedThreadId]);
+
+  const anchor =
+    canAnchor && selection && activeFilename
+      ? { filename: activeFilename, startLine: selection.startLine, endLine: selection.endLine }
+      : null;
+
+  const canDelete = (entry: CommentEntry) =>
+    canWrite &&
+    !!session?.user &&
+    (entry.createdById === session.user.id || hasRole(session.user.role, "superadmin"));
+
+  const renderEntry = (entry: CommentEntry) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+        <UserAvatar user={entry.createdBy} className="h-4 w-4" />
+        <span className="text-foreground truncate">{getUserDisplayName(entry.createdBy)}</span>
+        <span className="shrink-0">
+          {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+        </span>
+        {canDelete(entry) && (
+          <button
+            type="button"
+            className="ml-auto opacity-0 group-hover/entry:opacity-100 hover:text-destructive transition-opacity"
+            onClick={() => deleteMutation.mutate({ id: entry.id })}
+            title="Delete comment"
+          >
+            <Trash2 className="h-3 w-3" />
+          </button>
+        )}
+      </div>
+      <p className="text-sm whitespace-pre-wrap break-words">{entry.body}</p>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 min-h-0 overflow-y-auto p-3 space-y-2">
+        {visibleThreads.length === 0 && (
+          <p className="text-center py-4 text-muted-foreground text-xs">
+            {threads.length === 0 ? "No comments on this version yet." : "All comments are resolved."}
+          </p>
+        )}
+        {visibleThreads.map((thread) => {
+          const anchorLabel = formatCommentAnchor(thread);
+          return (
+            <div
+              key={thread.id}
+              ref={(el) => {
+                if (el) threadRefs.current.set(thread.id, el);
+                else threadRefs.current.delete(thread.id);
+              }}
+              className={cn(
+                "rounded-md border bg-background p-2 space-y-2",
+                thread.id === focusedThreadId && "border-amber-500/60",
+                thread.resolvedAt && "opacity-70"
+              )}
+            >
+              <div className="flex items-center gap-1.5 flex-wrap">
+                {anchorLabel ? (
+                  <button
+                    type="button"
+                    className="font-mono text-xs text-amber-500 hover:underline"
+                    onClick={() => onJumpTo(thread)}
+                  >
+                    {anchorLabel}
+                  </button>
+                ) : thread.outdated ? (
+                  <span className="font-mono text-xs text-muted-foreground">{thread.filename}</span>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Whole version</span>
+                )}
+                {thread.carriedFrom && (
+                  <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                    from v{thread.carriedFrom.version}
+                  </Badge>
+                )}
+                {thread.outdated && (
+                  <Badge
+                    variant="outline"
+                    className="text-[10px] px-1.5 py-0 text-muted-foreground"
+                    title="The commented lines changed in this version"
+                  >
+                    Outdated
+                  </Badge>
+                )}
+                {thread.resolvedAt && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 text-green-500 border-green-500/20">
+                    Resolved{thread.resolvedBy && ` by ${getUserDisplayName(thread.resolvedBy)}`}
+                  </Badge>
+                )}
+                {canWrite && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto h-6 px-2 text-xs"
+                    disabled={setResolvedMutation.isPending}
+                    onClick={() => setResolvedMutation.mutate({ id: thread.id, resolved: !thread.resolvedAt })}
+                  >
+                    {thread.resolvedAt ? (
+                      <>
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Reopen
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        Resolve
+                      </>
+                    )}
+                  </Button>
+                )}
+              </div>
+
+              {thread.outdated && thread.anchorText !== null && (
+                <pre className="max-h-24 overflow-auto rounded bg-muted/50 px-2 py-1 text-[11px] text-muted-foreground whitespace-pre-wrap break-all">
+                  {thread.anchorText}
+                </pre>
+              )}
+              <div className="group/entry">{renderEntry(thread)}</div>
+              {thread.replies.map((reply) => (
+                <div key={reply.id} className="group/entry flex gap-1.5 pl-2">
+                  <CornerDownRight className="h-3 w-3 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">{renderEntry(reply)}</div>
+                </div>
+              ))}
+
+              {replyingTo === thread.id ? (
+                <div className="space-y-1.5 pl-2">
+                  <Textarea
+                    value={replyBody}
+                    onChange={(e) => setReplyBody(e.target.value)}
+                    placeholder="Reply..."
+                    className="min-h-[60px] text-sm"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-1.5">
+                    <Button variant="ghost" size="sm" className="h-7" onClick={() => setReplyingTo(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      className="h-7"
+                      disabled={!replyBody.trim() || replyMutation.isPending}
+                      onClick={() => replyMutation.mutate({ commentId: thread.id, body: replyBody })}
+                    >
+                      Reply
+                    </Button>
+                  </div>
+                </div>
+              ) : canWrite ? (
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:text-foreground pl-2"
+                  onClick={() => {
+                    setReplyingTo(thread.id);
+                    setReplyBody("");
+                  }}
+                >
+                  Reply
+                </button>
+              ) : null}
+            </div>
+          );
+        })}
+        {resolvedCount > 0 && (
+          <button
+            type="button"
+            className="w-full text-center text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => setShowResolved(!showResolved)}
+          >
+            {showResolved ? "Hide" : "Show"} {resolvedCount} resolved
+          </button>
+        )}
+      </div>
+
+      {canWrite && (
+        <div className="border-t border-border p-3 space-y-2">
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Leave a review comment..."
+            className="min-h-[60px] text-sm"
+          />
+          <div className="flex items-center gap-2">
+            {anchor ? (
+              <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={anchorToSelection}
+                  onChange={(e) => setAnchorToSelection(e.target.checked)}
+                  className="h-3.5 w-3.5 accent-primary"
+                />
+                On <span className="font-mono">{formatCommentAnchor(anchor)}</span>
+              </label>
+            ) : (
+              <span className="text-xs text-muted-foreground">
+                {canAnchor
+                  ? "Select lines in the editor to comment on them"
+                  : "Save your changes to comment on specific lines"}
+              </span>
+            )}
+            <Button
+              size="sm"
+              className="ml-auto h-7"
+              disabled={!body.trim() || createMutation.isPending}
+              onClick={() =>
+                createMutation.mutate({
+                  versionId,
+                  body,
+                  anchor: anchor && anchorToSelection ? anchor : undefined,
+                })
+              }
+            >
+              {createMutation.isPending ? "Posting..." : "Comment"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
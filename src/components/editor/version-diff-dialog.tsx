@@ -0,0 +1,265 @@
+"use client";
+
+import { lazy, Suspense, useMemo, useState } from "react";
+import { ArrowRight, FileCode } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import {
+  diffFiles,
+  summarizeDiff,
+  type DiffableFile,
+  type FileChangeStatus,
+  type FileDiff,
+} from "@/lib/version-diff";
+import { getMonacoLanguage } from "./code-editor";
+
+// Dynamically import the Monaco diff editor to keep it out of the initial bundle
+const DiffEditor = lazy(() =>
+  import("@monaco-editor/react").then((mod) => ({ default: mod.DiffEditor }))
+);
+
+// Select value used for the unsaved editor contents
+const WORKING_COPY = "working-copy";
+
+const STATUS_STYLES: Record<FileChangeStatus, string> = {
+  added: "text-green-500 border-green-500/20",
+  removed: "text-red-500 border-red-500/20",
+  renamed: "text-blue-500 border-blue-500/20",
+  modified: "text-yellow-500 border-yellow-500/20",
+  unchanged: "text-muted-foreground",
+};
+
+interface Version {
+  id: string;
+  version: number;
+  createdAt: Date;
+}
+
+interface VersionDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  versions: Version[];
+  currentVersionId: string;
+  // Unsaved editor contents; when present they can be compared against any version
+  workingFiles?: DiffableFile[];
+}
+
+function getFileKey(file: FileDiff) {
+  return `${file.oldFilename}:${file.newFilename}`;
+}
+
+function getFileLabel(file: FileDiff) {
+  if (file.status === "renamed") {
+    return `${file.oldFilename} → ${file.newFilename}`;
+  }
+  return file.newFilename ?? file.oldFilename ?? "";
+}
+
+export function VersionDiffDialog({
+  open,
+  onOpenChange,
+  versions,
+  currentVersionId,
+  workingFiles,
+}: VersionDiffDialogProps) {
+  // Explicit picks; null means "use the default for this dialog session"
+  const [selection, setSelection] = useState<{ baseId: string; compareId: string } | null>(null);
+  const [selectedFileKey, setSelectedFileKey] = useState<string | null>(null);
+
+  // Default to "what changed since the current version" for unsaved work,
+  // otherwise to the current version against the one before it
+  const defaultSelection = useMemo(() => {
+    if (workingFiles) {
+      return { baseId: currentVersionId, compareId: WORKING_COPY };
+    }
+    const currentIndex = versions.findIndex((v) => v.id === currentVersionId);
+    const previous = versions[currentIndex + 1] ?? versions[currentIndex];
+    return { baseId: previous?.id ?? "", compareId: currentVersionId };
+  }, [versions, currentVersionId, workingFiles]);
+
+  const { baseId, compareId } = selection ?? defaultSelection;
+
+  const updateSelection = (next: Partial<{ baseId: string; compareId: string }>) => {
+    setSelection({ baseId, compareId, ...next });
+    setSelectedFileKey(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setSelection(null);
+      setSelectedFileKey(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const isWorkingCopy = compareId === WORKING_COPY;
+  const isReady = open && !!baseId && !!compareId && baseId !== compareId;
+
+  const { data: versionDiff, isLoading: isDiffLoading, error } = trpc.version.diff.useQuery(
+    { fromVersionId: baseId, toVersionId: compareId },
+    { enabled: isReady && !isWorkingCopy }
+  );
+
+  const { data: baseVersion, isLoading: isBaseLoading } = trpc.version.getById.useQuery(baseId, {
+    enabled: isReady && isWorkingCopy,
+  });
+
+  // The working copy never hits the server, so diff it locally
+  const workingDiff = useMemo(() => {
+    if (!isWorkingCopy || !baseVersion || !workingFiles) return null;
+    const files = diffFiles(baseVersion.files, workingFiles);
+    return { files, summary: summarizeDiff(files) };
+  }, [isWorkingCopy, baseVersion, workingFiles]);
+
+  const diff = isWorkingCopy ? workingDiff : versionDiff;
+  const isLoading = isReady && (isWorkingCopy ? isBaseLoading : isDiffLoading);
+  const changedFiles = useMemo(
+    () => diff?.files.filter((f) => f.status !== "unchanged") ?? [],
+    [diff]
+  );
+  const activeFile =
+    changedFiles.find((f) => getFileKey(f) === selectedFileKey) ?? changedFiles[0];
+
+  const renderVersionItems = (exclude: string) =>
+    versions.map((version, index) => (
+      <SelectItem key={version.id} value={version.id} disabled={version.id === exclude}>
+        v{version.version}
+        {index === 0 && " (latest)"}
+      </SelectItem>
+    ));
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-6xl h-[85vh] flex flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>
+            Review what changed between two versions of this component.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={baseId} onValueChange={(value) => updateSelection({ baseId: value })}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Base version" />
+            </SelectTrigger>
+            <SelectContent>{renderVersionItems(compareId)}</SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select value={compareId} onValueChange={(value) => updateSelection({ compareId: value })}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Compare with" />
+            </SelectTrigger>
+            <SelectContent>
+              {workingFiles && (
+                <SelectItem value={WORKING_COPY}>Working copy (unsaved)</SelectItem>
+              )}
+              {renderVersionItems(baseId)}
+            </SelectContent>
+          </Select>
+          {diff && (
+            <span className="text-xs text-muted-foreground ml-auto">
+              {diff.summary.filesChanged} file{diff.summary.filesChanged === 1 ? "" : "s"} changed
+              <span className="text-green-500 ml-2">+{diff.summary.additions}</span>
+              <span className="text-red-500 ml-1">-{diff.summary.deletions}</span>
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-1 min-h-0 rounded-md border overflow-hidden">
+          {baseId && baseId === compareId ? (
+            <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+              Pick two different versions to compare.
+            </div>
+          ) : error ? (
+            <div className="flex flex-1 items-center justify-center text-sm text-destructive">
+              Failed to load diff: {error.message}
+            </div>
+          ) : isLoading || !diff ? (
+            <div className="flex flex-1 items-center justify-center">
+              <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : changedFiles.length === 0 ? (
+            <div className="flex flex-1 items-center justify-center text-sm text-muted-foreground">
+              No differences between these versions.
+            </div>
+          ) : (
+            <>
+              <div className="w-56 shrink-0 border-r overflow-y-auto">
+                {changedFiles.map((file) => (
+                  <button
+                    key={getFileKey(file)}
+                    type="button"
+                    onClick={() => setSelectedFileKey(getFileKey(file))}
+                    className={cn(
+                      "flex w-full flex-col gap-1 px-3 py-2 text-left text-xs hover:bg-muted/50",
+                      file === activeFile && "bg-muted"
+                    )}
+                  >
+                    <span className="flex items-center gap-1.5 min-w-0">
+                      <FileCode className="h-3.5 w-3.5 shrink-0" />
+                      <span className="truncate font-mono">{getFileLabel(file)}</span>
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <Badge
+                        variant="outline"
+                        className={cn("text-[10px] px-1 py-0 h-4 capitalize", STATUS_STYLES[file.status])}
+                      >
+                        {file.status}
+                      </Badge>
+                      <span className="text-green-500">+{file.additions}</span>
+                      <span className="text-red-500">-{file.deletions}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 min-w-0">
+                {activeFile && (
+                  <Suspense
+                    fallback={
+                      <div className="flex items-center justify-center h-full">
+                        <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+                      </div>
+                    }
+                  >
+                    <DiffEditor
+                      height="100%"
+                      original={activeFile.oldCode}
+                      modified={activeFile.newCode}
+                      language={getMonacoLanguage(activeFile.language)}
+                      theme="vs-dark"
+                      options={{
+                        readOnly: true,
+                        originalEditable: false,
+                        renderSideBySide: true,
+                        minimap: { enabled: false },
+                        scrollBeyondLastLine: false,
+                        fontSize: 13,
+                        automaticLayout: true,
+                      }}
+                    />
+                  </Suspense>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,12 @@
 "use client";
 
 import { formatDistanceToNow } from "date-fns";
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import {
   Select,
   SelectContent,
   SelectItem,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -21,13 +22,30 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Trash2 } from "lucide-react";
+import {
+  Archive,
+  ArchiveRestore,
+  Eye,
+  EyeOff,
+  GitCompare,
+  History,
+  Tag,
+  Trash2,
+} from "lucide-react";
 import { trpc } from "@/lib/trpc";
+import { usePermissions } from "@/lib/use-permissions";
+import { UserAvatar, type UserSummary } from "@/components/auth/user-avatar";
+import { VersionLabelDialog } from "./version-label-dialog";
 
 interface Version {
   id: string;
   version: number;
   createdAt: Date;
+  archivedAt?: Date | null;
+  message?: string | null;
+  labels?: { id: string; name: string }[];
+  restoredFrom?: { id: string; version: number } | null;
+  createdBy?: UserSummary | null;
 }
 
 interface VersionHistoryProps {
@@ -35,6 +53,36 @@ interface VersionHistoryProps {
   currentVersionId: string;
   onVersionChange: (versionId: string) => void;
   componentId: string;
+  onCompare?: () => void;
+  onRestore?: (version: { id: string; version: number }) => void;
+}
+
+function VersionLabels({ labels }: { labels?: Version["labels"] }) {
+  if (!labels?.length) return null;
+  return (
+    <>
+      {labels.map((label) => (
+        <Badge
+          key={label.id}
+          variant="outline"
+          className="text-[10px] shrink-0 px-1 py-0 leading-none h-4 text-blue-500 border-blue-500/30"
+        >
+          {label.name}
+        </Badge>
+      ))}
+    </>
+  );
+}
+
+type VersionAction = { type: "archive" | "purge"; version: Version };
+
+// Version numbers are never reused, so a jump between neighbours means the
+// versions in between were archived (and hidden) or purged
+function getGapLabel(higher: number, lower: number, showingArchived: boolean) {
+  const from = lower + 1;
+  const to = higher - 1;
+  const range = from === to ? `v${from}` : `v${from}–v${to}`;
+  return showingArchived ? `${range} purged` : `${range} archived or purged`;
 }
 
 export function VersionHistory({
@@ -42,214 +90,284 @@ export function VersionHistory({
   currentVersionId,
   onVersionChange,
   componentId,
+  onCompare,
+  onRestore,
 }: VersionHistoryProps) {
-  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
-  const [versionToDelete, setVersionToDelete] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [pendingAction, setPendingAction] = useState<VersionAction | null>(null);
+  const [labelingVersionId, setLabelingVersionId] = useState<string | null>(null);
   const utils = trpc.useUtils();
+  const { canWrite, canArchiveVersion, canPurgeVersion } = usePermissions();
+
+  const { data: allVersions } = trpc.version.list.useQuery(
+    { componentId, includeArchived: true },
+    { enabled: showArchived }
+  );
 
-  const deleteMutation = trpc.version.delete.useMutation({
-    onSuccess: async (data, deletedVersionId) => {
-      console.log("[Version Delete UI] onSuccess callback triggered");
-      console.log("[Version Delete UI] Response data:", data);
-      console.log("[Version Delete UI] Deleted version ID (from mutation):", deletedVersionId);
-      console.log("[Version Delete UI] versionToDelete state:", versionToDelete);
-      
-      // Capture the deleted version ID before resetting state
-      const deletedId = versionToDelete;
-      console.log("[Version Delete UI] Captured deletedId:", deletedId);
-      console.log("[Version Delete UI] Current version ID:", currentVersionId);
-      
-      console.log("[Version Delete UI] Invalidating component cache for componentId:", componentId);
-      // Invalidate queries to refresh the component data (this will get renumbered versions)
-      await utils.component.getById.invalidate(componentId);
-      
-      console.log("[Version Delete UI] Fetching updated component...");
-      // Refetch the component to get updated versions with new numbers
-      const updatedComponent = await utils.component.getById.fetch(componentId);
-      
-      console.log("[Version Delete UI] Updated component received:", updatedComponent);
-      console.log("[Version Delete UI] Updated versions:", updatedComponent?.versions);
-      console.log("[Version Delete UI] Updated versions count:", updatedComponent?.versions.length);
+  const displayedVersions: Version[] = showArchived && allVersions ? allVersions : versions;
+  const labelingVersion = displayedVersions.find((v) => v.id === labelingVersionId) ?? null;
 
-      // Close dialog and reset state
-      console.log("[Version Delete UI] Closing dialog and resetting state");
-      setDeleteDialogOpen(false);
-      setVersionToDelete(null);
+  const refreshVersions = async () => {
+    await Promise.all([
+      utils.component.getById.invalidate(componentId),
+      utils.version.list.invalidate({ componentId }),
+      // Archiving or purging the latest version changes the card preview
+      utils.component.getPreviewFiles.invalidate(componentId),
+    ]);
+    const updatedComponent = await utils.component.getById.fetch(componentId);
 
-      // If we deleted the current version, switch to the latest (which will now be renumbered)
-      if (deletedId === currentVersionId && updatedComponent && updatedComponent.versions.length > 0) {
-        // Versions are ordered by version desc, so first one is latest
-        console.log("[Version Delete UI] Deleted version was current version, switching to latest:", updatedComponent.versions[0]!.id);
+    // Switch to the latest version if the one being viewed is no longer active
+    if (updatedComponent && updatedComponent.versions.length > 0) {
+      const stillActive = updatedComponent.versions.some((v) => v.id === currentVersionId);
+      if (!stillActive) {
         onVersionChange(updatedComponent.versions[0]!.id);
-      } else if (updatedComponent && updatedComponent.versions.length > 0) {
-        // If we didn't delete the current version, make sure we're still on a valid version
-        const stillExists = updatedComponent.versions.find(v => v.id === currentVersionId);
-        console.log("[Version Delete UI] Checking if current version still exists:", stillExists);
-        if (!stillExists && updatedComponent.versions.length > 0) {
-          // Current version was deleted, switch to latest
-          console.log("[Version Delete UI] Current version was deleted, switching to latest");
-          onVersionChange(updatedComponent.versions[0]!.id);
-        }
-      } else {
-        console.log("[Version Delete UI] No version switching needed");
       }
-      
-      console.log("[Version Delete UI] onSuccess callback completed");
+    }
+  };
+
+  const onActionError = (error: { message: string }) => {
+    console.error("[Version History] Action failed:", error);
+    alert(`Failed to update version: ${error.message || "Unknown error"}`);
+  };
+
+  const archiveMutation = trpc.version.archive.useMutation({
+    onSuccess: async () => {
+      await refreshVersions();
+      setPendingAction(null);
     },
-    onError: (error) => {
-      console.error("[Version Delete UI] onError callback triggered");
-      console.error("[Version Delete UI] Error object:", error);
-      console.error("[Version Delete UI] Error message:", error.message);
-      console.error("[Version Delete UI] Error data:", error.data);
-      console.error("[Version Delete UI] Error shape:", error.shape);
-      console.error("[Version Delete UI] Full error:", JSON.stringify(error, null, 2));
-      alert(`Failed to delete version: ${error.message || "Unknown error"}`);
+    onError: onActionError,
+  });
+
+  const unarchiveMutation = trpc.version.unarchive.useMutation({
+    onSuccess: refreshVersions,
+    onError: onActionError,
+  });
+
+  const purgeMutation = trpc.version.purge.useMutation({
+    onSuccess: async () => {
+      await refreshVersions();
+      setPendingAction(null);
     },
+    onError: onActionError,
   });
 
   const currentVersion = versions.find((v) => v.id === currentVersionId);
   const isLatest = currentVersion?.version === versions[0]?.version;
-  const canDelete = versions.length > 1; // Can't delete if it's the only version
+  const canArchive = canArchiveVersion && versions.length > 1; // Can't archive the only active version
 
-  const handleDeleteClick = (e: React.MouseEvent | React.PointerEvent | MouseEvent, versionId: string) => {
-    console.log("[Version Delete UI] ========== handleDeleteClick CALLED ==========");
-    console.log("[Version Delete UI] versionId:", versionId);
-    console.log("[Version Delete UI] Event type:", e.type);
-    console.log("[Version Delete UI] Event target:", e.target);
-    
-    if ('stopPropagation' in e) {
-      e.stopPropagation();
-    }
-    if ('preventDefault' in e) {
-      e.preventDefault();
-    }
-    
-    console.log("[Version Delete UI] Setting versionToDelete to:", versionId);
-    setVersionToDelete(versionId);
-    
-    console.log("[Version Delete UI] Opening delete dialog");
-    setDeleteDialogOpen(true);
-    
-    console.log("[Version Delete UI] ========== handleDeleteClick COMPLETED ==========");
+  // Buttons inside a SelectItem must not select the item
+  const stopSelect = (e: React.SyntheticEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
   };
 
-  const handleDeleteConfirm = () => {
-    console.log("[Version Delete UI] handleDeleteConfirm called");
-    console.log("[Version Delete UI] versionToDelete state:", versionToDelete);
-    
-    if (!versionToDelete) {
-      console.error("[Version Delete UI] No version to delete!");
-      return;
+  const handleActionConfirm = () => {
+    if (!pendingAction) return;
+    if (pendingAction.type === "archive") {
+      archiveMutation.mutate(pendingAction.version.id);
+    } else {
+      purgeMutation.mutate(pendingAction.version.id);
     }
-    
-    console.log("[Version Delete UI] Calling deleteMutation.mutate with:", versionToDelete);
-    console.log("[Version Delete UI] deleteMutation state:", {
-      isPending: deleteMutation.isPending,
-      isError: deleteMutation.isError,
-      isSuccess: deleteMutation.isSuccess,
-    });
-    
-    deleteMutation.mutate(versionToDelete, {
-      onError: (error) => {
-        console.error("[Version Delete UI] Delete mutation error:", error);
-        console.error("[Version Delete UI] Error details:", {
-          message: error.message,
-          data: error.data,
-          shape: error.shape,
-        });
-        alert(`Failed to delete version: ${error.message || "Unknown error"}`);
-      },
-      onSuccess: (data, variables) => {
-        console.log("[Version Delete UI] Delete mutation onSuccess callback (inline):", { data, variables });
-      },
-    });
-    
-    console.log("[Version Delete UI] Mutation call completed");
   };
 
-  const versionToDeleteData = versionToDelete
-    ? versions.find(v => v.id === versionToDelete)
-    : null;
+  const isActionPending = archiveMutation.isPending || purgeMutation.isPending;
 
   return (
     <>
       <div className="flex items-center gap-2">
         <Select value={currentVersionId} onValueChange={onVersionChange}>
-          <SelectTrigger className="w-[180px]">
+          {/* Messages only show in the dropdown, not in the trigger */}
+          <SelectTrigger className="w-[180px] [&_[data-version-message]]:hidden">
             <SelectValue placeholder="Select version" />
           </SelectTrigger>
-          <SelectContent className="w-[220px]">
-            {versions.map((version, index) => (
-              <SelectItem 
-                key={version.id} 
-                value={version.id} 
-                className="py-2 px-2 cursor-pointer group"
-                onSelect={(e) => {
-                  console.log("[Version Delete UI] SelectItem onSelect triggered for version:", version.id);
-                  console.log("[Version Delete UI] Event target:", e.target);
-                  // Prevent selection when clicking delete button
-                  const target = e.target as HTMLElement;
-                  const isDeleteButton = target.closest('button[title="Delete version"]') || 
-                                        target.closest('button')?.querySelector('svg');
-                  if (isDeleteButton) {
-                    console.log("[Version Delete UI] Preventing SelectItem selection (delete button clicked)");
-                    e.preventDefault();
-                    return;
-                  }
-                }}
-                onPointerDown={(e) => {
-                  // Prevent SelectItem from handling pointer events on delete button
-                  const target = e.target as HTMLElement;
-                  if (target.closest('button[title="Delete version"]')) {
-                    console.log("[Version Delete UI] SelectItem onPointerDown - delete button detected, stopping propagation");
-                    e.stopPropagation();
-                  }
-                }}
-              >
-                <div className="flex items-center w-full gap-2">
-                  <span className="font-semibold text-sm shrink-0">v{version.version}</span>
-                  {index === 0 && (
-                    <Badge variant="secondary" className="text-[10px] shrink-0 px-1 py-0 leading-none h-4">
-                      Latest
-                    </Badge>
+          <SelectContent className="w-[280px]">
+            {displayedVersions.map((version, index) => {
+              const higher = displayedVersions[index - 1];
+              const hasGap = higher && higher.version - version.version > 1;
+
+              return (
+                <Fragment key={version.id}>
+                  {hasGap && (
+                    <div className="px-2 py-1 text-[10px] text-muted-foreground/70 italic border-l-2 border-dashed border-muted ml-3">
+                      {getGapLabel(higher.version, version.version, showArchived)}
+                    </div>
                   )}
-                  <span className="text-[11px] text-muted-foreground truncate opacity-70">
-                    {formatDistanceToNow(new Date(version.createdAt), {
-                      addSuffix: true,
-                    })}
-                  </span>
-                  {canDelete && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      type="button"
-                      className="h-6 w-6 p-0 shrink-0 ml-auto hover:bg-destructive/10 hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
-                      onMouseDown={(e) => {
-                        console.log("[Version Delete UI] Delete button onMouseDown triggered for version:", version.id);
-                        e.stopPropagation();
-                        e.preventDefault();
-                        // Directly set state to avoid event propagation issues
-                        console.log("[Version Delete UI] Setting versionToDelete directly to:", version.id);
-                        setVersionToDelete(version.id);
-                        console.log("[Version Delete UI] Opening delete dialog directly");
-                        setDeleteDialogOpen(true);
-                      }}
-                      onClick={(e) => {
-                        console.log("[Version Delete UI] Delete button onClick triggered for version:", version.id);
-                        e.stopPropagation();
-                        e.preventDefault();
-                        handleDeleteClick(e, version.id);
+                  {version.archivedAt ? (
+                    <div className="flex items-center w-full gap-2 py-2 px-2 text-sm opacity-60">
+                      <span className="font-semibold text-sm shrink-0 line-through">v{version.version}</span>
+                      <Badge variant="outline" className="text-[10px] shrink-0 px-1 py-0 leading-none h-4">
+                        Archived
+                      </Badge>
+                      <VersionLabels labels={version.labels} />
+                      <span className="text-[11px] text-muted-foreground truncate">
+                        {formatDistanceToNow(new Date(version.archivedAt), {
+                          addSuffix: true,
+                        })}
+                      </span>
+                      <div className="flex items-center gap-0.5 ml-auto shrink-0">
+                        {onRestore && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            type="button"
+                            className="h-6 w-6 p-0"
+                            onClick={() => onRestore(version)}
+                            title="Restore this version"
+                          >
+                            <History className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        {canArchiveVersion && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            type="button"
+                            className="h-6 w-6 p-0"
+                            onClick={() => unarchiveMutation.mutate(version.id)}
+                            disabled={unarchiveMutation.isPending}
+                            title="Unarchive version"
+                          >
+                            <ArchiveRestore className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        {canPurgeVersion && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            type="button"
+                            className="h-6 w-6 p-0 hover:bg-destructive/10 hover:text-destructive"
+                            onClick={() => setPendingAction({ type: "purge", version })}
+                            title="Purge version"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ) : (
+                    <SelectItem
+                      value={version.id}
+                      className="py-2 px-2 cursor-pointer group"
+                      onPointerDown={(e) => {
+                        // Prevent SelectItem from handling pointer events on action buttons
+                        const target = e.target as HTMLElement;
+                        if (target.closest("button[data-version-action]")) {
+                          e.stopPropagation();
+                        }
                       }}
-                      title="Delete version"
                     >
-                      <Trash2 className="h-3.5 w-3.5" />
-                    </Button>
+                      <div className="flex flex-col w-full min-w-0 gap-0.5">
+                        <div className="flex items-center w-full gap-2">
+                          <span className="font-semibold text-sm shrink-0">v{version.version}</span>
+                          {version.id === versions[0]?.id && (
+                            <Badge variant="secondary" className="text-[10px] shrink-0 px-1 py-0 leading-none h-4">
+                              Latest
+                            </Badge>
+                          )}
+                          <VersionLabels labels={version.labels} />
+                          <span className="text-[11px] text-muted-foreground truncate opacity-70">
+                            {formatDistanceToNow(new Date(version.createdAt), {
+                              addSuffix: true,
+                            })}
+                          </span>
+                          {version.createdBy && (
+                            <UserAvatar user={version.createdBy} className="h-4 w-4 shrink-0" />
+                          )}
+                          <span className="ml-auto" />
+                          {onRestore && version.id !== versions[0]?.id && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              type="button"
+                              data-version-action
+                              className="h-6 w-6 p-0 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                              onMouseDown={stopSelect}
+                              onClick={(e) => {
+                                stopSelect(e);
+                                onRestore(version);
+                              }}
+                              title="Restore this version"
+                            >
+                              <History className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                          {canWrite && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              type="button"
+                              data-version-action
+                              className="h-6 w-6 p-0 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity"
+                              onMouseDown={stopSelect}
+                              onClick={(e) => {
+                                stopSelect(e);
+                                setLabelingVersionId(version.id);
+                              }}
+                              title="Edit labels"
+                            >
+                              <Tag className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                          {canArchive && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              type="button"
+                              data-version-action
+                              className="h-6 w-6 p-0 shrink-0 hover:bg-destructive/10 hover:text-destructive opacity-0 group-hover:opacity-100 transition-opacity"
+                              onMouseDown={stopSelect}
+                              onClick={(e) => {
+                                stopSelect(e);
+                                setPendingAction({ type: "archive", version });
+                              }}
+                              title="Archive version"
+                            >
+                              <Archive className="h-3.5 w-3.5" />
+                            </Button>
+                          )}
+                        </div>
+                        {version.restoredFrom && !version.message && (
+                          <span data-version-message className="text-[11px] text-muted-foreground">
+                            Restored from v{version.restoredFrom.version}
+                          </span>
+                        )}
+                        {version.message && (
+                          <span
+                            data-version-message
+                            className="text-[11px] text-muted-foreground truncate"
+                            title={version.message}
+                          >
+                            {version.message}
+                          </span>
+                        )}
+                      </div>
+                    </SelectItem>
                   )}
-                </div>
-              </SelectItem>
-            ))}
+                </Fragment>
+              );
+            })}
+            <SelectSeparator />
+            <button
+              type="button"
+              className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-xs text-muted-foreground hover:bg-accent hover:text-accent-foreground"
+              onClick={() => setShowArchived((show) => !show)}
+            >
+              {showArchived ? <EyeOff className="h-3.5 w-3.5" /> : <Eye className="h-3.5 w-3.5" />}
+              {showArchived ? "Hide archived versions" : "Show archived versions"}
+            </button>
           </SelectContent>
         </Select>
+        {onCompare && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={onCompare}
+            title="Compare versions"
+          >
+            <GitCompare className="h-4 w-4" />
+          </Button>
+        )}
         {!isLatest && (
           <Badge variant="outline" className="text-xs text-yellow-500 border-yellow-500/20">
             Viewing old version
@@ -257,50 +375,68 @@ export function VersionHistory({
         )}
       </div>
 
-      <AlertDialog 
-        open={deleteDialogOpen} 
+      <AlertDialog
+        open={pendingAction !== null}
         onOpenChange={(open) => {
-          console.log("[Version Delete UI] AlertDialog onOpenChange:", open);
-          setDeleteDialogOpen(open);
           if (!open) {
-            console.log("[Version Delete UI] Dialog closed, resetting versionToDelete");
-            setVersionToDelete(null);
+            setPendingAction(null);
           }
         }}
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Version?</AlertDialogTitle>
+            <AlertDialogTitle>
+              {pendingAction?.type === "purge" ? "Permanently Delete Version?" : "Archive Version?"}
+            </AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete version {versionToDeleteData?.version}? This action cannot be undone.
-              {versionToDelete === currentVersionId && (
+              {pendingAction?.type === "purge" ? (
+                <>
+                  Version {pendingAction.version.version} and its files will be permanently deleted.
+                  Other versions keep their numbers. This action cannot be undone.
+                </>
+              ) : (
+                <>
+                  Version {pendingAction?.version.version} will be hidden from the version history.
+                  Its number is kept and it can be unarchived later.
+                </>
+              )}
+              {pendingAction?.version.id === currentVersionId && (
                 <span className="block mt-2 text-yellow-500">
-                  You are currently viewing this version. You will be switched to the latest version after deletion.
+                  You are currently viewing this version. You will be switched to the latest version.
                 </span>
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
-            <AlertDialogCancel
-              onClick={() => {
-                console.log("[Version Delete UI] Cancel button clicked");
-              }}
-            >
-              Cancel
-            </AlertDialogCancel>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => {
-                console.log("[Version Delete UI] Delete button in dialog clicked");
-                handleDeleteConfirm();
+              onClick={(e) => {
+                // Keep the dialog open until the mutation settles
+                e.preventDefault();
+                handleActionConfirm();
               }}
-              disabled={deleteMutation.isPending}
+              disabled={isActionPending}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              {pendingAction?.type === "purge"
+                ? purgeMutation.isPending ? "Deleting..." : "Delete Permanently"
+                : archiveMutation.isPending ? "Archiving..." : "Archive"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <VersionLabelDialog
+        open={labelingVersion !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setLabelingVersionId(null);
+          }
+        }}
+        componentId={componentId}
+        version={labelingVersion}
+        versions={displayedVersions}
+      />
     </>
   );
 }
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { normalizeLabelName, validateLabelName } from "@/lib/version-labels";
+
+interface VersionLabel {
+  id: string;
+  name: string;
+}
+
+interface LabeledVersion {
+  id: string;
+  version: number;
+  labels?: VersionLabel[];
+}
+
+interface VersionLabelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  componentId: string;
+  version: LabeledVersion | null;
+  // Every version of the component we know about, used to suggest and move labels
+  versions: LabeledVersion[];
+}
+
+export function VersionLabelDialog({
+  open,
+  onOpenChange,
+  componentId,
+  version,
+  versions,
+}: VersionLabelDialogProps) {
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const utils = trpc.useUtils();
+
+  const refresh = async () => {
+    await Promise.all([
+      utils.component.getById.invalidate(componentId),
+      utils.version.list.invalidate({ componentId }),
+    ]);
+  };
+
+  const setLabelMutation = trpc.version.setLabel.useMutation({
+    onSuccess: async () => {
+      await refresh();
+      setName("");
+    },
+    onError: (err) => setError(err.message),
+  });
+
+  const removeLabelMutation = trpc.version.removeLabel.useMutation({
+    onSuccess: refresh,
+    onError: (err) => setError(err.message),
+  });
+
+  const normalized = normalizeLabelName(name);
+  const labelOwner = versions.find(
+    (v) => v.id !== version?.id && v.labels?.some((l) => l.name === normalized)
+  );
+  const suggestions = Array.from(
+    new Set(versions.flatMap((v) => v.labels?.map((l) => l.name) ?? []))
+  ).filter((label) => !version?.labels?.some((l) => l.name === label));
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!version) return;
+
+    const validationError = validateLabelName(name);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setError(null);
+    setLabelMutation.mutate({ versionId: version.id, name: normalized });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        if (!nextOpen) {
+          setName("");
+          setError(null);
+        }
+        onOpenChange(nextOpen);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Labels for v{version?.version}</DialogTitle>
+          <DialogDescription>
+            Labels such as &quot;stable&quot; or &quot;1.2.0&quot; are unique per component.
+            Adding a label that is already in use moves it to this version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-1.5 min-h-6">
+          {version?.labels?.length ? (
+            version.labels.map((label) => (
+              <Badge key={label.id} variant="secondary" className="gap-1 pr-1">
+                <Tag className="h-3 w-3" />
+                {label.name}
+                <button
+                  type="button"
+                  className="rounded-sm opacity-70 hover:opacity-100"
+                  onClick={() => removeLabelMutation.mutate(label.id)}
+                  disabled={removeLabelMutation.isPending}
+                  title={`Remove ${label.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))
+          ) : (
+            <span className="text-sm text-muted-foreground">No labels yet.</span>
+          )}
+        </div>
+
+        <form onSubmit={handleAdd} className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              placeholder="e.g. stable, beta, 1.2.0"
+              list="version-label-suggestions"
+              autoFocus
+            />
+            <datalist id="version-label-suggestions">
+              {suggestions.map((label) => (
+                <option key={label} value={label} />
+              ))}
+            </datalist>
+            <Button type="submit" disabled={!normalized || setLabelMutation.isPending}>
+              {labelOwner ? "Move" : "Add"}
+            </Button>
+          </div>
+          {error ? (
+            <p className="text-xs text-destructive">{error}</p>
+          ) : (
+            labelOwner && (
+              <p className="text-xs text-yellow-500">
+                &quot;{normalized}&quot; is currently on v{labelOwner.version} and will be moved.
+              </p>
+            )
+          )}
+        </form>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
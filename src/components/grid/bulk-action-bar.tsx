@@ -0,0 +1,320 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  CheckSquare,
+  CircleDot,
+  FolderMinus,
+  FolderPlus,
+  Loader2,
+  Tag,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { TagInput } from "@/components/tags/tag-input";
+import { trpc } from "@/lib/trpc";
+
+// Statuses that can be set in bulk; reviews are requested per component
+const STATUS_OPTIONS = [
+  { value: "experiment", label: "Experiment" },
+  { value: "deprecated", label: "Deprecated" },
+] as const;
+
+interface BulkActionBarProps {
+  selectedIds: Set<string>;
+  onSelectionChange: (ids: Set<string>) => void;
+  onSelectAllMatching: () => void;
+  isSelectingAll?: boolean;
+}
+
+interface BulkResult {
+  summary: string;
+  failed: { id: string; title: string | null; reason: string }[];
+}
+
+function plural(count: number) {
+  return `${count} component${count === 1 ? "" : "s"}`;
+}
+
+// Floating toolbar for the components selected in the grid or list view
+export function BulkActionBar({
+  selectedIds,
+  onSelectionChange,
+  onSelectAllMatching,
+  isSelectingAll = false,
+}: BulkActionBarProps) {
+  const utils = trpc.useUtils();
+  const [isTagsDialogOpen, setIsTagsDialogOpen] = useState(false);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [result, setResult] = useState<BulkResult | null>(null);
+  const { data: collections = [] } = trpc.collection.list.useQuery();
+
+  const bulkMutation = trpc.component.bulkUpdate.useMutation({
+    onSuccess: ({ succeeded, failed }, { action }) => {
+      utils.component.list.invalidate();
+      utils.component.listIds.invalidate();
+      utils.component.getById.invalidate();
+      utils.collection.list.invalidate();
+      if (action.type === "editTags") utils.tag.list.invalidate();
+      if (action.type === "softDelete") {
+        utils.component.listDeleted.invalidate();
+        // Deleted components drop out of the grid, so drop them from the selection too
+        const remaining = new Set(selectedIds);
+        succeeded.forEach((id) => remaining.delete(id));
+        onSelectionChange(remaining);
+      }
+
+      setIsTagsDialogOpen(false);
+      setIsDeleteDialogOpen(false);
+
+      const summary =
+        action.type === "softDelete"
+          ? `Moved ${plural(succeeded.length)} to the trash`
+          : `Updated ${plural(succeeded.length)}`;
+      if (failed.length === 0) toast.success(summary);
+      else setResult({ summary, failed });
+    },
+    onError: (error) => toast.error(error.message || "Bulk update failed"),
+  });
+
+  const count = selectedIds.size;
+  if (count === 0) return null;
+
+  const run = (action: Parameters<typeof bulkMutation.mutate>[0]["action"]) => {
+    bulkMutation.mutate({ ids: Array.from(selectedIds), action });
+  };
+
+  const collectionItems = (onSelect: (collectionId: string) => void) =>
+    collections.length === 0 ? (
+      <div className="px-2 py-1.5 text-sm text-muted-foreground">No collections yet</div>
+    ) : (
+      collections.map((collection) => (
+        <DropdownMenuItem key={collection.id} onClick={() => onSelect(collection.id)}>
+          {collection.name}
+        </DropdownMenuItem>
+      ))
+    );
+
+  return (
+    <>
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 rounded-lg border bg-background/95 backdrop-blur-sm shadow-lg px-3 py-2 text-sm">
+        <span className="font-medium pr-1">{count} selected</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onSelectAllMatching}
+          disabled={isSelectingAll}
+          title="Select every component matching the current filters"
+        >
+          {isSelectingAll ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <CheckSquare className="h-4 w-4 mr-1" />
+          )}
+          Select all matching
+        </Button>
+
+        <div className="w-px h-5 bg-border mx-1" />
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={bulkMutation.isPending}>
+              <FolderPlus className="h-4 w-4 mr-1" />
+              Collection
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center" side="top">
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <FolderPlus className="h-4 w-4" />
+                <span>Add to</span>
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {collectionItems((collectionId) => run({ type: "addToCollection", collectionId }))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <FolderMinus className="h-4 w-4" />
+                <span>Remove from</span>
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {collectionItems((collectionId) =>
+                  run({ type: "removeFromCollection", collectionId })
+                )}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={bulkMutation.isPending}>
+              <CircleDot className="h-4 w-4 mr-1" />
+              Status
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center" side="top">
+            {STATUS_OPTIONS.map((option) => (
+              <DropdownMenuItem
+                key={option.value}
+                onClick={() => run({ type: "setStatus", status: option.value })}
+              >
+                {option.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={bulkMutation.isPending}
+          onClick={() => {
+            setTagsToAdd([]);
+            setTagsToRemove([]);
+            setIsTagsDialogOpen(true);
+          }}
+        >
+          <Tag className="h-4 w-4 mr-1" />
+          Tags
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-destructive hover:text-destructive"
+          disabled={bulkMutation.isPending}
+          onClick={() => setIsDeleteDialogOpen(true)}
+        >
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+
+        <div className="w-px h-5 bg-border mx-1" />
+
+        {bulkMutation.isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onSelectionChange(new Set())}
+          title="Clear selection"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={isTagsDialogOpen} onOpenChange={setIsTagsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit tags on {plural(count)}</DialogTitle>
+            <DialogDescription>
+              Other tags on these components are left as they are.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bulk-add-tags">Add tags</Label>
+              <TagInput id="bulk-add-tags" value={tagsToAdd} onChange={setTagsToAdd} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bulk-remove-tags">Remove tags</Label>
+              <TagInput id="bulk-remove-tags" value={tagsToRemove} onChange={setTagsToRemove} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsTagsDialogOpen(false)} disabled={bulkMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => run({ type: "editTags", add: tagsToAdd, remove: tagsToRemove })}
+              disabled={bulkMutation.isPending || (tagsToAdd.length === 0 && tagsToRemove.length === 0)}
+            >
+              {bulkMutation.isPending ? "Saving..." : "Apply"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {plural(count)}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The components are moved to the trash and can be restored from there until they are
+              purged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                run({ type: "softDelete" });
+              }}
+              disabled={bulkMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {bulkMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={result !== null} onOpenChange={(open) => !open && setResult(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{result?.summary}</DialogTitle>
+            <DialogDescription>
+              {result && `${plural(result.failed.length)} could not be changed:`}
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-64 overflow-y-auto divide-y text-sm">
+            {result?.failed.map((failure) => (
+              <li key={failure.id} className="flex justify-between gap-4 py-2">
+                <span className="truncate font-medium">{failure.title ?? failure.id}</span>
+                <span className="text-muted-foreground shrink-0">{failure.reason}</span>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button onClick={() => setResult(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
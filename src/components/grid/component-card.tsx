@@ -4,6 +4,7 @@ import Link from "next/link";
 import { formatDistanceToNow } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { ComponentStatusBadge } from "./component-status-badge";
 import { StaticThumbnail } from "@/components/preview/static-thumbnail";
 import {
   getFrameworkLabel,
@@ -49,14 +50,7 @@ export function ComponentCard({
             <h3 className="font-medium text-sm truncate group-hover:text-primary transition-colors">
               {title}
             </h3>
-            {status === "ready" && (
-              <Badge
-                variant="outline"
-                className="text-xs bg-green-500/10 text-green-500 border-green-500/20"
-              >
-                Ready
-              </Badge>
-            )}
+            <ComponentStatusBadge status={status} />
           </div>
 
           <div className="flex items-center justify-between gap-2">
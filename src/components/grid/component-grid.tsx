@@ -3,12 +3,8 @@
 import { HoverableCard } from "./hoverable-card";
 import { HoverPreviewProvider } from "@/components/preview/hover-preview-manager";
 import { cn } from "@/lib/utils";
-
-interface FileData {
-  filename: string;
-  language: string;
-  code: string;
-}
+import { useInfiniteScroll } from "@/lib/use-infinite-scroll";
+import type { UserSummary } from "@/components/auth/user-avatar";
 
 interface Component {
   id: string;
@@ -17,9 +13,8 @@ interface Component {
   updatedAt: Date;
   status: string;
   coverImage?: string | null;
-  versions: {
-    files: FileData[];
-  }[];
+  createdBy?: UserSummary | null;
+  updatedBy?: UserSummary | null;
 }
 
 interface ComponentGridProps {
@@ -27,6 +22,14 @@ interface ComponentGridProps {
   viewMode: "grid" | "list";
   isLoading?: boolean;
   selectedCollection?: string | null;
+  // Showing the Favorites pseudo-collection, which has its own empty state
+  favoritesOnly?: boolean;
+  hasNextPage?: boolean;
+  isFetchingNextPage?: boolean;
+  onLoadMore?: () => unknown;
+  selectedIds?: Set<string>;
+  // `range` is set for shift-clicks, which select everything since the last click
+  onToggleSelect?: (id: string, options: { range: boolean }) => void;
 }
 
 export function ComponentGrid({
@@ -34,7 +37,19 @@ export function ComponentGrid({
   viewMode,
   isLoading,
   selectedCollection,
+  favoritesOnly = false,
+  hasNextPage,
+  isFetchingNextPage,
+  onLoadMore,
+  selectedIds,
+  onToggleSelect,
 }: ComponentGridProps) {
+  const loadMoreRef = useInfiniteScroll({
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage: onLoadMore,
+  });
+
   if (isLoading) {
     return (
       <div
@@ -63,6 +78,21 @@ export function ComponentGrid({
     );
   }
 
+  if (components.length === 0 && favoritesOnly) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <div className="w-16 h-16 rounded-full bg-muted/50 flex items-center justify-center mb-4">
+          <span className="text-3xl">⭐</span>
+        </div>
+        <h3 className="text-lg font-medium mb-1">No favorites yet</h3>
+        <p className="text-sm text-muted-foreground max-w-sm">
+          Star the components you use most, from their card or the Playground, to keep
+          them one click away.
+        </p>
+      </div>
+    );
+  }
+
   if (components.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 text-center">
@@ -94,13 +124,24 @@ export function ComponentGrid({
             title={component.title}
             framework={component.framework}
             updatedAt={component.updatedAt}
-            files={component.versions[0]?.files ?? []}
             status={component.status}
             coverImage={component.coverImage}
+            createdBy={component.createdBy}
+            updatedBy={component.updatedBy}
             selectedCollection={selectedCollection}
+            isSelected={selectedIds?.has(component.id)}
+            isSelectionMode={!!selectedIds && selectedIds.size > 0}
+            onToggleSelect={
+              onToggleSelect ? (options) => onToggleSelect(component.id, options) : undefined
+            }
           />
         ))}
       </div>
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center py-6 text-sm text-muted-foreground">
+          {isFetchingNextPage ? "Loading more components..." : null}
+        </div>
+      )}
     </HoverPreviewProvider>
   );
 }
@@ -0,0 +1,22 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { getStatusColor, getStatusLabel } from "@/lib/component-status";
+import { cn } from "@/lib/utils";
+
+interface ComponentStatusBadgeProps {
+  status: string;
+  className?: string;
+  // Experiment is the default status, so cards leave it unlabeled
+  showExperiment?: boolean;
+}
+
+export function ComponentStatusBadge({ status, className, showExperiment = false }: ComponentStatusBadgeProps) {
+  if (status === "experiment" && !showExperiment) return null;
+
+  return (
+    <Badge variant="outline" className={cn("text-xs", getStatusColor(status), className)}>
+      {getStatusLabel(status)}
+    </Badge>
+  );
+}
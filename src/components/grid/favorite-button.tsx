@@ -0,0 +1,43 @@
+"use client";
+
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useFavorites } from "@/lib/use-favorites";
+import { cn } from "@/lib/utils";
+
+interface FavoriteButtonProps {
+  componentId: string;
+  className?: string;
+  // Hide the star until the surrounding group is hovered, unless it is a favorite
+  revealOnHover?: boolean;
+}
+
+export function FavoriteButton({ componentId, className, revealOnHover = false }: FavoriteButtonProps) {
+  const { isFavorite, toggleFavorite, isToggling } = useFavorites();
+  const favorite = isFavorite(componentId);
+  const label = favorite ? "Remove from favorites" : "Add to favorites";
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon-sm"
+      className={cn(
+        "h-7 w-7 transition-opacity",
+        revealOnHover && !favorite && "opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+        className
+      )}
+      onClick={(e) => {
+        // Cards are links; starring must not open the component
+        e.preventDefault();
+        e.stopPropagation();
+        toggleFavorite(componentId);
+      }}
+      disabled={isToggling(componentId)}
+      aria-pressed={favorite}
+      aria-label={label}
+      title={label}
+    >
+      <Star className={cn("h-4 w-4", favorite && "fill-amber-400 text-amber-400")} />
+    </Button>
+  );
+}
@@ -6,7 +6,7 @@ import { useRouter } from "next/navigation";
 import { formatDistanceToNow } from "date-fns";
 import {
   MoreVertical,
-  Copy,
+  GitFork,
   Edit,
   Trash2,
   FolderPlus,
@@ -14,9 +14,12 @@ import {
   FileEdit,
   Image as ImageIcon,
   X,
+  Check,
 } from "lucide-react";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { ComponentStatusBadge } from "./component-status-badge";
+import { FavoriteButton } from "./favorite-button";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -51,6 +54,11 @@ import { Label } from "@/components/ui/label";
 import { StaticThumbnail } from "@/components/preview/static-thumbnail";
 import { HoverPreview } from "@/components/preview/hover-preview";
 import { useHoverPreview } from "@/components/preview/hover-preview-manager";
+import {
+  UserAvatar,
+  getUserDisplayName,
+  type UserSummary,
+} from "@/components/auth/user-avatar";
 import {
   getFrameworkLabel,
   getFrameworkColor,
@@ -59,22 +67,22 @@ import {
 } from "@/lib/detect-framework";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/lib/trpc";
-
-interface FileData {
-  filename: string;
-  language: string;
-  code: string;
-}
+import { usePermissions } from "@/lib/use-permissions";
 
 interface HoverableCardProps {
   id: string;
   title: string;
   framework: string;
   updatedAt: Date;
-  files: FileData[];
   status: string;
   coverImage?: string | null;
+  createdBy?: UserSummary | null;
+  updatedBy?: UserSummary | null;
   selectedCollection?: string | null;
+  isSelected?: boolean;
+  // While anything is selected, clicking the card toggles it instead of opening it
+  isSelectionMode?: boolean;
+  onToggleSelect?: (options: { range: boolean }) => void;
 }
 
 const HOVER_DELAY = 200; // ms
@@ -84,12 +92,17 @@ export function HoverableCard({
   title,
   framework,
   updatedAt,
-  files,
   status,
   coverImage,
+  createdBy,
+  updatedBy,
   selectedCollection,
+  isSelected = false,
+  isSelectionMode = false,
+  onToggleSelect,
 }: HoverableCardProps) {
   const router = useRouter();
+  const { canWrite } = usePermissions();
   const { setActivePreview, isPreviewActive } = useHoverPreview();
   const [isHovering, setIsHovering] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -100,6 +113,7 @@ export function HoverableCard({
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isRemovingCover, setIsRemovingCover] = useState(false);
   const [isSavingCover, setIsSavingCover] = useState(false);
+  const [hasBeenVisible, setHasBeenVisible] = useState(false);
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const cardRef = useRef<HTMLDivElement>(null);
   const menuButtonRef = useRef<HTMLButtonElement>(null);
@@ -109,9 +123,15 @@ export function HoverableCard({
   const isActive = isPreviewActive(id);
 
   const utils = trpc.useUtils();
+  // The list is metadata-only; code is fetched once the card scrolls into view.
+  // A cover image replaces the thumbnail, so only the hover preview needs files then.
+  const { data: files } = trpc.component.getPreviewFiles.useQuery(id, {
+    enabled: hasBeenVisible && (!coverImage || isHovering),
+    staleTime: 60 * 1000,
+  });
   const { data: collections = [], isLoading: collectionsLoading } = trpc.collection.list.useQuery();
   const { data: component } = trpc.component.getById.useQuery(id, {
-    enabled: isMenuOpen, // Only fetch when menu is open (for duplication and collection check)
+    enabled: isMenuOpen, // Only fetch when menu is open (for the collection check)
     // Refetch when menu opens to get latest collection associations
     refetchOnMount: true,
   });
@@ -123,9 +143,10 @@ export function HoverableCard({
     },
   });
 
-  const duplicateMutation = trpc.component.create.useMutation({
+  const forkMutation = trpc.component.fork.useMutation({
     onSuccess: () => {
       utils.component.list.invalidate();
+      utils.component.getById.invalidate(id);
     },
   });
 
@@ -188,31 +209,9 @@ export function HoverableCard({
     }
   });
 
-  const handleDuplicate = useCallback(() => {
-    if (!component) return;
-
-    const latestVersion = component.versions[0];
-    if (!latestVersion) return;
-
-    duplicateMutation.mutate({
-      title: `${component.title} (Copy)`,
-      description: component.description || undefined,
-      framework: component.framework,
-      language: component.language,
-      isRenderable: component.isRenderable,
-      files: latestVersion.files.map(
-        (file: { filename: string; language: string; code: string; order: number }) => ({
-        filename: file.filename,
-        language: file.language,
-        code: file.code,
-        order: file.order,
-      })
-      ),
-      collectionIds: component.collections.map(
-        (c: { collectionId: string }) => c.collectionId
-      ),
-    });
-  }, [component, duplicateMutation]);
+  const handleFork = useCallback(() => {
+    forkMutation.mutate({ id });
+  }, [id, forkMutation]);
 
   const handleAddToCollection = useCallback(
     (collectionId: string) => {
@@ -352,7 +351,9 @@ export function HoverableCard({
     const observer = new IntersectionObserver(
       (entries) => {
         entries.forEach((entry) => {
-          if (!entry.isIntersecting && isActive) {
+          if (entry.isIntersecting) {
+            setHasBeenVisible(true);
+          } else if (isActive) {
             setActivePreview(null);
           }
         });
@@ -368,20 +369,33 @@ export function HoverableCard({
   return (
     <>
       <div className="relative group">
-        <Link href={`/component/${id}`} className="block">
+        <Link
+          href={`/component/${id}`}
+          className="block"
+          onClick={(e) => {
+            if (!onToggleSelect || !(isSelectionMode || e.shiftKey)) return;
+            e.preventDefault();
+            onToggleSelect({ range: e.shiftKey });
+          }}
+        >
           <Card
             ref={cardRef}
             className={cn(
               "overflow-hidden transition-all duration-200 cursor-pointer",
-              isHovering && "border-primary/50 shadow-lg shadow-primary/5"
+              isHovering && "border-primary/50 shadow-lg shadow-primary/5",
+              isSelected && "ring-2 ring-primary border-primary"
             )}
             onMouseEnter={handleMouseEnter}
             onMouseLeave={handleMouseLeave}
           >
             <div className="relative aspect-[3/2] bg-muted/50 rounded-t-lg overflow-hidden">
-              <StaticThumbnail files={files} framework={frameworkType} coverImage={coverImage} />
+              {files || coverImage ? (
+                <StaticThumbnail files={files ?? []} framework={frameworkType} coverImage={coverImage} />
+              ) : (
+                <div className="w-full h-full animate-pulse bg-muted/30" />
+              )}
 
-              {canRender && (
+              {canRender && files && (
                 <HoverPreview
                   files={files}
                   framework={frameworkType}
@@ -389,6 +403,35 @@ export function HoverableCard({
                 />
               )}
 
+              {onToggleSelect && (
+                <button
+                  type="button"
+                  role="checkbox"
+                  aria-checked={isSelected}
+                  aria-label={`Select ${title}`}
+                  className={cn(
+                    "absolute top-2 left-2 z-10 h-5 w-5 rounded border shadow-sm flex items-center justify-center transition-opacity",
+                    isSelected
+                      ? "bg-primary border-primary text-primary-foreground"
+                      : "bg-background/80 backdrop-blur-sm border-border",
+                    isSelected || isSelectionMode ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                  )}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    onToggleSelect({ range: e.shiftKey });
+                  }}
+                >
+                  {isSelected && <Check className="h-3.5 w-3.5" />}
+                </button>
+              )}
+
+              <FavoriteButton
+                componentId={id}
+                revealOnHover
+                className="absolute top-2 right-10 z-10 bg-background/80 backdrop-blur-sm hover:bg-background/90 shadow-sm"
+              />
+
               {/* Three-dots menu button - positioned absolutely */}
               <div className="absolute top-2 right-2 z-10">
                 <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen}>
@@ -419,108 +462,110 @@ export function HoverableCard({
                       e.stopPropagation();
                     }}
                   >
-                    {/* Always show "Add to Collection" option */}
-                    <DropdownMenuSub>
-                      <DropdownMenuSubTrigger>
-                        <FolderPlus className="h-4 w-4" />
-                        <span>Add to Collection</span>
-                      </DropdownMenuSubTrigger>
-                      <DropdownMenuSubContent>
-                        {collections.length === 0 ? (
-                          <div className="px-2 py-1.5 text-sm text-muted-foreground">
-                            No collections available. Create one first.
-                          </div>
-                        ) : availableCollections.length === 0 ? (
-                          <div className="px-2 py-1.5 text-sm text-muted-foreground">
-                            Component is already in all collections
-                          </div>
-                        ) : (
-                          <>
-                            {availableCollections.map((collection: { id: string; name: string }) => {
-                              const isAdding =
-                                addToCollectionMutation.isPending &&
-                                addToCollectionMutation.variables?.collectionId ===
-                                collection.id;
-                              return (
-                                <DropdownMenuItem
-                                  key={collection.id}
-                                  onClick={(e) => {
-                                    e.preventDefault();
-                                    e.stopPropagation();
-                                    handleAddToCollection(collection.id);
-                                  }}
-                                  disabled={isAdding}
-                                >
-                                  {isAdding ? (
-                                    <>
-                                      <span className="h-4 w-4 animate-spin">⟳</span>
-                                      <span>Adding...</span>
-                                    </>
-                                  ) : (
-                                    <>
-                                      <span className="h-4 w-4" />
-                                      <span>{collection.name}</span>
-                                    </>
-                                  )}
-                                </DropdownMenuItem>
-                              );
-                            })}
-                            {addToCollectionMutation.error && (
-                              <div className="px-2 py-1.5 text-xs text-destructive border-t border-border/50">
-                                {addToCollectionMutation.error.message || "Failed to add to collection"}
-                              </div>
-                            )}
-                          </>
-                        )}
-                      </DropdownMenuSubContent>
-                    </DropdownMenuSub>
+                    {canWrite && (
+                      <>
+                      {/* Always show "Add to Collection" option for writers */}
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger>
+                          <FolderPlus className="h-4 w-4" />
+                          <span>Add to Collection</span>
+                        </DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          {collections.length === 0 ? (
+                            <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                              No collections available. Create one first.
+                            </div>
+                          ) : availableCollections.length === 0 ? (
+                            <div className="px-2 py-1.5 text-sm text-muted-foreground">
+                              Component is already in all collections
+                            </div>
+                          ) : (
+                            <>
+                              {availableCollections.map((collection: { id: string; name: string }) => {
+                                const isAdding =
+                                  addToCollectionMutation.isPending &&
+                                  addToCollectionMutation.variables?.collectionId ===
+                                  collection.id;
+                                return (
+                                  <DropdownMenuItem
+                                    key={collection.id}
+                                    onClick={(e) => {
+                                      e.preventDefault();
+                                      e.stopPropagation();
+                                      handleAddToCollection(collection.id);
+                                    }}
+                                    disabled={isAdding}
+                                  >
+                                    {isAdding ? (
+                                      <>
+                                        <span className="h-4 w-4 animate-spin">⟳</span>
+                                        <span>Adding...</span>
+                                      </>
+                                    ) : (
+                                      <>
+                                        <span className="h-4 w-4" />
+                                        <span>{collection.name}</span>
+                                      </>
+                                    )}
+                                  </DropdownMenuItem>
+                                );
+                              })}
+                              {addToCollectionMutation.error && (
+                                <div className="px-2 py-1.5 text-xs text-destructive border-t border-border/50">
+                                  {addToCollectionMutation.error.message || "Failed to add to collection"}
+                                </div>
+                              )}
+                            </>
+                          )}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+
+                      {selectedCollection && (
+                        <DropdownMenuItem
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handleRemoveFromCollection();
+                          }}
+                          disabled={removeFromCollectionMutation.isPending}
+                        >
+                          {removeFromCollectionMutation.isPending ? (
+                            <>
+                              <span className="h-4 w-4 animate-spin">⟳</span>
+                              <span>Removing...</span>
+                            </>
+                          ) : (
+                            <>
+                              <FolderMinus className="h-4 w-4" />
+                              <span>Remove from Collection</span>
+                            </>
+                          )}
+                        </DropdownMenuItem>
+                      )}
 
-                    {selectedCollection && (
                       <DropdownMenuItem
                         onClick={(e) => {
                           e.preventDefault();
                           e.stopPropagation();
-                          handleRemoveFromCollection();
+                          handleFork();
                         }}
-                        disabled={removeFromCollectionMutation.isPending}
+                        disabled={forkMutation.isPending}
                       >
-                        {removeFromCollectionMutation.isPending ? (
+                        {forkMutation.isPending ? (
                           <>
                             <span className="h-4 w-4 animate-spin">⟳</span>
-                            <span>Removing...</span>
+                            <span>Forking...</span>
                           </>
                         ) : (
                           <>
-                            <FolderMinus className="h-4 w-4" />
-                            <span>Remove from Collection</span>
+                            <GitFork className="h-4 w-4" />
+                            <span>Fork</span>
                           </>
                         )}
                       </DropdownMenuItem>
+                      </>
                     )}
 
-                    <DropdownMenuItem
-                      onClick={(e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        if (component) {
-                          handleDuplicate();
-                        }
-                      }}
-                      disabled={duplicateMutation.isPending || !component}
-                    >
-                      {duplicateMutation.isPending ? (
-                        <>
-                          <span className="h-4 w-4 animate-spin">⟳</span>
-                          <span>Duplicating...</span>
-                        </>
-                      ) : (
-                        <>
-                          <Copy className="h-4 w-4" />
-                          <span>Duplicate</span>
-                        </>
-                      )}
-                    </DropdownMenuItem>
-
                     <DropdownMenuItem
                       onClick={handleModify}
                       disabled={false}
@@ -529,66 +574,70 @@ export function HoverableCard({
                       <span>Modify</span>
                     </DropdownMenuItem>
 
-                    <DropdownMenuItem
-                      onClick={(e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        setIsRenameDialogOpen(true);
-                      }}
-                      disabled={false}
-                    >
-                      <FileEdit className="h-4 w-4" />
-                      <span>Rename</span>
-                    </DropdownMenuItem>
-
-                    <DropdownMenuItem
-                      onClick={(e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        setIsCoverDialogOpen(true);
-                      }}
-                    >
-                      <ImageIcon className="h-4 w-4" />
-                      <span>{coverImage ? "Change Cover" : "Add Cover"}</span>
-                    </DropdownMenuItem>
+                    {canWrite && (
+                      <>
+                      <DropdownMenuItem
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          setIsRenameDialogOpen(true);
+                        }}
+                        disabled={false}
+                      >
+                        <FileEdit className="h-4 w-4" />
+                        <span>Rename</span>
+                      </DropdownMenuItem>
 
-                    {coverImage && (
                       <DropdownMenuItem
                         onClick={(e) => {
                           e.preventDefault();
                           e.stopPropagation();
-                          handleRemoveCover();
+                          setIsCoverDialogOpen(true);
                         }}
-                        disabled={updateCoverMutation.isPending}
-                        className="text-destructive focus:text-destructive"
                       >
-                        {isRemovingCover ? (
-                          <>
-                            <span className="h-4 w-4 animate-spin">⟳</span>
-                            <span>Removing...</span>
-                          </>
-                        ) : (
-                          <>
-                            <Trash2 className="h-4 w-4" />
-                            <span>Remove Cover</span>
-                          </>
-                        )}
+                        <ImageIcon className="h-4 w-4" />
+                        <span>{coverImage ? "Change Cover" : "Add Cover"}</span>
                       </DropdownMenuItem>
-                    )}
 
-                    <DropdownMenuSeparator />
+                      {coverImage && (
+                        <DropdownMenuItem
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            handleRemoveCover();
+                          }}
+                          disabled={updateCoverMutation.isPending}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          {isRemovingCover ? (
+                            <>
+                              <span className="h-4 w-4 animate-spin">⟳</span>
+                              <span>Removing...</span>
+                            </>
+                          ) : (
+                            <>
+                              <Trash2 className="h-4 w-4" />
+                              <span>Remove Cover</span>
+                            </>
+                          )}
+                        </DropdownMenuItem>
+                      )}
 
-                    <DropdownMenuItem
-                      onClick={(e) => {
-                        e.preventDefault();
-                        e.stopPropagation();
-                        setIsDeleteDialogOpen(true);
-                      }}
-                      variant="destructive"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                      <span>Delete</span>
-                    </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+
+                      <DropdownMenuItem
+                        onClick={(e) => {
+                          e.preventDefault();
+                          e.stopPropagation();
+                          setIsDeleteDialogOpen(true);
+                        }}
+                        variant="destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span>Delete</span>
+                      </DropdownMenuItem>
+                      </>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
@@ -599,14 +648,7 @@ export function HoverableCard({
                 <h3 className="font-medium text-sm truncate group-hover:text-primary transition-colors">
                   {title}
                 </h3>
-                {status === "ready" && (
-                  <Badge
-                    variant="outline"
-                    className="text-xs bg-green-500/10 text-green-500 border-green-500/20 shrink-0"
-                  >
-                    Ready
-                  </Badge>
-                )}
+                <ComponentStatusBadge status={status} className="shrink-0" />
               </div>
 
               <div className="flex items-center justify-between gap-2">
@@ -616,9 +658,26 @@ export function HoverableCard({
                 >
                   {getFrameworkLabel(frameworkType)}
                 </Badge>
-                <span className="text-xs text-muted-foreground truncate ml-2">
-                  {formatDistanceToNow(new Date(updatedAt), { addSuffix: true })}
-                </span>
+                <div className="flex items-center gap-1.5 min-w-0 ml-2">
+                  <span className="text-xs text-muted-foreground truncate">
+                    {formatDistanceToNow(new Date(updatedAt), { addSuffix: true })}
+                  </span>
+                  {createdBy && (
+                    <span
+                      className="flex items-center -space-x-1.5 shrink-0"
+                      title={
+                        updatedBy && updatedBy.id !== createdBy.id
+                          ? `Created by ${getUserDisplayName(createdBy)} · last edited by ${getUserDisplayName(updatedBy)}`
+                          : `Created by ${getUserDisplayName(createdBy)}`
+                      }
+                    >
+                      <UserAvatar user={createdBy} className="ring-2 ring-background" />
+                      {updatedBy && updatedBy.id !== createdBy.id && (
+                        <UserAvatar user={updatedBy} className="ring-2 ring-background" />
+                      )}
+                    </span>
+                  )}
+                </div>
               </div>
             </div>
           </Card>
@@ -0,0 +1,141 @@
+"use client";
+
+import { FileCode, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { getFrameworkColor, getFrameworkLabel, type Framework } from "@/lib/detect-framework";
+import { cn } from "@/lib/utils";
+
+interface SnippetLine {
+  lineNumber: number;
+  text: string;
+  highlights: [number, number][];
+}
+
+interface FileMatch {
+  fileId: string;
+  filename: string;
+  matchCount: number;
+  snippets: SnippetLine[];
+}
+
+export interface CodeSearchResult {
+  id: string;
+  title: string;
+  description: string | null;
+  framework: string;
+  version: number | null;
+  matchedIn: string[];
+  files: FileMatch[];
+}
+
+interface CodeSearchResultsProps {
+  query: string;
+  results: CodeSearchResult[] | undefined;
+  isLoading: boolean;
+  activeIndex: number;
+  onActiveIndexChange: (index: number) => void;
+  onSelect: (result: CodeSearchResult) => void;
+}
+
+function HighlightedLine({ line }: { line: SnippetLine }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  line.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(line.text.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-500/30 text-foreground rounded-sm">
+        {line.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(line.text.slice(cursor));
+
+  return <>{parts}</>;
+}
+
+// Dropdown listing ranked code search hits with highlighted snippets
+export function CodeSearchResults({
+  query,
+  results,
+  isLoading,
+  activeIndex,
+  onActiveIndexChange,
+  onSelect,
+}: CodeSearchResultsProps) {
+  return (
+    <div className="absolute left-0 right-0 top-full mt-1 max-h-[70vh] overflow-y-auto rounded-md border bg-popover text-popover-foreground shadow-lg z-50">
+      {isLoading && !results ? (
+        <div className="flex items-center gap-2 px-3 py-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Searching code...
+        </div>
+      ) : !results?.length ? (
+        <div className="px-3 py-4 text-sm text-muted-foreground">
+          No components or code match &quot;{query}&quot;.
+        </div>
+      ) : (
+        <ul role="listbox" className="py-1">
+          {results.map((result, index) => (
+            <li
+              key={result.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the search input so typing continues to work
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => onActiveIndexChange(index)}
+              onClick={() => onSelect(result)}
+              className={cn(
+                "px-3 py-2 cursor-pointer space-y-1.5",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-medium text-sm truncate">{result.title}</span>
+                <Badge
+                  variant="outline"
+                  className={cn("text-[10px] px-1 py-0 h-4", getFrameworkColor(result.framework as Framework))}
+                >
+                  {getFrameworkLabel(result.framework as Framework)}
+                </Badge>
+                {result.version !== null && (
+                  <span className="text-[11px] text-muted-foreground">v{result.version}</span>
+                )}
+                <span className="ml-auto shrink-0 text-[11px] text-muted-foreground">
+                  {result.matchedIn.join(", ")}
+                </span>
+              </div>
+              {result.description && !result.files.length && (
+                <p className="text-xs text-muted-foreground truncate">{result.description}</p>
+              )}
+              {result.files.map((file) => (
+                <div key={file.fileId} className="rounded border bg-muted/40 overflow-hidden">
+                  <div className="flex items-center gap-1.5 px-2 py-0.5 text-[11px] text-muted-foreground border-b">
+                    <FileCode className="h-3 w-3 shrink-0" />
+                    <span className="font-mono truncate">{file.filename}</span>
+                    <span className="ml-auto shrink-0">
+                      {file.matchCount} match{file.matchCount === 1 ? "" : "es"}
+                    </span>
+                  </div>
+                  <pre className="text-[11px] leading-4 font-mono overflow-hidden py-0.5">
+                    {file.snippets.map((line) => (
+                      <div key={line.lineNumber} className="flex gap-2 px-2 whitespace-pre">
+                        <span className="w-8 shrink-0 text-right text-muted-foreground/70 select-none">
+                          {line.lineNumber}
+                        </span>
+                        <span className="truncate">
+                          <HighlightedLine line={line} />
+                        </span>
+                      </div>
+                    ))}
+                  </pre>
+                </div>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
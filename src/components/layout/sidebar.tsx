@@ -1,7 +1,7 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { FolderOpen, ChevronDown, ChevronUp, Plus, Filter, Sparkles, Sun, Moon, Grid3x3, Palette, Scissors, X } from "lucide-react";
+import { useState, useEffect } from "react";
+import { FolderOpen, ChevronDown, ChevronUp, Plus, Filter, Sparkles, Sun, Moon, Grid3x3, Palette, Scissors, X, UserRound, Trash2, Star } from "lucide-react";
 import { useTheme } from "next-themes";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -15,17 +15,31 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { CreateCollectionDialog } from "@/components/collections/create-collection-dialog";
+import { DeleteCollectionDialog } from "@/components/collections/delete-collection-dialog";
+import { TagInput } from "@/components/tags/tag-input";
 import { cn } from "@/lib/utils";
 import { trpc } from "@/lib/trpc";
+import { usePermissions } from "@/lib/use-permissions";
+import { useInfiniteScroll } from "@/lib/use-infinite-scroll";
+import { useFavorites } from "@/lib/use-favorites";
+import { COMPONENT_STATUSES, getStatusLabel } from "@/lib/component-status";
 import { useRouter, usePathname } from "next/navigation";
 
 interface SidebarProps {
   selectedCollection: string | null;
   onCollectionSelect: (collectionId: string | null) => void;
+  favoritesSelected?: boolean;
+  onFavoritesSelect?: () => void;
   frameworkFilter: string | null;
   onFrameworkFilterChange: (framework: string | null) => void;
   statusFilter: string | null;
   onStatusFilterChange: (status: string | null) => void;
+  createdByMeFilter?: boolean;
+  onCreatedByMeFilterChange?: (createdByMe: boolean) => void;
+  tagFilter?: string[];
+  onTagFilterChange?: (tags: string[]) => void;
+  tagMode?: "any" | "all";
+  onTagModeChange?: (mode: "any" | "all") => void;
   onPlaygroundClick?: () => void;
   isOpen?: boolean;
   onClose?: () => void;
@@ -43,8 +57,7 @@ const frameworks = [
 
 const statuses = [
   { value: "all", label: "All Statuses" },
-  { value: "experiment", label: "Experiment" },
-  { value: "ready", label: "Ready" },
+  ...COMPONENT_STATUSES.map((status) => ({ value: status, label: getStatusLabel(status) })),
 ];
 
 interface CollectionWithChildren {
@@ -62,10 +75,10 @@ interface Component {
   status: string;
   createdAt: Date | string;
   updatedAt: Date | string;
-  versions?: unknown[];
-  collections?: unknown[];
 }
 
+const SIDEBAR_PAGE_SIZE = 20;
+
 // Helper function to determine if component is "Updated"
 function getComponentBadge(component: Component): "updated" | null {
   const now = new Date();
@@ -131,38 +144,112 @@ function ComponentListItem({
   );
 }
 
+// Shared drag-and-drop state for reordering and nesting collections
+interface CollectionDragAndDrop {
+  draggingId: string | null;
+  setDraggingId: (id: string | null) => void;
+  move: (move: { id: string; parentId: string | null; beforeId: string | null }) => void;
+}
+
+type DropZone = "before" | "inside" | "after";
+
+// Top and bottom quarters of a row insert next to it, the middle nests inside it
+function getDropZone(e: React.DragEvent<HTMLElement>): DropZone {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const offset = (e.clientY - rect.top) / rect.height;
+  if (offset < 0.25) return "before";
+  if (offset > 0.75) return "after";
+  return "inside";
+}
+
 function CollectionTreeItem({
   collection,
   selectedCollection,
   onCollectionSelect,
   isCollapsed,
   level = 0,
+  ancestorIds = [],
+  nextSiblingId = null,
+  dragAndDrop,
+  onDelete,
 }: {
   collection: CollectionWithChildren;
   selectedCollection: string | null;
   onCollectionSelect: (collectionId: string | null) => void;
   isCollapsed: boolean;
   level?: number;
+  ancestorIds?: string[];
+  nextSiblingId?: string | null;
+  dragAndDrop?: CollectionDragAndDrop;
+  onDelete?: (collection: { id: string; name: string }) => void;
 }) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [dropZone, setDropZone] = useState<DropZone | null>(null);
   const pathname = usePathname();
   const hasChildren = collection.children && collection.children.length > 0;
   const hasComponents = collection._count.components > 0;
   
-  // Fetch components when expanded
-  const { data: components } = trpc.component.list.useQuery(
-    { collectionId: collection.id },
-    { enabled: isExpanded && !isCollapsed && hasComponents }
+  // Fetch components page by page when expanded
+  const {
+    data,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = trpc.component.list.useInfiniteQuery(
+    { collectionId: collection.id, limit: SIDEBAR_PAGE_SIZE },
+    {
+      enabled: isExpanded && !isCollapsed && hasComponents,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    }
   );
+  const components = data?.pages.flatMap((page) => page.items);
+  const loadMoreRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
 
   // Get active component ID from pathname
   const activeComponentId = pathname && pathname.startsWith("/component/")
     ? pathname.split("/component/")[1]?.split("/")[0] ?? null
     : null;
 
+  const draggingId = dragAndDrop?.draggingId ?? null;
+  // A collection cannot be dropped onto itself or anything inside it
+  const isValidDropTarget =
+    !!draggingId && draggingId !== collection.id && !ancestorIds.includes(draggingId);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDropZone(null);
+    if (!dragAndDrop || !draggingId || !isValidDropTarget) return;
+
+    const zone = getDropZone(e);
+    if (zone === "inside") {
+      dragAndDrop.move({ id: draggingId, parentId: collection.id, beforeId: null });
+      setIsExpanded(true);
+    } else if (zone === "before") {
+      dragAndDrop.move({ id: draggingId, parentId: collection.parentId, beforeId: collection.id });
+    } else if (nextSiblingId !== draggingId) {
+      dragAndDrop.move({ id: draggingId, parentId: collection.parentId, beforeId: nextSiblingId });
+    }
+    dragAndDrop.setDraggingId(null);
+  };
+
   return (
     <div>
-      <div className="flex items-center gap-1">
+      <div
+        className={cn(
+          "group flex items-center gap-1 rounded-md border-y-2 border-transparent",
+          dropZone === "before" && "border-t-primary",
+          dropZone === "after" && "border-b-primary",
+          dropZone === "inside" && "bg-primary/10"
+        )}
+        onDragOver={(e) => {
+          if (!isValidDropTarget) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = "move";
+          setDropZone(getDropZone(e));
+        }}
+        onDragLeave={() => setDropZone(null)}
+        onDrop={handleDrop}
+      >
         {(hasChildren || hasComponents) && !isCollapsed && (
           <button
             onClick={(e) => {
@@ -193,6 +280,13 @@ function CollectionTreeItem({
               : "hover:bg-background/40 hover:backdrop-blur-sm hover:border hover:border-border/40"
           )}
           onClick={() => onCollectionSelect(collection.id)}
+          draggable={!!dragAndDrop && !isCollapsed}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", collection.id);
+            dragAndDrop?.setDraggingId(collection.id);
+          }}
+          onDragEnd={() => dragAndDrop?.setDraggingId(null)}
         >
           {isCollapsed ? (
             <FolderOpen className="h-4 w-4" />
@@ -210,13 +304,26 @@ function CollectionTreeItem({
             </>
           )}
         </Button>
+        {onDelete && !isCollapsed && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete({ id: collection.id, name: collection.name });
+            }}
+            className="p-1 rounded text-muted-foreground hover:text-destructive hover:bg-muted/50 opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity flex-shrink-0"
+            aria-label={`Delete collection ${collection.name}`}
+            title="Delete collection"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </button>
+        )}
       </div>
       {isExpanded && !isCollapsed && (
         <div className={cn("mt-1", level > 0 ? "ml-4" : "ml-4")}>
           {/* Render nested collections */}
           {hasChildren && (
             <div className="space-y-1 mb-1">
-              {collection.children!.map((child) => (
+              {collection.children!.map((child, index, siblings) => (
                 <CollectionTreeItem
                   key={child.id}
                   collection={child}
@@ -224,6 +331,10 @@ function CollectionTreeItem({
                   onCollectionSelect={onCollectionSelect}
                   isCollapsed={isCollapsed}
                   level={level + 1}
+                  ancestorIds={[...ancestorIds, collection.id]}
+                  nextSiblingId={siblings[index + 1]?.id ?? null}
+                  dragAndDrop={dragAndDrop}
+                  onDelete={onDelete}
                 />
               ))}
             </div>
@@ -235,11 +346,16 @@ function CollectionTreeItem({
               {components.map((component) => (
                 <ComponentListItem
                   key={component.id}
-                  component={component as Component}
+                  component={component}
                   isActive={activeComponentId === component.id}
                   isCollapsed={isCollapsed}
                 />
               ))}
+              {hasNextPage && (
+                <div ref={loadMoreRef} className="pl-6 py-1 text-xs text-muted-foreground/60">
+                  {isFetchingNextPage ? "Loading..." : null}
+                </div>
+              )}
             </div>
           )}
           {hasComponents && components && components.length === 0 && (
@@ -253,13 +369,123 @@ function CollectionTreeItem({
   );
 }
 
+// The current user's starred components, listed like a collection at the top of the sidebar
+function FavoritesItem({
+  isSelected,
+  onSelect,
+  isCollapsed,
+}: {
+  isSelected: boolean;
+  onSelect: () => void;
+  isCollapsed: boolean;
+}) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const pathname = usePathname();
+  const { favoriteIds } = useFavorites();
+  const hasComponents = favoriteIds.length > 0;
+
+  const {
+    data,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = trpc.component.list.useInfiniteQuery(
+    { favoritesOnly: true, limit: SIDEBAR_PAGE_SIZE },
+    {
+      enabled: isExpanded && !isCollapsed && hasComponents,
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+    }
+  );
+  const components = data?.pages.flatMap((page) => page.items);
+  const loadMoreRef = useInfiniteScroll({ hasNextPage, isFetchingNextPage, fetchNextPage });
+
+  const activeComponentId = pathname && pathname.startsWith("/component/")
+    ? pathname.split("/component/")[1]?.split("/")[0] ?? null
+    : null;
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        {hasComponents && !isCollapsed && (
+          <button
+            onClick={() => setIsExpanded(!isExpanded)}
+            className="p-0.5 hover:bg-muted/50 rounded text-muted-foreground hover:text-foreground transition-all duration-150 flex-shrink-0"
+            aria-label={isExpanded ? "Collapse favorites" : "Expand favorites"}
+          >
+            <ChevronDown
+              className={cn(
+                "h-3.5 w-3.5 transition-transform duration-200",
+                !isExpanded && "-rotate-90"
+              )}
+            />
+          </button>
+        )}
+        {!hasComponents && !isCollapsed && <div className="w-4" />}
+        <Button
+          variant="ghost"
+          className={cn(
+            "flex-1 justify-start h-8 rounded-md transition-all gap-2",
+            isCollapsed && "justify-center",
+            isSelected && "font-medium",
+            isSelected
+              ? "bg-background/50 backdrop-blur-sm border border-border/50"
+              : "hover:bg-background/40 hover:backdrop-blur-sm hover:border hover:border-border/40"
+          )}
+          onClick={onSelect}
+          title={isCollapsed ? "Favorites" : undefined}
+        >
+          <Star className={cn("h-4 w-4", hasComponents && "fill-amber-400 text-amber-400")} />
+          {!isCollapsed && (
+            <>
+              <span className="truncate">Favorites</span>
+              {hasComponents && (
+                <Badge
+                  variant="secondary"
+                  className="ml-auto h-5 min-w-[20px] px-1.5 text-xs font-normal"
+                >
+                  {favoriteIds.length}
+                </Badge>
+              )}
+            </>
+          )}
+        </Button>
+      </div>
+      {isExpanded && !isCollapsed && hasComponents && components && components.length > 0 && (
+        <div className="ml-4 mt-1 space-y-0.5 py-1">
+          {components.map((component) => (
+            <ComponentListItem
+              key={component.id}
+              component={component}
+              isActive={activeComponentId === component.id}
+              isCollapsed={isCollapsed}
+            />
+          ))}
+          {hasNextPage && (
+            <div ref={loadMoreRef} className="pl-6 py-1 text-xs text-muted-foreground/60">
+              {isFetchingNextPage ? "Loading..." : null}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function Sidebar({
   selectedCollection,
   onCollectionSelect,
+  favoritesSelected = false,
+  onFavoritesSelect,
   frameworkFilter,
   onFrameworkFilterChange,
   statusFilter,
   onStatusFilterChange,
+  createdByMeFilter = false,
+  onCreatedByMeFilterChange,
+  tagFilter = [],
+  onTagFilterChange,
+  tagMode = "any",
+  onTagModeChange,
   onPlaygroundClick,
   isOpen = true,
   onClose,
@@ -269,50 +495,20 @@ export function Sidebar({
   const [isToolsExpanded, setIsToolsExpanded] = useState(false);
   const router = useRouter();
   const pathname = usePathname();
+  const { canWrite, canDeleteCollection } = usePermissions();
+  const [collectionToDelete, setCollectionToDelete] = useState<{ id: string; name: string } | null>(null);
   const { data: collections, isLoading } = trpc.collection.list.useQuery();
-  const { data: allComponents } = trpc.component.list.useQuery({});
+  const utils = trpc.useUtils();
   
   // Get active tool ID from pathname
   const activeToolId = pathname && pathname.startsWith("/tools/")
     ? pathname.split("/tools/")[1] ?? null
     : null;
 
-  // Generate next unique "Untitled" name
-  const getNextUntitledName = useCallback(() => {
-    if (!allComponents) return "Untitled 1";
-
-    // Find all existing "Untitled" or "Untitled X" titles
-    const untitledPattern = /^Untitled(?: (\d+))?$/;
-    const existingNumbers = allComponents
-      .map((c) => {
-        const match = c.title.match(untitledPattern);
-        if (match) {
-          // "Untitled" without number = 0, "Untitled 5" = 5
-          return match[1] ? parseInt(match[1], 10) : 0;
-        }
-        return null;
-      })
-      .filter((n): n is number => n !== null)
-      .sort((a, b) => b - a); // Sort descending
-
-    // Find the next available number
-    let nextNumber = 1;
-    if (existingNumbers.length > 0) {
-      // Find the first gap, or use max + 1
-      const maxNumber = existingNumbers[0];
-      for (let i = 1; i <= maxNumber + 1; i++) {
-        if (!existingNumbers.includes(i)) {
-          nextNumber = i;
-          break;
-        }
-      }
-    }
-
-    return nextNumber === 1 ? "Untitled 1" : `Untitled ${nextNumber}`;
-  }, [allComponents]);
-
   const createScratchpadMutation = trpc.component.create.useMutation({
     onSuccess: (component) => {
+      utils.component.nextUntitledTitle.invalidate();
+      utils.component.list.invalidate();
       // Navigate directly to the new scratchpad component
       router.push(`/component/${component.id}`);
     },
@@ -347,6 +543,22 @@ export function Sidebar({
 
   const collectionTree = collections ? buildTree(collections as CollectionWithChildren[]) : [];
 
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [isRootDropTarget, setIsRootDropTarget] = useState(false);
+  const draggingCollection = collections?.find((c) => c.id === draggingId) ?? null;
+
+  const moveCollectionMutation = trpc.collection.move.useMutation({
+    onSettled: () => utils.collection.list.invalidate(),
+  });
+
+  const dragAndDrop: CollectionDragAndDrop | undefined = canWrite
+    ? {
+      draggingId,
+      setDraggingId,
+      move: (move) => moveCollectionMutation.mutate(move),
+    }
+    : undefined;
+
   // Set CSS variable on document root for main content margin
   useEffect(() => {
     const width = isCollapsed ? '4rem' : '16rem';
@@ -364,6 +576,17 @@ export function Sidebar({
       {/* Scrollable content area */}
       <ScrollArea className="flex-1 min-h-0">
         <div className="p-4 space-y-4">
+          {onFavoritesSelect && (
+            <>
+              <FavoritesItem
+                isSelected={favoritesSelected}
+                onSelect={onFavoritesSelect}
+                isCollapsed={isCollapsed}
+              />
+              {!isCollapsed && <Separator />}
+            </>
+          )}
+
           {/* Filters Section */}
           {!isCollapsed && (
             <>
@@ -406,6 +629,42 @@ export function Sidebar({
                     ))}
                   </SelectContent>
                 </Select>
+                {onCreatedByMeFilterChange && (
+                  <Button
+                    variant={createdByMeFilter ? "secondary" : "outline"}
+                    size="sm"
+                    className="w-full justify-start gap-2 font-normal"
+                    onClick={() => onCreatedByMeFilterChange(!createdByMeFilter)}
+                    aria-pressed={createdByMeFilter}
+                  >
+                    <UserRound className="h-4 w-4" />
+                    Created by me
+                  </Button>
+                )}
+                {onTagFilterChange && (
+                  <TagInput
+                    value={tagFilter}
+                    onChange={onTagFilterChange}
+                    placeholder="Filter by tags..."
+                  />
+                )}
+                {onTagModeChange && tagFilter.length > 1 && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <span className="mr-1">Match</span>
+                    {(["any", "all"] as const).map((mode) => (
+                      <Button
+                        key={mode}
+                        variant={tagMode === mode ? "secondary" : "ghost"}
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => onTagModeChange(mode)}
+                        aria-pressed={tagMode === mode}
+                      >
+                        {mode === "any" ? "Any tag" : "All tags"}
+                      </Button>
+                    ))}
+                  </div>
+                )}
               </div>
 
               <Separator />
@@ -420,14 +679,16 @@ export function Sidebar({
                   <FolderOpen className="h-4 w-4" />
                   Collections
                 </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-6 w-6"
-                  onClick={() => setIsCreateDialogOpen(true)}
-                >
-                  <Plus className="h-4 w-4" />
-                </Button>
+                {canWrite && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setIsCreateDialogOpen(true)}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             )}
 
@@ -437,8 +698,8 @@ export function Sidebar({
                 className={cn(
                   "w-full justify-start h-8 rounded-md transition-all",
                   isCollapsed && "justify-center",
-                  selectedCollection === null && "font-medium",
-                  selectedCollection === null 
+                  selectedCollection === null && !favoritesSelected && "font-medium",
+                  selectedCollection === null && !favoritesSelected
                     ? "bg-background/50 backdrop-blur-sm border border-border/50" 
                     : "hover:bg-background/40 hover:backdrop-blur-sm hover:border hover:border-border/40"
                 )}
@@ -458,16 +719,52 @@ export function Sidebar({
                   Loading...
                 </div>
               ) : (
-                collectionTree.map((collection) => (
+                collectionTree.map((collection, index) => (
                   <CollectionTreeItem
                     key={collection.id}
                     collection={collection}
                     selectedCollection={selectedCollection}
                     onCollectionSelect={onCollectionSelect}
                     isCollapsed={isCollapsed}
+                    nextSiblingId={collectionTree[index + 1]?.id ?? null}
+                    dragAndDrop={dragAndDrop}
+                    onDelete={canDeleteCollection ? setCollectionToDelete : undefined}
                   />
                 ))
               )}
+
+              {/* Dropping here moves a nested collection back to the top level */}
+              {draggingCollection?.parentId && (
+                <div
+                  className={cn(
+                    "rounded-md border border-dashed px-2 py-1.5 text-xs text-muted-foreground",
+                    isRootDropTarget && "border-primary text-foreground bg-primary/10"
+                  )}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = "move";
+                    setIsRootDropTarget(true);
+                  }}
+                  onDragLeave={() => setIsRootDropTarget(false)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    setIsRootDropTarget(false);
+                    moveCollectionMutation.mutate({
+                      id: draggingCollection.id,
+                      parentId: null,
+                      beforeId: null,
+                    });
+                    setDraggingId(null);
+                  }}
+                >
+                  Move to top level
+                </div>
+              )}
+              {moveCollectionMutation.error && (
+                <p className="px-2 text-xs text-destructive">
+                  {moveCollectionMutation.error.message}
+                </p>
+              )}
             </div>
           </div>
         </div>
@@ -557,39 +854,41 @@ export function Sidebar({
           </div>
         </div>
 
-        {/* Scratchpad Section */}
-        <div className="p-4">
-          <Button
-            variant="default"
-            className={cn(
-              "w-full gap-2",
-              isCollapsed ? "px-0 justify-center" : "justify-start"
-            )}
-            onClick={() => {
-              // Create a scratchpad component with default empty file
-              // This directly opens the playground without showing the modal
-              const untitledName = getNextUntitledName();
-              createScratchpadMutation.mutate({
-                title: untitledName,
-                framework: "react",
-                language: "tsx",
-                isRenderable: true,
-                files: [
-                  {
-                    filename: "App.tsx",
-                    language: "tsx",
-                    code: "",
-                    order: 0,
-                  },
-                ],
-              });
-            }}
-            disabled={createScratchpadMutation.isPending}
-          >
-            <Sparkles className="h-4 w-4" />
-            {!isCollapsed && <span>Scratchpad</span>}
-          </Button>
-        </div>
+        {/* Scratchpad Section - creating components requires write access */}
+        {canWrite && (
+          <div className="p-4">
+            <Button
+              variant="default"
+              className={cn(
+                "w-full gap-2",
+                isCollapsed ? "px-0 justify-center" : "justify-start"
+              )}
+              onClick={async () => {
+                // Create a scratchpad component with default empty file
+                // This directly opens the playground without showing the modal
+                const untitledName = await utils.component.nextUntitledTitle.fetch();
+                createScratchpadMutation.mutate({
+                  title: untitledName,
+                  framework: "react",
+                  language: "tsx",
+                  isRenderable: true,
+                  files: [
+                    {
+                      filename: "App.tsx",
+                      language: "tsx",
+                      code: "",
+                      order: 0,
+                    },
+                  ],
+                });
+              }}
+              disabled={createScratchpadMutation.isPending}
+            >
+              <Sparkles className="h-4 w-4" />
+              {!isCollapsed && <span>Scratchpad</span>}
+            </Button>
+          </div>
+        )}
       </div>
 
       <CreateCollectionDialog
@@ -597,6 +896,17 @@ export function Sidebar({
         onOpenChange={setIsCreateDialogOpen}
         collections={collections?.map((c) => ({ id: c.id, name: c.name })) ?? []}
       />
+
+      <DeleteCollectionDialog
+        key={collectionToDelete?.id}
+        collection={collectionToDelete}
+        onOpenChange={(open) => !open && setCollectionToDelete(null)}
+        onDeleted={(deletedIds) => {
+          if (selectedCollection && deletedIds.includes(selectedCollection)) {
+            onCollectionSelect(null);
+          }
+        }}
+      />
     </aside>
     </>
   );
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { useRouter } from "next/navigation";
 import { Search, Plus, LayoutGrid, List } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -12,10 +13,17 @@ import {
 } from "@/components/ui/tooltip";
 import { ThemeToggle } from "@/components/ui/theme-toggle";
 import { UserProfile } from "@/components/auth/user-profile";
+import { CodeSearchResults, type CodeSearchResult } from "@/components/layout/code-search-results";
+import { trpc } from "@/lib/trpc";
+import { useDebounce } from "@/lib/use-debounce";
+
+// Code search needs a couple of characters before it is worth querying
+const MIN_CODE_SEARCH_LENGTH = 2;
 
 interface TopBarProps {
   onSearch: (query: string) => void;
-  onAddComponent: () => void;
+  searchInputRef?: React.Ref<HTMLInputElement>;
+  onAddComponent?: () => void;
   viewMode: "grid" | "list";
   onViewModeChange: (mode: "grid" | "list") => void;
   onMenuClick?: () => void;
@@ -23,19 +31,59 @@ interface TopBarProps {
 
 export function TopBar({
   onSearch,
+  searchInputRef,
   onAddComponent,
   viewMode,
   onViewModeChange,
   onMenuClick,
 }: TopBarProps) {
+  const router = useRouter();
   const [searchValue, setSearchValue] = useState("");
+  const [isResultsOpen, setIsResultsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const debouncedSearch = useDebounce(searchValue.trim(), 250);
+  const canSearchCode = debouncedSearch.length >= MIN_CODE_SEARCH_LENGTH;
+  const { data: results, isFetching } = trpc.component.search.useQuery(
+    { query: debouncedSearch },
+    { enabled: canSearchCode, placeholderData: (previous) => previous }
+  );
+
+  const showResults = isResultsOpen && canSearchCode;
+  const highlightedIndex = Math.min(activeIndex, Math.max((results?.length ?? 0) - 1, 0));
 
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setSearchValue(value);
+    setActiveIndex(0);
+    setIsResultsOpen(true);
     onSearch(value);
   };
 
+  const openResult = (result: CodeSearchResult) => {
+    setIsResultsOpen(false);
+    router.push(`/component/${result.id}`);
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      setIsResultsOpen(false);
+      return;
+    }
+    if (!showResults || !results?.length) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((highlightedIndex + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((highlightedIndex - 1 + results.length) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      openResult(results[highlightedIndex]);
+    }
+  };
+
   return (
     <header className="sticky top-0 z-50 w-full border-b border-border/40 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 shadow-sm">
       <div className="flex h-14 items-center gap-3 px-6">
@@ -51,12 +99,28 @@ export function TopBar({
           <div className="relative w-full max-w-xl">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
             <Input
+              ref={searchInputRef}
               type="search"
-              placeholder="Search components..."
+              placeholder="Search components and code... (Ctrl+K)"
               className="pl-9 h-9 bg-muted/50 border-border/50 focus-visible:ring-2 w-full text-sm"
               value={searchValue}
               onChange={handleSearchChange}
+              onFocus={() => setIsResultsOpen(true)}
+              onBlur={() => setIsResultsOpen(false)}
+              onKeyDown={handleSearchKeyDown}
+              aria-expanded={showResults}
+              aria-autocomplete="list"
             />
+            {showResults && (
+              <CodeSearchResults
+                query={debouncedSearch}
+                results={results}
+                isLoading={isFetching}
+                activeIndex={highlightedIndex}
+                onActiveIndexChange={setActiveIndex}
+                onSelect={openResult}
+              />
+            )}
           </div>
         </div>
 
@@ -64,23 +128,25 @@ export function TopBar({
           <UserProfile />
           <ThemeToggle />
 
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button 
-                  onClick={onAddComponent} 
-                  size="sm" 
-                  className="h-9 px-3"
-                >
-                  <Plus className="h-4 w-4 mr-1.5" />
-                  <span>Add Component</span>
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Add new component (Ctrl+N)</p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+          {onAddComponent && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button 
+                    onClick={onAddComponent} 
+                    size="sm" 
+                    className="h-9 px-3"
+                  >
+                    <Plus className="h-4 w-4 mr-1.5" />
+                    <span>Add Component</span>
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Add new component (Ctrl+N)</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
 
           <div className="flex items-center border border-border/50 rounded-md overflow-hidden">
             <TooltipProvider>
@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { Eye } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { CodeEditor } from "@/components/editor/code-editor";
+import { LivePreview } from "@/components/preview/live-preview";
+import {
+  getFrameworkColor,
+  getFrameworkLabel,
+  type Framework,
+  type Language,
+} from "@/lib/detect-framework";
+import { cn } from "@/lib/utils";
+
+interface SharedComponentViewProps {
+  component: { title: string; description: string | null; framework: string };
+  version: {
+    version: number;
+    files: { id: string; filename: string; language: string; code: string }[];
+  };
+  isPinned: boolean;
+}
+
+// What a share link shows: the live preview and the code, without any editing UI
+export function SharedComponentView({ component, version, isPinned }: SharedComponentViewProps) {
+  const [activeFileId, setActiveFileId] = useState(version.files[0]?.id);
+  const activeFile = version.files.find((f) => f.id === activeFileId) ?? version.files[0];
+  const framework = component.framework as Framework;
+
+  return (
+    <div className="h-screen flex flex-col">
+      <header className="flex items-center gap-3 border-b px-4 py-3">
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <h1 className="font-semibold truncate">{component.title}</h1>
+            <Badge variant="outline" className={cn("text-xs", getFrameworkColor(framework))}>
+              {getFrameworkLabel(framework)}
+            </Badge>
+            <Badge variant="secondary" className="text-xs">
+              v{version.version}
+              {!isPinned && " · latest"}
+            </Badge>
+          </div>
+          {component.description && (
+            <p className="text-sm text-muted-foreground truncate">{component.description}</p>
+          )}
+        </div>
+        <span className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+          <Eye className="h-3.5 w-3.5" />
+          Read-only
+        </span>
+      </header>
+
+      <div className="flex-1 min-h-0 grid grid-rows-2 lg:grid-rows-1 lg:grid-cols-2">
+        <div className="min-h-0 flex flex-col border-b lg:border-b-0 lg:border-r">
+          <div className="flex gap-1 overflow-x-auto border-b px-2 py-1">
+            {version.files.map((file) => (
+              <button
+                key={file.id}
+                type="button"
+                onClick={() => setActiveFileId(file.id)}
+                className={cn(
+                  "px-3 py-1 text-sm rounded-md whitespace-nowrap transition-colors",
+                  file.id === activeFile?.id
+                    ? "bg-muted text-foreground"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+              >
+                {file.filename}
+              </button>
+            ))}
+          </div>
+          {activeFile && (
+            <CodeEditor
+              key={activeFile.id}
+              value={activeFile.code}
+              onChange={() => {}}
+              language={activeFile.language as Language}
+              className="flex-1 min-h-0"
+              readOnly
+            />
+          )}
+        </div>
+        <LivePreview files={version.files} framework={framework} className="min-h-0" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from "react";
+import { Tag } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TagInput } from "@/components/tags/tag-input";
+import { trpc } from "@/lib/trpc";
+
+interface ComponentTagsEditorProps {
+  componentId: string;
+  tags: { tag: { id: string; name: string } }[];
+  canEdit: boolean;
+}
+
+// Tag chips for the Playground header, with a dialog to edit them
+export function ComponentTagsEditor({ componentId, tags, canEdit }: ComponentTagsEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<string[]>([]);
+  const utils = trpc.useUtils();
+  const names = tags.map((t) => t.tag.name);
+
+  const updateMutation = trpc.component.update.useMutation({
+    onSuccess: () => {
+      utils.component.getById.invalidate(componentId);
+      utils.component.list.invalidate();
+      utils.tag.list.invalidate();
+      setIsOpen(false);
+    },
+  });
+
+  if (!canEdit && names.length === 0) return null;
+
+  const openEditor = () => {
+    setDraft(names);
+    updateMutation.reset();
+    setIsOpen(true);
+  };
+
+  return (
+    <>
+      <div className="hidden lg:flex items-center gap-1 min-w-0">
+        {names.map((name) => (
+          <Badge key={name} variant="secondary" className="text-xs gap-1 shrink-0">
+            <Tag className="h-3 w-3" />
+            {name}
+          </Badge>
+        ))}
+        {canEdit && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1.5 text-xs text-muted-foreground"
+            onClick={openEditor}
+            title="Edit tags"
+          >
+            <Tag className="h-3 w-3 mr-1" />
+            {names.length === 0 ? "Add tags" : "Edit"}
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tags</DialogTitle>
+            <DialogDescription>
+              Tags are shared across the library. Press Enter or comma to add one.
+            </DialogDescription>
+          </DialogHeader>
+
+          <TagInput value={draft} onChange={setDraft} />
+
+          {updateMutation.error && (
+            <p className="text-sm text-destructive">{updateMutation.error.message}</p>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsOpen(false)} disabled={updateMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateMutation.mutate({ id: componentId, tags: draft })}
+              disabled={updateMutation.isPending}
+            >
+              {updateMutation.isPending ? "Saving..." : "Save Tags"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import { Tag, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { MAX_TAGS_PER_COMPONENT, normalizeTagName, validateTagName } from "@/lib/tags";
+
+const MAX_SUGGESTIONS = 8;
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  disabled?: boolean;
+  className?: string;
+  id?: string;
+}
+
+// Chip input with autocomplete from the library's existing tags
+export function TagInput({
+  value,
+  onChange,
+  placeholder = "Add tags...",
+  disabled = false,
+  className,
+  id,
+}: TagInputProps) {
+  const [query, setQuery] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { data: allTags = [] } = trpc.tag.list.useQuery(undefined, { enabled: isFocused });
+
+  const normalizedQuery = normalizeTagName(query);
+  const suggestions = allTags
+    .filter((tag) => !value.includes(tag.name) && tag.name.includes(normalizedQuery))
+    // Prefix matches first, then the most used tags
+    .sort(
+      (a, b) =>
+        Number(b.name.startsWith(normalizedQuery)) - Number(a.name.startsWith(normalizedQuery)) ||
+        b.componentCount - a.componentCount
+    )
+    .slice(0, MAX_SUGGESTIONS);
+  const highlightedIndex = Math.min(activeIndex, Math.max(suggestions.length - 1, 0));
+  const showSuggestions = isFocused && suggestions.length > 0;
+
+  const addTag = (name: string) => {
+    const normalized = normalizeTagName(name);
+    const validationError = validateTagName(normalized);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    if (value.length >= MAX_TAGS_PER_COMPONENT) {
+      setError(`At most ${MAX_TAGS_PER_COMPONENT} tags`);
+      return;
+    }
+    if (!value.includes(normalized)) onChange([...value, normalized]);
+    setQuery("");
+    setError(null);
+    setActiveIndex(0);
+  };
+
+  const removeTag = (name: string) => {
+    onChange(value.filter((tag) => tag !== name));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      if (!query.trim()) return;
+      e.preventDefault();
+      // Enter picks the highlighted suggestion, comma always takes the typed text
+      addTag(e.key === "Enter" && showSuggestions ? suggestions[highlightedIndex].name : query);
+    } else if (e.key === "Backspace" && !query && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === "ArrowDown" && showSuggestions) {
+      e.preventDefault();
+      setActiveIndex((highlightedIndex + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp" && showSuggestions) {
+      e.preventDefault();
+      setActiveIndex((highlightedIndex - 1 + suggestions.length) % suggestions.length);
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <div
+        className={cn(
+          "flex flex-wrap items-center gap-1 min-h-9 w-full rounded-md border border-input bg-transparent dark:bg-input/30 px-2 py-1 text-sm shadow-xs",
+          isFocused && "ring-[3px] ring-ring/50 border-ring",
+          disabled && "opacity-50 pointer-events-none"
+        )}
+      >
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1 pr-1">
+            <Tag className="h-3 w-3" />
+            {tag}
+            <button
+              type="button"
+              className="rounded-sm opacity-70 hover:opacity-100"
+              onClick={() => removeTag(tag)}
+              title={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          id={id}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setError(null);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            if (query.trim()) addTag(query);
+          }}
+          placeholder={value.length === 0 ? placeholder : undefined}
+          disabled={disabled}
+          className="flex-1 min-w-24 bg-transparent outline-none placeholder:text-muted-foreground h-7"
+        />
+      </div>
+
+      {showSuggestions && (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-popover text-popover-foreground shadow-md py-1 text-sm">
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              // Keep focus in the input so blur does not commit the partial text
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => addTag(tag.name)}
+              className={cn(
+                "flex items-center gap-2 px-2 py-1 cursor-pointer",
+                index === highlightedIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <Tag className="h-3 w-3 text-muted-foreground" />
+              <span className="truncate">{tag.name}</span>
+              <span className="ml-auto text-xs text-muted-foreground">{tag.componentCount}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-1 text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
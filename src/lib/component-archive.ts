@@ -0,0 +1,152 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { z } from "zod";
+
+// Zip layout of a single exported component:
+//   vault.json              manifest (metadata, collections, file list per version)
+//   files/<filename>        files of the exported version
+//   history/v<n>/<filename> files of every active version, when exported with history
+// Shared by the export/import UI (which builds and reads the zip) and the
+// component router (which produces and accepts the unzipped archive).
+
+export const COMPONENT_ARCHIVE_FORMAT = "vault-ui/component";
+export const COMPONENT_ARCHIVE_VERSION = 1;
+export const MANIFEST_FILENAME = "vault.json";
+
+const archiveFileSchema = z.object({
+  filename: z.string().min(1),
+  language: z.string(),
+  order: z.number().int().default(0),
+  code: z.string(),
+});
+
+const archiveVersionSchema = z.object({
+  version: z.number().int().positive(),
+  message: z.string().nullish(),
+  createdAt: z.coerce.date().optional(),
+  files: z.array(archiveFileSchema).min(1),
+});
+
+export const componentArchiveSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().nullish(),
+  framework: z.string(),
+  language: z.string(),
+  status: z.string().default("experiment"),
+  isRenderable: z.boolean().default(true),
+  packageInstallCommand: z.string().nullish(),
+  coverImage: z.string().nullish(),
+  collections: z.array(z.object({ name: z.string(), slug: z.string() })).default([]),
+  tags: z.array(z.string()).default([]),
+  // The version that was chosen for export
+  version: archiveVersionSchema,
+  // Every active version, oldest first; only present when exported with history
+  history: z.array(archiveVersionSchema).optional(),
+});
+
+export type ComponentArchive = z.infer<typeof componentArchiveSchema>;
+type ArchiveVersion = z.infer<typeof archiveVersionSchema>;
+
+// In the manifest each file points at its path in the zip instead of carrying the code
+const manifestFileSchema = archiveFileSchema.omit({ code: true }).extend({ path: z.string() });
+const manifestVersionSchema = archiveVersionSchema.extend({
+  files: z.array(manifestFileSchema).min(1),
+});
+
+const manifestSchema = z.object({
+  format: z.literal(COMPONENT_ARCHIVE_FORMAT),
+  formatVersion: z.number().int().max(COMPONENT_ARCHIVE_VERSION, {
+    message: "This archive was created by a newer version of VaultUI",
+  }),
+  exportedAt: z.string().optional(),
+  component: componentArchiveSchema.omit({ version: true, history: true }),
+  version: manifestVersionSchema,
+  history: z.array(manifestVersionSchema).optional(),
+});
+
+// Filenames are user-chosen; keep them inside their folder in the zip
+function toArchivePath(folder: string, filename: string) {
+  const safeName = filename.replace(/\\/g, "/").split("/").filter((part) => part && part !== "..").join("/");
+  return `${folder}/${safeName || "file"}`;
+}
+
+export function createComponentArchive(archive: ComponentArchive): Uint8Array {
+  const entries: Record<string, Uint8Array> = {};
+
+  const addVersion = (version: ArchiveVersion, folder: string) => ({
+    version: version.version,
+    message: version.message ?? null,
+    createdAt: version.createdAt?.toISOString(),
+    files: version.files.map(({ code, ...file }, index) => {
+      let path = toArchivePath(folder, file.filename);
+      // Two files with the same name would overwrite each other in the zip
+      if (entries[path]) path = toArchivePath(`${folder}/${index}`, file.filename);
+      entries[path] = strToU8(code);
+      return { ...file, path };
+    }),
+  });
+
+  const { version, history, ...component } = archive;
+  const manifest = {
+    format: COMPONENT_ARCHIVE_FORMAT,
+    formatVersion: COMPONENT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    component,
+    version: addVersion(version, "files"),
+    ...(history ? { history: history.map((v) => addVersion(v, `history/v${v.version}`)) } : {}),
+  };
+  entries[MANIFEST_FILENAME] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return zipSync(entries);
+}
+
+/**
+ * Reads a zip produced by createComponentArchive. Throws an Error with a
+ * message suitable for the user when the file is not a valid archive.
+ */
+export function readComponentArchive(data: Uint8Array): ComponentArchive {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data);
+  } catch {
+    throw new Error("The file is not a valid zip archive");
+  }
+
+  const manifestData = entries[MANIFEST_FILENAME];
+  if (!manifestData) {
+    throw new Error(`The archive has no ${MANIFEST_FILENAME} manifest`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(strFromU8(manifestData));
+  } catch {
+    throw new Error(`${MANIFEST_FILENAME} is not valid JSON`);
+  }
+
+  const parsed = manifestSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid ${MANIFEST_FILENAME}: ${issue.path.join(".") || "manifest"} - ${issue.message}`);
+  }
+
+  const readVersion = (version: z.infer<typeof manifestVersionSchema>): ArchiveVersion => ({
+    ...version,
+    files: version.files.map(({ path, ...file }) => {
+      const content = entries[path];
+      if (!content) throw new Error(`The archive is missing ${path}`);
+      return { ...file, code: strFromU8(content) };
+    }),
+  });
+
+  const { component, version, history } = parsed.data;
+  return {
+    ...component,
+    version: readVersion(version),
+    ...(history ? { history: history.map(readVersion) } : {}),
+  };
+}
+
+export function getArchiveFilename(title: string, version: number) {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "component";
+  return `${slug}-v${version}.zip`;
+}
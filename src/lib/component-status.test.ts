@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  canTransition,
+  COMPONENT_STATUSES,
+  getStatusLabel,
+  isComponentStatus,
+  isVersionApproved,
+} from "./component-status";
+
+describe("canTransition", () => {
+  it("allows the workflow's forward moves", () => {
+    expect(canTransition("experiment", "in_review")).toBe(true);
+    expect(canTransition("in_review", "ready")).toBe(true);
+    expect(canTransition("ready", "in_review")).toBe(true);
+    expect(canTransition("in_review", "experiment")).toBe(true);
+  });
+
+  it("does not skip review on the way to ready", () => {
+    expect(canTransition("experiment", "ready")).toBe(false);
+    expect(canTransition("deprecated", "ready")).toBe(false);
+  });
+
+  it("lets every live status be deprecated and only revives to experiment", () => {
+    for (const status of ["experiment", "in_review", "ready"] as const) {
+      expect(canTransition(status, "deprecated")).toBe(true);
+    }
+    expect(canTransition("deprecated", "experiment")).toBe(true);
+    expect(canTransition("deprecated", "in_review")).toBe(false);
+  });
+
+  it("never treats staying on a status as a transition", () => {
+    for (const status of COMPONENT_STATUSES) {
+      expect(canTransition(status, status)).toBe(false);
+    }
+  });
+
+  it("only lets unknown legacy statuses reset to experiment", () => {
+    expect(canTransition("draft", "experiment")).toBe(true);
+    expect(canTransition("draft", "in_review")).toBe(false);
+    expect(canTransition("draft", "ready")).toBe(false);
+    expect(canTransition("", "deprecated")).toBe(false);
+  });
+});
+
+describe("isComponentStatus", () => {
+  it("accepts known statuses only", () => {
+    expect(isComponentStatus("ready")).toBe(true);
+    expect(isComponentStatus("Ready")).toBe(false);
+    expect(isComponentStatus(undefined)).toBe(false);
+  });
+});
+
+describe("isVersionApproved", () => {
+  it("needs an approval and no change requests", () => {
+    expect(isVersionApproved([])).toBe(false);
+    expect(isVersionApproved([{ decision: "pending" }])).toBe(false);
+    expect(isVersionApproved([{ decision: "approved" }, { decision: "pending" }])).toBe(true);
+    expect(isVersionApproved([{ decision: "approved" }, { decision: "changes_requested" }])).toBe(false);
+  });
+});
+
+describe("getStatusLabel", () => {
+  it("labels known statuses and passes unknown ones through", () => {
+    expect(getStatusLabel("in_review")).toBe("In review");
+    expect(getStatusLabel("draft")).toBe("draft");
+  });
+});
@@ -0,0 +1,59 @@
+// Review workflow rules shared by the review router, bulk actions and the UI
+
+export const COMPONENT_STATUSES = ["experiment", "in_review", "ready", "deprecated"] as const;
+
+export type ComponentStatus = (typeof COMPONENT_STATUSES)[number];
+
+// Statuses each status can move to. Entering in_review always goes through a
+// review request, and ready additionally needs an approved version.
+const STATUS_TRANSITIONS: Record<ComponentStatus, ComponentStatus[]> = {
+  experiment: ["in_review", "deprecated"],
+  in_review: ["experiment", "ready", "deprecated"],
+  ready: ["in_review", "deprecated"],
+  deprecated: ["experiment"],
+};
+
+export const REVIEW_DECISIONS = ["pending", "approved", "changes_requested"] as const;
+
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number];
+
+export function isComponentStatus(value: unknown): value is ComponentStatus {
+  return typeof value === "string" && (COMPONENT_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransition(from: string, to: ComponentStatus) {
+  // Unknown legacy statuses can only be reset to experiment
+  if (!isComponentStatus(from)) return to === "experiment";
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * A version is approved once at least one reviewer approved it and nobody
+ * has requested changes. Pending reviews don't block approval.
+ */
+export function isVersionApproved(reviews: { decision: string }[]) {
+  return (
+    reviews.some((r) => r.decision === "approved") &&
+    !reviews.some((r) => r.decision === "changes_requested")
+  );
+}
+
+export function getStatusLabel(status: string): string {
+  const labels: Record<ComponentStatus, string> = {
+    experiment: "Experiment",
+    in_review: "In review",
+    ready: "Ready",
+    deprecated: "Deprecated",
+  };
+  return isComponentStatus(status) ? labels[status] : status;
+}
+
+export function getStatusColor(status: string): string {
+  const colors: Record<ComponentStatus, string> = {
+    experiment: "bg-gray-500/10 text-gray-500 border-gray-500/20",
+    in_review: "bg-amber-500/10 text-amber-500 border-amber-500/20",
+    ready: "bg-green-500/10 text-green-500 border-green-500/20",
+    deprecated: "bg-red-500/10 text-red-500 border-red-500/20",
+  };
+  return isComponentStatus(status) ? colors[status] : colors.experiment;
+}
@@ -462,3 +462,54 @@ export function getAutoDetectedPackages(imports: string[]): string[] {
     return isValidNpmPackage(imp) && isBrowserSafePackage(imp);
   });
 }
+
+/**
+ * Base package of an import path: "gsap/ScrollTrigger" -> "gsap",
+ * "@scope/pkg/sub" -> "@scope/pkg"
+ */
+export function getPackageName(importPath: string): string {
+  const parts = importPath.split("/");
+  return importPath.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function splitPackageSpec(spec: string): [string, string] {
+  const at = spec.lastIndexOf("@");
+  if (at > 0) return [spec.slice(0, at), spec.slice(at + 1) || "latest"];
+  return [spec, "latest"];
+}
+
+/**
+ * Read the packages out of a component's install command, e.g.
+ * "npm i framer-motion clsx@2", "pnpm add -D @types/three" or
+ * "npx shadcn@latest add button card" (the latter become registry dependencies)
+ */
+export function parseInstallCommand(command: string) {
+  const dependencies: Record<string, string> = {};
+  const devDependencies: Record<string, string> = {};
+  const registryDependencies: string[] = [];
+
+  for (const segment of command.split(/&&|;|\n/)) {
+    const tokens = segment.trim().split(/\s+/);
+
+    // npx shadcn add ..., bunx shadcn add ..., pnpm dlx shadcn@latest add ...
+    const runner =
+      tokens[0] === "npx" || tokens[0] === "bunx" ? tokens.slice(1) : tokens[1] === "dlx" ? tokens.slice(2) : [];
+    if (/^shadcn(-ui)?(@\S*)?$/.test(runner[0] ?? "") && runner[1] === "add") {
+      registryDependencies.push(...runner.slice(2).filter((t) => !t.startsWith("-")));
+      continue;
+    }
+
+    if (!["npm", "pnpm", "yarn", "bun"].includes(tokens[0])) continue;
+    if (!["install", "i", "add"].includes(tokens[1])) continue;
+
+    const isDev = tokens.some((t) => t === "-D" || t === "--save-dev" || t === "--dev");
+    for (const token of tokens.slice(2)) {
+      if (token.startsWith("-")) continue;
+      const [name, version] = splitPackageSpec(token);
+      if (!isBrowserSafePackage(name)) continue;
+      (isDev ? devDependencies : dependencies)[name] = version;
+    }
+  }
+
+  return { dependencies, devDependencies, registryDependencies };
+}
@@ -0,0 +1,17 @@
+// Saves generated content (e.g. a zip built in the browser) as a file download
+export function downloadFile(
+  data: string | Uint8Array,
+  filename: string,
+  type = "application/octet-stream"
+) {
+  // Copying the bytes guarantees an ArrayBuffer-backed view, which Blob requires
+  const blob = new Blob([typeof data === "string" ? data : new Uint8Array(data)], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { getEmbedPath, getEmbedSnippet, parseEmbedOptions } from "./embed";
+
+function parse(query: string) {
+  return parseEmbedOptions(new URLSearchParams(query));
+}
+
+describe("parseEmbedOptions", () => {
+  it("defaults to a responsive dark preview with chrome", () => {
+    expect(parse("")).toEqual({
+      width: null,
+      height: null,
+      theme: "dark",
+      version: undefined,
+      hideChrome: false,
+    });
+  });
+
+  it("uses a device's viewport, matching its name loosely", () => {
+    expect(parse("device=iphone-12-pro")).toMatchObject({ width: 390, height: 844 });
+    expect(parse("device=iPhone%2012%20Pro")).toMatchObject({ width: 390, height: 844 });
+  });
+
+  it("ignores unknown devices and the responsive device", () => {
+    expect(parse("device=toaster")).toMatchObject({ width: null, height: null });
+    expect(parse("device=responsive")).toMatchObject({ width: null, height: null });
+  });
+
+  it("lets an explicit size override the device", () => {
+    expect(parse("device=desktop&width=600")).toMatchObject({ width: 600, height: 800 });
+  });
+
+  it("clamps sizes and ignores ones that aren't whole numbers", () => {
+    expect(parse("width=10&height=99999")).toMatchObject({ width: 120, height: 4096 });
+    expect(parse("width=abc&height=12.5")).toMatchObject({ width: null, height: null });
+  });
+
+  it("accepts only the light theme as an alternative", () => {
+    expect(parse("theme=light").theme).toBe("light");
+    expect(parse("theme=blue").theme).toBe("dark");
+  });
+
+  it("accepts positive whole version numbers only", () => {
+    expect(parse("version=3").version).toBe(3);
+    expect(parse("version=0").version).toBeUndefined();
+    expect(parse("version=-1").version).toBeUndefined();
+    expect(parse("version=1.5").version).toBeUndefined();
+    expect(parse("version=latest").version).toBeUndefined();
+  });
+
+  it("hides the chrome for 1, true or a bare flag", () => {
+    expect(parse("hideChrome=1").hideChrome).toBe(true);
+    expect(parse("hideChrome=true").hideChrome).toBe(true);
+    expect(parse("hideChrome").hideChrome).toBe(true);
+    expect(parse("hideChrome=0").hideChrome).toBe(false);
+  });
+});
+
+describe("getEmbedPath", () => {
+  it("encodes the token", () => {
+    expect(getEmbedPath("abc", "a+b/c")).toBe("/embed/abc?token=a%2Bb%2Fc");
+  });
+});
+
+describe("getEmbedSnippet", () => {
+  it("escapes the url and title", () => {
+    const snippet = getEmbedSnippet("https://x.test/embed/1?token=a&b", 'Say "hi" <b>');
+    expect(snippet).toContain('src="https://x.test/embed/1?token=a&amp;b"');
+    expect(snippet).toContain('title="Say &quot;hi&quot; &lt;b&gt;"');
+  });
+});
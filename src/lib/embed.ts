@@ -0,0 +1,193 @@
+import {
+  DEVICES,
+  generateMultiFileHtmlDocument,
+  type ComponentFile,
+  type PreviewTheme,
+} from "@/lib/preview-document";
+import type { Framework } from "@/lib/detect-framework";
+
+// Embeddable previews: /embed/<componentId>?token=<share token>
+//   device=<name>        a Playground device, e.g. "iphone-12-pro" (default responsive)
+//   width=, height=      explicit viewport size in px, overriding the device
+//   theme=dark|light     page background behind the component (default dark)
+//   version=<number>     an older version; signed-in embeds only, share tokens
+//                        always show the version their link grants
+//   hideChrome=1         hide the title bar
+// The page posts { type: EMBED_RESIZE_MESSAGE, height } to its host whenever
+// its height changes so hosts can size the iframe to fit.
+
+export const EMBED_RESIZE_MESSAGE = "vault-embed:resize";
+
+const MIN_SIZE = 120;
+const MAX_SIZE = 4096;
+// Height of an auto-sized responsive preview before its content is measured
+const INITIAL_HEIGHT = 320;
+
+export interface EmbedOptions {
+  width: number | null;
+  height: number | null;
+  theme: PreviewTheme;
+  version?: number;
+  hideChrome: boolean;
+}
+
+function toDeviceSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+function parseSize(value: string | null) {
+  const size = Number(value);
+  if (!value || !Number.isInteger(size)) return null;
+  return Math.min(Math.max(size, MIN_SIZE), MAX_SIZE);
+}
+
+export function parseEmbedOptions(params: URLSearchParams): EmbedOptions {
+  const deviceParam = params.get("device");
+  const device = deviceParam
+    ? DEVICES.find((d) => toDeviceSlug(d.name) === toDeviceSlug(deviceParam))
+    : undefined;
+  const version = Number(params.get("version"));
+
+  return {
+    width: parseSize(params.get("width")) ?? (typeof device?.width === "number" ? device.width : null),
+    height: parseSize(params.get("height")) ?? (typeof device?.height === "number" ? device.height : null),
+    theme: params.get("theme") === "light" ? "light" : "dark",
+    version: Number.isInteger(version) && version > 0 ? version : undefined,
+    hideChrome: ["", "1", "true"].includes(params.get("hideChrome") ?? "false"),
+  };
+}
+
+export function getEmbedPath(componentId: string, token: string) {
+  return `/embed/${componentId}?token=${encodeURIComponent(token)}`;
+}
+
+export function getEmbedSnippet(url: string, title: string) {
+  return `<iframe src="${escapeHtml(url)}" title="${escapeHtml(title)}" width="100%" height="${INITIAL_HEIGHT}" style="border:0" loading="lazy"></iframe>`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+const CHROME_COLORS: Record<PreviewTheme, { background: string; color: string; muted: string; border: string }> = {
+  dark: { background: "#0a0a0a", color: "#fafafa", muted: "#a1a1aa", border: "#27272a" },
+  light: { background: "#ffffff", color: "#0a0a0a", muted: "#71717a", border: "#e4e4e7" },
+};
+
+/**
+ * The embed page: an optional title bar above the preview document in a
+ * sandboxed iframe. Responsive previews without an explicit height grow to
+ * fit their content; device sizes keep the device's viewport.
+ */
+export function createEmbedPage({
+  title,
+  version,
+  files,
+  framework,
+  options,
+  openUrl,
+}: {
+  title: string;
+  version: number;
+  files: ComponentFile[];
+  framework: Framework;
+  options: EmbedOptions;
+  openUrl: string;
+}) {
+  const colors = CHROME_COLORS[options.theme];
+  const previewHtml = generateMultiFileHtmlDocument(
+    files,
+    framework,
+    options.width ?? undefined,
+    options.height ?? undefined,
+    !options.width,
+    options.theme
+  );
+  const autoHeight = options.height === null;
+
+  const chrome = options.hideChrome
+    ? ""
+    : `<header>
+      <span class="title">${escapeHtml(title)}</span>
+      <span class="muted">v${version}</span>
+      <a href="${escapeHtml(openUrl)}" target="_blank" rel="noopener">Open in Vault</a>
+    </header>`;
+
+  return `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(title)}</title>
+    <style>
+      html, body { margin: 0; padding: 0; background: ${colors.background}; color: ${colors.color}; }
+      body { font: 12px/1.4 system-ui, -apple-system, Segoe UI, Roboto, sans-serif; }
+      header { display: flex; align-items: center; gap: 8px; padding: 6px 12px; border-bottom: 1px solid ${colors.border}; }
+      header .title { font-weight: 600; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+      header .muted { color: ${colors.muted}; }
+      header a { margin-left: auto; color: ${colors.muted}; text-decoration: none; white-space: nowrap; }
+      header a:hover { color: ${colors.color}; }
+      #preview {
+        display: block;
+        border: 0;
+        margin: 0 auto;
+        width: ${options.width ? `${options.width}px` : "100%"};
+        max-width: 100%;
+        height: ${options.height ?? INITIAL_HEIGHT}px;
+      }
+    </style>
+  </head>
+  <body>
+    ${chrome}
+    <iframe
+      id="preview"
+      title="${escapeHtml(title)}"
+      sandbox="allow-scripts allow-same-origin allow-forms allow-popups allow-popups-to-escape-sandbox"
+      referrerpolicy="no-referrer"
+      srcdoc="${escapeHtml(previewHtml)}"
+    ></iframe>
+    <script>
+      (function () {
+        const FRAME = document.getElementById('preview');
+        const AUTO_HEIGHT = ${JSON.stringify(autoHeight)};
+        const MIN_HEIGHT = ${MIN_SIZE};
+        let lastHeight = 0;
+
+        // The preview document pins #root to the viewport, so its content
+        // height is the tallest child's scrollHeight rather than the body's.
+        function measureContent() {
+          try {
+            const root = FRAME.contentDocument && FRAME.contentDocument.getElementById('root');
+            if (!root) return null;
+            let height = 0;
+            for (const child of Array.from(root.children)) height = Math.max(height, child.scrollHeight);
+            return Math.max(height, MIN_HEIGHT);
+          } catch {
+            return null;
+          }
+        }
+
+        function update() {
+          if (AUTO_HEIGHT) {
+            const content = measureContent();
+            if (content && content !== FRAME.offsetHeight) FRAME.style.height = content + 'px';
+          }
+          const height = document.body.offsetHeight;
+          if (height === lastHeight || window.parent === window) return;
+          lastHeight = height;
+          window.parent.postMessage({ type: ${JSON.stringify(EMBED_RESIZE_MESSAGE)}, height }, '*');
+        }
+
+        // Content can grow without resizing any element we could observe
+        // (overflow is clipped), so poll instead of using a ResizeObserver.
+        FRAME.addEventListener('load', update);
+        setInterval(update, 300);
+      })();
+    </script>
+  </body>
+</html>`;
+}
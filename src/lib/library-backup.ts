@@ -0,0 +1,146 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { z } from "zod";
+
+// Zip layout of a whole-library backup:
+//   manifest.json  format, format version, export time and record counts
+//   library.json   every collection and component with versions, files and labels
+// Ids are the source environment's; restore maps them to new ids where needed.
+
+export const LIBRARY_BACKUP_FORMAT = "vault-ui/library";
+export const LIBRARY_BACKUP_VERSION = 1;
+
+const MANIFEST_PATH = "manifest.json";
+const LIBRARY_PATH = "library.json";
+
+const backupFileSchema = z.object({
+  filename: z.string().min(1),
+  language: z.string(),
+  code: z.string(),
+  order: z.number().int(),
+});
+
+const backupVersionSchema = z.object({
+  id: z.string(),
+  version: z.number().int().positive(),
+  message: z.string().nullish(),
+  createdAt: z.coerce.date(),
+  archivedAt: z.coerce.date().nullish(),
+  restoredFromId: z.string().nullish(),
+  createdByEmail: z.string().nullish(),
+  files: z.array(backupFileSchema),
+});
+
+const backupComponentSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1),
+  slug: z.string().min(1).nullish(),
+  description: z.string().nullish(),
+  framework: z.string(),
+  language: z.string(),
+  status: z.string(),
+  isRenderable: z.boolean(),
+  packageInstallCommand: z.string().nullish(),
+  coverImage: z.string().nullish(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  deletedAt: z.coerce.date().nullish(),
+  lastVersionNumber: z.number().int().min(0),
+  forkedFromComponentId: z.string().nullish(),
+  forkedFromVersionId: z.string().nullish(),
+  createdByEmail: z.string().nullish(),
+  collectionIds: z.array(z.string()),
+  tags: z.array(z.string()),
+  labels: z.array(z.object({ name: z.string(), versionId: z.string() })),
+  versions: z.array(backupVersionSchema),
+});
+
+const backupCollectionSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  slug: z.string().min(1),
+  parentId: z.string().nullish(),
+  position: z.number().int(),
+});
+
+export const libraryBackupSchema = z.object({
+  collections: z.array(backupCollectionSchema),
+  components: z.array(backupComponentSchema),
+});
+
+export type LibraryBackup = z.infer<typeof libraryBackupSchema>;
+
+const manifestSchema = z.object({
+  format: z.literal(LIBRARY_BACKUP_FORMAT),
+  formatVersion: z.number().int().max(LIBRARY_BACKUP_VERSION, {
+    message: "This backup was created by a newer version of VaultUI",
+  }),
+  exportedAt: z.string(),
+  counts: z.record(z.string(), z.number()),
+});
+
+export type LibraryBackupManifest = z.infer<typeof manifestSchema>;
+
+export function getBackupCounts(backup: LibraryBackup) {
+  const versions = backup.components.flatMap((c) => c.versions);
+  return {
+    collections: backup.collections.length,
+    components: backup.components.length,
+    versions: versions.length,
+    files: versions.reduce((sum, v) => sum + v.files.length, 0),
+  };
+}
+
+export function createLibraryBackupArchive(backup: LibraryBackup): Uint8Array {
+  const manifest: LibraryBackupManifest = {
+    format: LIBRARY_BACKUP_FORMAT,
+    formatVersion: LIBRARY_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    counts: getBackupCounts(backup),
+  };
+
+  return zipSync({
+    [MANIFEST_PATH]: strToU8(JSON.stringify(manifest, null, 2)),
+    [LIBRARY_PATH]: strToU8(JSON.stringify(backup)),
+  });
+}
+
+/**
+ * Reads a zip produced by createLibraryBackupArchive. Throws an Error with a
+ * message suitable for the user when the file is not a valid backup.
+ */
+export function readLibraryBackupArchive(data: Uint8Array) {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data);
+  } catch {
+    throw new Error("The file is not a valid zip archive");
+  }
+
+  const readJson = (path: string) => {
+    const content = entries[path];
+    if (!content) throw new Error(`The backup has no ${path}`);
+    try {
+      return JSON.parse(strFromU8(content)) as unknown;
+    } catch {
+      throw new Error(`${path} is not valid JSON`);
+    }
+  };
+
+  const manifest = manifestSchema.safeParse(readJson(MANIFEST_PATH));
+  if (!manifest.success) {
+    const issue = manifest.error.issues[0];
+    throw new Error(`Invalid ${MANIFEST_PATH}: ${issue.path.join(".") || "manifest"} - ${issue.message}`);
+  }
+
+  const library = libraryBackupSchema.safeParse(readJson(LIBRARY_PATH));
+  if (!library.success) {
+    const issue = library.error.issues[0];
+    throw new Error(`Invalid ${LIBRARY_PATH}: ${issue.path.join(".")} - ${issue.message}`);
+  }
+
+  return { manifest: manifest.data, backup: library.data };
+}
+
+export function getBackupFilename(date = new Date()) {
+  return `vault-backup-${date.toISOString().slice(0, 10)}.zip`;
+}
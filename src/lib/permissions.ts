@@ -0,0 +1,41 @@
+// Shared between the tRPC server and client components, so keep this free of
+// server-only imports.
+
+export const ROLES = ["user", "developer", "superadmin"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+const ROLE_RANK: Record<Role, number> = {
+  user: 0,
+  developer: 1,
+  superadmin: 2,
+};
+
+// Minimum role required for each kind of action
+export const PERMISSIONS = {
+  read: "user",
+  write: "developer",
+  share: "developer",
+  archiveVersion: "superadmin",
+  purgeVersion: "superadmin",
+  purgeComponent: "superadmin",
+  deleteCollection: "superadmin",
+  manageTags: "superadmin",
+  manageBackups: "superadmin",
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === "string" && (ROLES as readonly string[]).includes(value);
+}
+
+// Unknown or missing roles are treated as the least privileged role
+export function hasRole(role: string | null | undefined, required: Role) {
+  const rank = isRole(role) ? ROLE_RANK[role] : ROLE_RANK.user;
+  return rank >= ROLE_RANK[required];
+}
+
+export function can(role: string | null | undefined, permission: Permission) {
+  return hasRole(role, PERMISSIONS[permission]);
+}
@@ -0,0 +1,20 @@
+// Share link rules shared by the share router, the share dialog and the public page
+
+export const SHARE_LINK_EXPIRY_DAYS = [1, 7, 30, 90] as const;
+
+export const DEFAULT_SHARE_LINK_EXPIRY_DAYS = 7;
+
+export type ShareLinkStatus = "active" | "expired" | "revoked";
+
+export function getShareLinkStatus(
+  link: { expiresAt: Date; revokedAt: Date | null },
+  now = new Date()
+): ShareLinkStatus {
+  if (link.revokedAt) return "revoked";
+  if (link.expiresAt <= now) return "expired";
+  return "active";
+}
+
+export function getSharePath(token: string) {
+  return `/share/${token}`;
+}
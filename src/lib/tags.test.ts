@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { MAX_TAG_LENGTH, normalizeTagName, normalizeTagNames, validateTagName } from "./tags";
+
+describe("normalizeTagName", () => {
+  it("trims, lowercases and dashes whitespace", () => {
+    expect(normalizeTagName("  Scroll   Animation ")).toBe("scroll-animation");
+    expect(normalizeTagName("React")).toBe("react");
+  });
+
+  it("keeps characters the pattern allows", () => {
+    expect(normalizeTagName("C#")).toBe("c#");
+    expect(normalizeTagName("Next.js")).toBe("next.js");
+  });
+});
+
+describe("validateTagName", () => {
+  it("accepts names that are valid after normalizing", () => {
+    expect(validateTagName(" 3D ")).toBeNull();
+    expect(validateTagName("c++")).toBeNull();
+  });
+
+  it("rejects empty names", () => {
+    expect(validateTagName("   ")).toBe("Tag cannot be empty");
+  });
+
+  it("rejects names over the length limit", () => {
+    expect(validateTagName("a".repeat(MAX_TAG_LENGTH))).toBeNull();
+    expect(validateTagName("a".repeat(MAX_TAG_LENGTH + 1))).toMatch(/at most/);
+  });
+
+  it("rejects disallowed characters and a leading symbol", () => {
+    expect(validateTagName("tag/name")).not.toBeNull();
+    expect(validateTagName("-tag")).not.toBeNull();
+    expect(validateTagName("#tag")).not.toBeNull();
+  });
+});
+
+describe("normalizeTagNames", () => {
+  it("normalizes, de-duplicates and drops invalid names in order", () => {
+    expect(normalizeTagNames(["React", "react ", "", "bad/tag", "Scroll Animation"])).toEqual([
+      "react",
+      "scroll-animation",
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+// Tag rules shared by the tag router and the tag inputs
+
+export const MAX_TAG_LENGTH = 32;
+
+export const MAX_TAGS_PER_COMPONENT = 20;
+
+// Lowercase letters, digits, dashes, dots, + and #, e.g. "scroll-animation", "3d", "c#"
+const TAG_PATTERN = /^[a-z0-9][a-z0-9.+#-]*$/;
+
+// "Scroll Animation " and "scroll-animation" are the same tag
+export function normalizeTagName(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, "-");
+}
+
+// Returns an error message, or null when the name is valid
+export function validateTagName(name: string): string | null {
+  const normalized = normalizeTagName(name);
+  if (!normalized) return "Tag cannot be empty";
+  if (normalized.length > MAX_TAG_LENGTH) {
+    return `Tag must be at most ${MAX_TAG_LENGTH} characters`;
+  }
+  if (!TAG_PATTERN.test(normalized)) {
+    return "Use letters, numbers, dashes, dots, + or #";
+  }
+  return null;
+}
+
+// Normalizes and de-duplicates a list of tag names, dropping invalid ones
+export function normalizeTagNames(names: string[]) {
+  return Array.from(
+    new Set(names.map(normalizeTagName).filter((name) => validateTagName(name) === null))
+  );
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { getNextUntitledTitle } from "./untitled";
+
+describe("getNextUntitledTitle", () => {
+  it("starts at 1", () => {
+    expect(getNextUntitledTitle([])).toBe("Untitled 1");
+  });
+
+  it("continues after the highest number", () => {
+    expect(getNextUntitledTitle(["Untitled 1", "Untitled 2"])).toBe("Untitled 3");
+  });
+
+  it("fills the first gap", () => {
+    expect(getNextUntitledTitle(["Untitled 1", "Untitled 3"])).toBe("Untitled 2");
+  });
+
+  it("treats a bare Untitled as 0", () => {
+    expect(getNextUntitledTitle(["Untitled"])).toBe("Untitled 1");
+  });
+
+  it("ignores titles that only start with Untitled", () => {
+    expect(getNextUntitledTitle(["Untitled 1 copy", "Untitled draft", "untitled 1", "Untitled 01x"])).toBe(
+      "Untitled 1"
+    );
+  });
+});
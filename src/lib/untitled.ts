@@ -0,0 +1,18 @@
+// Default titles for scratchpad components: "Untitled 1", "Untitled 2", ...
+
+// The first free "Untitled N" title given the titles already in use
+export function getNextUntitledTitle(titles: string[]) {
+  // "Untitled" without a number counts as 0, "Untitled 5" as 5
+  const untitledPattern = /^Untitled(?: (\d+))?$/;
+  const taken = new Set(
+    titles.flatMap((title) => {
+      const match = title.match(untitledPattern);
+      return match ? [match[1] ? parseInt(match[1], 10) : 0] : [];
+    })
+  );
+
+  // Fill the first gap, or continue after the highest number
+  let next = 1;
+  while (taken.has(next)) next++;
+  return `Untitled ${next}`;
+}
@@ -0,0 +1,33 @@
+// Usage event types and report periods shared by the usage router and the UI
+
+export const USAGE_EVENT_TYPES = ["view", "copy", "install"] as const;
+
+export type UsageEventType = (typeof USAGE_EVENT_TYPES)[number];
+
+export const USAGE_EVENT_LABELS: Record<UsageEventType, string> = {
+  view: "Views",
+  copy: "Code copies",
+  install: "Install commands",
+};
+
+// Report periods in days
+export const USAGE_PERIODS = [7, 30, 90] as const;
+
+export type UsagePeriod = (typeof USAGE_PERIODS)[number];
+
+export const DEFAULT_USAGE_PERIOD: UsagePeriod = 30;
+
+export type UsageCounts = Record<UsageEventType, number>;
+
+export function emptyUsageCounts(): UsageCounts {
+  return { view: 0, copy: 0, install: 0 };
+}
+
+/**
+ * Change between two periods as a whole percentage, or null when the previous
+ * period had no usage to compare against.
+ */
+export function getUsageTrend(current: number, previous: number) {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 100);
+}
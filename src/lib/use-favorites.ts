@@ -0,0 +1,31 @@
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
+
+// The current user's favorites. Every star toggle reads the same cached query,
+// so starring a component in one place updates it everywhere.
+export function useFavorites() {
+  const utils = trpc.useUtils();
+  const { data: favoriteIds = [] } = trpc.favorite.listIds.useQuery(undefined, {
+    staleTime: 60 * 1000,
+  });
+
+  const setFavoriteMutation = trpc.favorite.set.useMutation({
+    onSuccess: () => {
+      utils.favorite.listIds.invalidate();
+      // Only the Favorites views change, so the rest of the grid is left alone
+      utils.component.list.invalidate({ favoritesOnly: true });
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const isFavorite = (componentId: string) => favoriteIds.includes(componentId);
+
+  return {
+    favoriteIds,
+    isFavorite,
+    toggleFavorite: (componentId: string) =>
+      setFavoriteMutation.mutate({ componentId, favorite: !isFavorite(componentId) }),
+    isToggling: (componentId: string) =>
+      setFavoriteMutation.isPending && setFavoriteMutation.variables?.componentId === componentId,
+  };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+
+interface InfiniteScrollOptions {
+  hasNextPage?: boolean;
+  isFetchingNextPage?: boolean;
+  fetchNextPage?: () => unknown;
+  // Start loading before the sentinel is actually on screen
+  rootMargin?: string;
+}
+
+/**
+ * Loads the next page when a sentinel element scrolls into view.
+ * Attach the returned callback ref to an element placed after the last item.
+ */
+export function useInfiniteScroll({
+  hasNextPage,
+  isFetchingNextPage,
+  fetchNextPage,
+  rootMargin = "400px",
+}: InfiniteScrollOptions) {
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!sentinel || !hasNextPage || isFetchingNextPage || !fetchNextPage) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [sentinel, hasNextPage, isFetchingNextPage, fetchNextPage, rootMargin]);
+
+  return setSentinel;
+}
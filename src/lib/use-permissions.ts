@@ -0,0 +1,21 @@
+import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
+
+// Mirrors the server-side procedure builders so the UI can hide actions the
+// current session is not allowed to perform. The server remains the source of truth.
+export function usePermissions() {
+  const { data: session } = useSession();
+  const role = session?.user?.role;
+
+  return {
+    role,
+    canWrite: can(role, "write"),
+    canShare: can(role, "share"),
+    canArchiveVersion: can(role, "archiveVersion"),
+    canPurgeVersion: can(role, "purgeVersion"),
+    canPurgeComponent: can(role, "purgeComponent"),
+    canDeleteCollection: can(role, "deleteCollection"),
+    canManageTags: can(role, "manageTags"),
+    canManageBackups: can(role, "manageBackups"),
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import { buildHunks, diffFiles, diffLines, summarizeDiff, type DiffableFile } from "./version-diff";
+
+function file(filename: string, code: string, language = "tsx"): DiffableFile {
+  return { filename, language, code };
+}
+
+function numbered(count: number, prefix = "line") {
+  return Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`).join("\n");
+}
+
+describe("diffLines", () => {
+  it("reports identical texts as context only", () => {
+    const lines = diffLines("a\nb", "a\nb");
+    expect(lines.map((l) => l.type)).toEqual(["context", "context"]);
+    expect(lines[1]).toMatchObject({ content: "b", oldLineNumber: 2, newLineNumber: 2 });
+  });
+
+  it("numbers added and removed lines on their own side only", () => {
+    const lines = diffLines("a\nb\nc", "a\nx\nc");
+    expect(lines).toEqual([
+      { type: "context", content: "a", oldLineNumber: 1, newLineNumber: 1 },
+      { type: "remove", content: "b", oldLineNumber: 2, newLineNumber: null },
+      { type: "add", content: "x", oldLineNumber: null, newLineNumber: 2 },
+      { type: "context", content: "c", oldLineNumber: 3, newLineNumber: 3 },
+    ]);
+  });
+
+  it("treats an empty text as having no lines", () => {
+    expect(diffLines("", "")).toEqual([]);
+    expect(diffLines("", "a\nb").map((l) => l.type)).toEqual(["add", "add"]);
+    expect(diffLines("a", "").map((l) => l.type)).toEqual(["remove"]);
+  });
+
+  it("ignores a trailing newline and CRLF line endings", () => {
+    expect(diffLines("a\nb\n", "a\nb").every((l) => l.type === "context")).toBe(true);
+    expect(diffLines("a\r\nb\r\n", "a\nb").every((l) => l.type === "context")).toBe(true);
+  });
+});
+
+describe("buildHunks", () => {
+  it("keeps the requested context around a change", () => {
+    const hunks = buildHunks(diffLines(numbered(20), numbered(20).replace("line 10", "changed")), 2);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 8, oldLines: 5, newStart: 8, newLines: 5 });
+  });
+
+  it("clamps context to the start and end of the file", () => {
+    const hunks = buildHunks(diffLines("a\nb", "x\nb"), 10);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2 });
+  });
+
+  it("merges nearby changes and splits distant ones", () => {
+    const oldText = numbered(30);
+    const near = oldText.replace("line 5\n", "x\n").replace("line 9\n", "y\n");
+    const far = oldText.replace("line 5\n", "x\n").replace("line 25\n", "y\n");
+    expect(buildHunks(diffLines(oldText, near), 3)).toHaveLength(1);
+    expect(buildHunks(diffLines(oldText, far), 3)).toHaveLength(2);
+  });
+
+  it("shows only changed lines with zero context", () => {
+    const hunks = buildHunks(diffLines("a\nb\nc", "a\nx\nc"), 0);
+    expect(hunks[0].lines.map((l) => l.type)).toEqual(["remove", "add"]);
+  });
+
+  it("starts an empty side at the line before it", () => {
+    const [hunk] = buildHunks(diffLines("a\nb", "a\nb\nc"), 0);
+    expect(hunk).toMatchObject({ oldStart: 2, oldLines: 0, newStart: 3, newLines: 1 });
+    expect(buildHunks(diffLines("", "a"), 3)[0]).toMatchObject({ oldStart: 0, oldLines: 0 });
+  });
+
+  it("returns no hunks when nothing changed", () => {
+    expect(buildHunks(diffLines("a\nb", "a\nb"))).toEqual([]);
+  });
+});
+
+describe("diffFiles", () => {
+  it("classifies unchanged, modified, added and removed files", () => {
+    const diff = diffFiles(
+      [file("Same.tsx", "a"), file("Edited.tsx", "a\nb"), file("Gone.css", "body {}", "css")],
+      [file("Same.tsx", "a"), file("Edited.tsx", "a\nc"), file("New.tsx", "export {}")]
+    );
+    const byStatus = Object.fromEntries(diff.map((f) => [f.oldFilename ?? f.newFilename, f.status]));
+    expect(byStatus).toEqual({
+      "Same.tsx": "unchanged",
+      "Edited.tsx": "modified",
+      "Gone.css": "removed",
+      "New.tsx": "added",
+    });
+
+    const added = diff.find((f) => f.status === "added")!;
+    expect(added).toMatchObject({ oldFilename: null, oldCode: "", additions: 1, deletions: 0 });
+    const removed = diff.find((f) => f.status === "removed")!;
+    expect(removed).toMatchObject({ newFilename: null, newCode: "", language: "css", deletions: 1 });
+  });
+
+  it("detects a rename when the contents are mostly the same", () => {
+    const code = numbered(10);
+    const [diff] = diffFiles([file("Old.tsx", code)], [file("New.tsx", code.replace("line 3", "x"))]);
+    expect(diff).toMatchObject({
+      status: "renamed",
+      oldFilename: "Old.tsx",
+      newFilename: "New.tsx",
+      additions: 1,
+      deletions: 1,
+    });
+  });
+
+  it("does not pair dissimilar files or files of another language", () => {
+    const dissimilar = diffFiles([file("Old.tsx", numbered(10))], [file("New.tsx", numbered(10, "other"))]);
+    expect(dissimilar.map((f) => f.status).sort()).toEqual(["added", "removed"]);
+
+    const otherLanguage = diffFiles([file("a.css", "x", "css")], [file("a.scss", "x", "scss")]);
+    expect(otherLanguage.map((f) => f.status).sort()).toEqual(["added", "removed"]);
+  });
+
+  it("treats two empty files as a rename", () => {
+    const [diff] = diffFiles([file("Old.tsx", "")], [file("New.tsx", "")]);
+    expect(diff).toMatchObject({ status: "renamed", additions: 0, deletions: 0, hunks: [] });
+  });
+
+  it("passes contextLines through to the hunks", () => {
+    const oldCode = numbered(20);
+    const newCode = oldCode.replace("line 10", "x");
+    const [narrow] = diffFiles([file("A.tsx", oldCode)], [file("A.tsx", newCode)], { contextLines: 0 });
+    const [wide] = diffFiles([file("A.tsx", oldCode)], [file("A.tsx", newCode)], { contextLines: 5 });
+    expect(narrow.hunks[0].lines).toHaveLength(2);
+    expect(wide.hunks[0].lines).toHaveLength(12);
+  });
+});
+
+describe("summarizeDiff", () => {
+  it("counts changed files and totals their lines", () => {
+    const diff = diffFiles(
+      [file("Same.tsx", "a"), file("Edited.tsx", "a\nb"), file("Gone.tsx", "x\ny")],
+      [file("Same.tsx", "a"), file("Edited.tsx", "a\nc\nd")]
+    );
+    expect(summarizeDiff(diff)).toEqual({ filesChanged: 2, additions: 2, deletions: 3 });
+  });
+});
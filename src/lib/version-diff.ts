@@ -0,0 +1,329 @@
+// Line-level diffing between two sets of component files.
+// Shared by the `version.diff` procedure and the Playground, which diffs the
+// unsaved working copy on the client.
+
+export interface DiffableFile {
+  filename: string;
+  language: string;
+  code: string;
+}
+
+export type DiffLineType = "context" | "add" | "remove";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLineNumber: number | null;
+  newLineNumber: number | null;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export type FileChangeStatus =
+  | "added"
+  | "removed"
+  | "renamed"
+  | "modified"
+  | "unchanged";
+
+export interface FileDiff {
+  status: FileChangeStatus;
+  oldFilename: string | null;
+  newFilename: string | null;
+  language: string;
+  oldCode: string;
+  newCode: string;
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+export interface DiffSummary {
+  filesChanged: number;
+  additions: number;
+  deletions: number;
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Above this edit distance we stop searching and treat the remainder as a
+// full replacement, which keeps memory bounded for huge rewrites.
+const MAX_EDIT_DISTANCE = 2000;
+
+// Removed/added file pairs at least this similar are reported as renames
+const RENAME_SIMILARITY_THRESHOLD = 0.5;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  // A trailing newline does not start a new line
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+type Edit = { type: DiffLineType; oldIndex: number | null; newIndex: number | null };
+
+// Myers O(ND) diff over two line arrays
+function myers(a: string[], b: string[]): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  let v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    const next = v.slice();
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && next[k - 1 + offset] < next[k + 1 + offset])
+          ? next[k + 1 + offset]
+          : next[k - 1 + offset] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      next[k + offset] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, a.length, b.length, offset);
+      }
+    }
+    v = next;
+  }
+
+  return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number, offset: number): Edit[] {
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[k - 1 + offset] < v[k + 1 + offset]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[prevK + offset];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "context", oldIndex: x - 1, newIndex: y - 1 });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: "add", oldIndex: null, newIndex: y - 1 });
+        y--;
+      } else {
+        edits.push({ type: "remove", oldIndex: x - 1, newIndex: null });
+        x--;
+      }
+    }
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Full line-by-line edit script between two texts.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Trim the common prefix and suffix before running the diff proper
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle: Edit[] = myers(middleA, middleB) ?? [
+    ...middleA.map((_, i): Edit => ({ type: "remove", oldIndex: i, newIndex: null })),
+    ...middleB.map((_, i): Edit => ({ type: "add", oldIndex: null, newIndex: i })),
+  ];
+
+  const lines: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    lines.push({ type: "context", content: a[i], oldLineNumber: i + 1, newLineNumber: i + 1 });
+  }
+  for (const edit of middle) {
+    const oldIndex = edit.oldIndex === null ? null : edit.oldIndex + prefix;
+    const newIndex = edit.newIndex === null ? null : edit.newIndex + prefix;
+    lines.push({
+      type: edit.type,
+      content: oldIndex !== null ? a[oldIndex] : b[newIndex!],
+      oldLineNumber: oldIndex === null ? null : oldIndex + 1,
+      newLineNumber: newIndex === null ? null : newIndex + 1,
+    });
+  }
+  for (let i = suffix; i > 0; i--) {
+    lines.push({
+      type: "context",
+      content: a[a.length - i],
+      oldLineNumber: a.length - i + 1,
+      newLineNumber: b.length - i + 1,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Groups an edit script into unified-diff style hunks with surrounding context.
+ */
+export function buildHunks(lines: DiffLine[], contextLines = DEFAULT_CONTEXT_LINES): DiffHunk[] {
+  const ranges: Array<[number, number]> = [];
+
+  lines.forEach((line, index) => {
+    if (line.type === "context") return;
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const firstOld = hunkLines.find((l) => l.oldLineNumber !== null)?.oldLineNumber;
+    const firstNew = hunkLines.find((l) => l.newLineNumber !== null)?.newLineNumber;
+    const oldLines = hunkLines.filter((l) => l.type !== "add").length;
+    const newLines = hunkLines.filter((l) => l.type !== "remove").length;
+
+    return {
+      // Unified diff convention: an empty side starts at the line before it
+      oldStart: firstOld ?? (oldLines === 0 ? precedingLine(lines, start, "old") : 1),
+      oldLines,
+      newStart: firstNew ?? (newLines === 0 ? precedingLine(lines, start, "new") : 1),
+      newLines,
+      lines: hunkLines,
+    };
+  });
+}
+
+function precedingLine(lines: DiffLine[], index: number, side: "old" | "new") {
+  for (let i = index - 1; i >= 0; i--) {
+    const lineNumber = side === "old" ? lines[i].oldLineNumber : lines[i].newLineNumber;
+    if (lineNumber !== null) return lineNumber;
+  }
+  return 0;
+}
+
+// Dice coefficient over matching lines, 0 (disjoint) to 1 (identical)
+function similarity(oldCode: string, newCode: string) {
+  const total = splitLines(oldCode).length + splitLines(newCode).length;
+  if (total === 0) return 1;
+  const matching = diffLines(oldCode, newCode).filter((l) => l.type === "context").length;
+  return (2 * matching) / total;
+}
+
+function buildFileDiff(
+  status: FileChangeStatus,
+  oldFile: DiffableFile | null,
+  newFile: DiffableFile | null,
+  contextLines: number
+): FileDiff {
+  const lines = diffLines(oldFile?.code ?? "", newFile?.code ?? "");
+  return {
+    status,
+    oldFilename: oldFile?.filename ?? null,
+    newFilename: newFile?.filename ?? null,
+    language: (newFile ?? oldFile)!.language,
+    oldCode: oldFile?.code ?? "",
+    newCode: newFile?.code ?? "",
+    additions: lines.filter((l) => l.type === "add").length,
+    deletions: lines.filter((l) => l.type === "remove").length,
+    hunks: buildHunks(lines, contextLines),
+  };
+}
+
+/**
+ * Compares two file sets, matching files by name and detecting renames
+ * between otherwise added/removed files.
+ */
+export function diffFiles(
+  oldFiles: DiffableFile[],
+  newFiles: DiffableFile[],
+  { contextLines = DEFAULT_CONTEXT_LINES }: { contextLines?: number } = {}
+): FileDiff[] {
+  const result: FileDiff[] = [];
+  const newByName = new Map(newFiles.map((f) => [f.filename, f]));
+  const removed: DiffableFile[] = [];
+
+  for (const oldFile of oldFiles) {
+    const newFile = newByName.get(oldFile.filename);
+    if (newFile) {
+      newByName.delete(oldFile.filename);
+      result.push(
+        buildFileDiff(
+          oldFile.code === newFile.code ? "unchanged" : "modified",
+          oldFile,
+          newFile,
+          contextLines
+        )
+      );
+    } else {
+      removed.push(oldFile);
+    }
+  }
+
+  const added = newFiles.filter((f) => newByName.has(f.filename));
+
+  // Pair each removed file with its most similar added file of the same language
+  for (const oldFile of removed) {
+    let bestIndex = -1;
+    let bestScore = RENAME_SIMILARITY_THRESHOLD;
+    added.forEach((candidate, index) => {
+      if (candidate.language !== oldFile.language) return;
+      const score = similarity(oldFile.code, candidate.code);
+      if (score >= bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex >= 0) {
+      const [newFile] = added.splice(bestIndex, 1);
+      result.push(buildFileDiff("renamed", oldFile, newFile, contextLines));
+    } else {
+      result.push(buildFileDiff("removed", oldFile, null, contextLines));
+    }
+  }
+
+  for (const newFile of added) {
+    result.push(buildFileDiff("added", null, newFile, contextLines));
+  }
+
+  return result;
+}
+
+export function summarizeDiff(files: FileDiff[]): DiffSummary {
+  return {
+    filesChanged: files.filter((f) => f.status !== "unchanged").length,
+    additions: files.reduce((sum, f) => sum + f.additions, 0),
+    deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+  };
+}
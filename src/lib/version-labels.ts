@@ -0,0 +1,31 @@
+// Label rules shared by the version router and the label editor
+
+export const MAX_LABEL_LENGTH = 40;
+
+export const MAX_VERSION_MESSAGE_LENGTH = 500;
+
+// Letters, digits, dots, dashes, underscores and "+", e.g. "1.2.0", "beta", "2.0.0-rc.1"
+const LABEL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._+-]*$/;
+
+// Names that already mean something when resolving a version
+const RESERVED_LABELS = ["latest"];
+
+export function normalizeLabelName(name: string) {
+  return name.trim();
+}
+
+// Returns an error message, or null when the name is valid
+export function validateLabelName(name: string): string | null {
+  const normalized = normalizeLabelName(name);
+  if (!normalized) return "Label cannot be empty";
+  if (normalized.length > MAX_LABEL_LENGTH) {
+    return `Label must be at most ${MAX_LABEL_LENGTH} characters`;
+  }
+  if (!LABEL_PATTERN.test(normalized)) {
+    return "Use letters, numbers, dots, dashes, underscores or +";
+  }
+  if (RESERVED_LABELS.includes(normalized.toLowerCase())) {
+    return `"${normalized}" is reserved`;
+  }
+  return null;
+}
@@ -0,0 +1,408 @@
+import { strToU8, zipSync } from "fflate";
+import { detectFramework } from "./detect-framework";
+import { extractComponentName } from "./parse-imports";
+import {
+  extractImports,
+  getDependencyConfig,
+  getPackageName,
+  isBrowserSafePackage,
+  parseInstallCommand,
+} from "./dependency-registry";
+
+// Turns a component's files into a standalone Vite project zip. The entry file
+// mounts the component the same way the Playground preview does: React renders
+// it without props into #root, Vue mounts the SFC on #root and vanilla
+// components get their HTML inside #root with CSS and scripts loaded after it.
+
+export type ViteProjectTemplate = "react" | "vue" | "vanilla";
+
+export interface ViteProjectFile {
+  filename: string;
+  language: string;
+  code: string;
+}
+
+export interface ViteProjectInput {
+  title: string;
+  description?: string | null;
+  packageInstallCommand?: string | null;
+  version?: number | null;
+  files: ViteProjectFile[];
+}
+
+const VITE_VERSION = "^6.0.0";
+
+// Matches the React and Vue majors the preview runtime loads from esm.sh
+const TEMPLATE_DEPENDENCIES: Record<ViteProjectTemplate, Record<string, string>> = {
+  react: { react: "^18.3.1", "react-dom": "^18.3.1" },
+  vue: { vue: "^3.5.0" },
+  vanilla: {},
+};
+
+const TEMPLATE_DEV_DEPENDENCIES: Record<ViteProjectTemplate, Record<string, string>> = {
+  react: { vite: VITE_VERSION, "@vitejs/plugin-react": "^4.3.4" },
+  vue: { vite: VITE_VERSION, "@vitejs/plugin-vue": "^5.2.1" },
+  vanilla: { vite: VITE_VERSION },
+};
+
+const TYPESCRIPT_DEV_DEPENDENCIES: Record<ViteProjectTemplate, Record<string, string>> = {
+  react: { typescript: "^5.6.0", "@types/react": "^18.3.12", "@types/react-dom": "^18.3.1" },
+  vue: { typescript: "^5.6.0" },
+  vanilla: { typescript: "^5.6.0" },
+};
+
+// The preview injects these before the component's own CSS
+const BASE_CSS = `* {
+  box-sizing: border-box;
+}
+
+html,
+body {
+  margin: 0;
+  padding: 0;
+  width: 100%;
+  height: 100%;
+}
+
+body {
+  font-family: system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+  background: #0a0a0a;
+  color: #fafafa;
+}
+
+#root {
+  width: 100%;
+  height: 100%;
+  display: flex;
+  flex-direction: column;
+  position: relative;
+}
+`;
+
+export function getViteProjectTemplate(files: ViteProjectFile[]): ViteProjectTemplate {
+  const frameworks = files
+    .filter((f) => f.code.trim())
+    .map((f) => detectFramework(f.code, f.filename));
+  if (files.some((f) => f.language === "tsx" || f.language === "jsx")) return "react";
+  if (frameworks.includes("react") || frameworks.includes("next")) return "react";
+  if (frameworks.includes("vue") || files.some((f) => f.filename.endsWith(".vue"))) return "vue";
+  return "vanilla";
+}
+
+// Reuse the version pinned in the preview's dependency registry when there is one
+function getRegistryVersion(packageName: string) {
+  const cdn = getDependencyConfig(packageName)?.cdn;
+  const escaped = packageName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = cdn?.match(new RegExp(`/${escaped}@([^/?&]+)`));
+  if (!match || match[1] === "latest") return "latest";
+  return /^\d+$/.test(match[1]) ? `^${match[1]}.0.0` : match[1];
+}
+
+// Keep user-chosen filenames inside src/components
+function toComponentPath(filename: string) {
+  const safeName = filename.replace(/\\/g, "/").split("/").filter((part) => part && part !== "..").join("/");
+  return `src/components/${safeName || "file"}`;
+}
+
+function toImportPath(componentPath: string) {
+  return `./${componentPath.replace(/^src\//, "").replace(/\.(tsx?|jsx?)$/, "")}`;
+}
+
+function getProjectSlug(title: string) {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "component";
+}
+
+function sortRecord(record: Record<string, string>) {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function getBodyHtml(html: string) {
+  return html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1]?.trim() ?? html.trim();
+}
+
+function createIndexHtml(title: string, body: string, entry: string) {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${title.replace(/[<&]/g, (c) => (c === "<" ? "&lt;" : "&amp;"))}</title>
+  </head>
+  <body>
+    <div id="root">${body}</div>
+    <script type="module" src="/src/${entry}"></script>
+  </body>
+</html>
+`;
+}
+
+function createReactEntry(
+  mainFile: ViteProjectFile,
+  mainPath: string,
+  globalCss: string[],
+  usesTypeScript: boolean
+) {
+  const importPath = toImportPath(mainPath);
+  const cssImports = globalCss.map((path) => `import "${path}";\n`).join("");
+  const name = extractComponentName(mainFile.code);
+  const hasDefaultExport = /export\s+default\s/.test(mainFile.code);
+  const hasNamedExport =
+    !!name && new RegExp(`export\\s+(?:const|function|class)\\s+${name}\\b|export\\s*\\{[^}]*\\b${name}\\b`).test(mainFile.code);
+
+  let componentImport: string;
+  if (hasDefaultExport) {
+    componentImport = `import Component from "${importPath}";\n`;
+  } else if (hasNamedExport) {
+    componentImport = `import { ${name} as Component } from "${importPath}";\n`;
+  } else {
+    // Like the preview, fall back to the first exported function
+    componentImport = `import * as componentModule from "${importPath}";
+
+const Component = Object.values(componentModule).find(
+  (value) => typeof value === "function"
+)${usesTypeScript ? " as React.ComponentType" : ""};
+`;
+  }
+
+  return `import React from "react";
+import { createRoot } from "react-dom/client";
+import "./index.css";
+${cssImports}${componentImport}
+createRoot(document.getElementById("root")${usesTypeScript ? "!" : ""}).render(React.createElement(Component));
+`;
+}
+
+function createReadme(input: {
+  title: string;
+  description?: string | null;
+  version?: number | null;
+  template: ViteProjectTemplate;
+  files: string[];
+  dependencies: Record<string, string>;
+  notes: string[];
+}) {
+  const templateLabel = { react: "React", vue: "Vue", vanilla: "vanilla HTML/CSS/JS" }[input.template];
+  const dependencyLines = Object.entries(input.dependencies).map(([name, version]) => `- \`${name}\` ${version}`);
+
+  return [
+    `# ${input.title}`,
+    "",
+    ...(input.description ? [input.description, ""] : []),
+    `A ${templateLabel} Vite project exported from VaultUI${input.version ? ` (version ${input.version})` : ""}.`,
+    "",
+    "## Getting started",
+    "",
+    "```bash",
+    "npm install",
+    "npm run dev",
+    "```",
+    "",
+    "`npm run build` writes a production build to `dist/`.",
+    "",
+    "## Files",
+    "",
+    ...input.files.map((path) => `- \`${path}\``),
+    "",
+    "## Dependencies",
+    "",
+    ...(dependencyLines.length > 0 ? dependencyLines : ["None besides Vite."]),
+    "",
+    "Versions follow what the VaultUI preview loads; `latest` means the component did not pin one.",
+    ...(input.notes.length > 0 ? ["", "## Notes", "", ...input.notes.map((note) => `- ${note}`)] : []),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Builds the project files (paths relative to the project folder) for a
+ * component. Kept separate from the zip step so the layout is easy to inspect.
+ */
+export function createViteProjectFiles(input: ViteProjectInput): Record<string, string> {
+  const files = input.files.filter((f) => f.code.trim());
+  const template = getViteProjectTemplate(files);
+  const usesTypeScript = files.some((f) => f.language === "ts" || f.language === "tsx" || /lang=["']ts["']/.test(f.code));
+  const project: Record<string, string> = {};
+  const notes: string[] = [];
+
+  const paths = new Map<ViteProjectFile, string>();
+  for (const [index, file] of files.entries()) {
+    let path = toComponentPath(file.filename);
+    if (template === "vanilla" && file.language === "html") continue;
+    // Two files with the same name would overwrite each other
+    if (project[path]) path = toComponentPath(`${index}/${file.filename}`);
+    paths.set(file, path);
+    project[path] = file.code;
+  }
+
+  // Dependencies: imports found in the code, then the stored install command
+  const dependencies: Record<string, string> = { ...TEMPLATE_DEPENDENCIES[template] };
+  const devDependencies: Record<string, string> = {
+    ...TEMPLATE_DEV_DEPENDENCIES[template],
+    ...(usesTypeScript ? TYPESCRIPT_DEV_DEPENDENCIES[template] : {}),
+  };
+  const skipped = new Set<string>();
+  const nextImports = new Set<string>();
+  for (const file of files) {
+    for (const imp of extractImports(file.code)) {
+      if (imp.startsWith("./") || imp.startsWith("../") || imp.startsWith("/")) continue;
+      const packageName = getPackageName(imp);
+      if (packageName === "next") {
+        nextImports.add(imp);
+        continue;
+      }
+      if (!isBrowserSafePackage(packageName)) {
+        skipped.add(packageName);
+        continue;
+      }
+      dependencies[packageName] ??= getRegistryVersion(packageName);
+    }
+  }
+  if (input.packageInstallCommand) {
+    const fromCommand = parseInstallCommand(input.packageInstallCommand);
+    Object.assign(dependencies, fromCommand.dependencies);
+    Object.assign(devDependencies, fromCommand.devDependencies);
+  }
+
+  if (nextImports.size > 0) {
+    notes.push(
+      `Next.js imports (${[...nextImports].map((imp) => `\`${imp}\``).join(", ")}) only work inside Next.js. Replace them (e.g. \`next/image\` with \`<img>\`, \`next/link\` with \`<a>\`) before running.`
+    );
+  }
+  if (skipped.size > 0) {
+    notes.push(
+      `Server-only or invalid imports were not added to package.json: ${[...skipped].map((name) => `\`${name}\``).join(", ")}.`
+    );
+  }
+
+  const cssFiles = files.filter((f) => f.language === "css" && paths.has(f));
+  const importedFromCode = new Set(files.flatMap((f) => extractImports(f.code)).map((imp) => imp.split("/").pop()));
+  // CSS the component does not import itself is global in the preview
+  const globalCss = cssFiles
+    .filter((f) => !importedFromCode.has(f.filename.split("/").pop()))
+    .map((f) => toImportPath(paths.get(f)!));
+  const cssImports = globalCss.map((path) => `import "${path}";\n`).join("");
+
+  let entry: string;
+  let body = "";
+  if (template === "react") {
+    const mainFile =
+      files.find((f) => f.language === "tsx" || f.language === "jsx") ??
+      files.find((f) => ["react", "next"].includes(detectFramework(f.code, f.filename))) ??
+      files[0];
+    entry = usesTypeScript ? "main.tsx" : "main.jsx";
+    project[`src/${entry}`] = createReactEntry(mainFile, paths.get(mainFile)!, globalCss, usesTypeScript);
+    project["vite.config" + (usesTypeScript ? ".ts" : ".js")] = `import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()],
+});
+`;
+  } else if (template === "vue") {
+    const mainFile =
+      files.find((f) => f.filename.endsWith(".vue") || f.language === "vue") ??
+      files.find((f) => detectFramework(f.code, f.filename) === "vue") ??
+      files[0];
+    entry = usesTypeScript ? "main.ts" : "main.js";
+    project[`src/${entry}`] = `import { createApp } from "vue";
+import "./index.css";
+${cssImports}import App from "${toImportPath(paths.get(mainFile)!)}";
+
+createApp(App).mount("#root");
+`;
+    project["vite.config" + (usesTypeScript ? ".ts" : ".js")] = `import { defineConfig } from "vite";
+import vue from "@vitejs/plugin-vue";
+
+export default defineConfig({
+  plugins: [vue()],
+});
+`;
+    if (usesTypeScript) {
+      project["src/env.d.ts"] = `/// <reference types="vite/client" />
+
+declare module "*.vue" {
+  import type { DefineComponent } from "vue";
+  const component: DefineComponent;
+  export default component;
+}
+`;
+    }
+  } else {
+    const htmlFile = files.find((f) => f.language === "html");
+    const scripts = files.filter((f) => (f.language === "js" || f.language === "ts") && paths.has(f));
+    body = htmlFile ? `\n      ${getBodyHtml(htmlFile.code)}\n    ` : "";
+    entry = usesTypeScript ? "main.ts" : "main.js";
+    project[`src/${entry}`] = `import "./index.css";
+${cssImports}${scripts.map((f) => `import "${toImportPath(paths.get(f)!)}";\n`).join("")}`;
+    if (scripts.length > 0) {
+      notes.push(
+        "Scripts now run as ES modules, so top-level functions are no longer globals. Attach handlers with `addEventListener` instead of inline `onclick` attributes."
+      );
+    }
+  }
+
+  project["src/index.css"] = BASE_CSS;
+  project["index.html"] = createIndexHtml(input.title, body, entry);
+
+  if (usesTypeScript) {
+    project["tsconfig.json"] = JSON.stringify(
+      {
+        compilerOptions: {
+          target: "ES2020",
+          lib: ["ES2020", "DOM", "DOM.Iterable"],
+          module: "ESNext",
+          moduleResolution: "bundler",
+          jsx: template === "react" ? "react-jsx" : "preserve",
+          strict: false,
+          skipLibCheck: true,
+          noEmit: true,
+          isolatedModules: true,
+          allowImportingTsExtensions: true,
+        },
+        include: ["src"],
+      },
+      null,
+      2
+    ) + "\n";
+  }
+
+  const slug = getProjectSlug(input.title);
+  project["package.json"] = JSON.stringify(
+    {
+      name: slug,
+      private: true,
+      version: "0.0.0",
+      type: "module",
+      scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+      dependencies: sortRecord(dependencies),
+      devDependencies: sortRecord(devDependencies),
+    },
+    null,
+    2
+  ) + "\n";
+
+  project["README.md"] = createReadme({
+    title: input.title,
+    description: input.description,
+    version: input.version,
+    template,
+    files: Object.keys(project).filter((path) => path.startsWith("src/components/")),
+    dependencies: sortRecord(dependencies),
+    notes,
+  });
+
+  return project;
+}
+
+export function createViteProjectArchive(input: ViteProjectInput): Uint8Array {
+  const folder = getProjectSlug(input.title);
+  const entries: Record<string, Uint8Array> = {};
+  for (const [path, content] of Object.entries(createViteProjectFiles(input))) {
+    entries[`${folder}/${path}`] = strToU8(content);
+  }
+  return zipSync(entries);
+}
+
+export function getViteProjectFilename(title: string, version?: number | null) {
+  return `${getProjectSlug(title)}${version ? `-v${version}` : ""}-vite.zip`;
+}
@@ -6,7 +6,11 @@ export async function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
 
     // Public routes that don't require authentication
-    const publicRoutes = ['/auth', '/api/auth', '/preview', '/api/setup', '/api/auth-check'];
+    // Cron routes authenticate with CRON_SECRET instead of a session
+    // The component registry (/r/) checks a session or REGISTRY_TOKEN itself
+    // Share links (/share/<token>) are authorized by their token
+    // Embeds (/embed/<id>) check a share token or a session themselves
+    const publicRoutes = ['/auth', '/api/auth', '/preview', '/api/setup', '/api/auth-check', '/api/cron', '/r/', '/share/', '/embed/'];
     const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
 
     // For protected routes, check authentication
@@ -3,12 +3,28 @@ import { componentRouter } from "@/server/api/routers/component";
 import { collectionRouter } from "@/server/api/routers/collection";
 import { versionRouter } from "@/server/api/routers/version";
 import { userRouter } from "@/server/api/routers/user";
+import { tagRouter } from "@/server/api/routers/tag";
+import { backupRouter } from "@/server/api/routers/backup";
+import { shareRouter } from "@/server/api/routers/share";
+import { commentRouter } from "@/server/api/routers/comment";
+import { reviewRouter } from "@/server/api/routers/review";
+import { auditRouter } from "@/server/api/routers/audit";
+import { favoriteRouter } from "@/server/api/routers/favorite";
+import { usageRouter } from "@/server/api/routers/usage";
 
 export const appRouter = createTRPCRouter({
   component: componentRouter,
   collection: collectionRouter,
   version: versionRouter,
   user: userRouter,
+  tag: tagRouter,
+  backup: backupRouter,
+  share: shareRouter,
+  comment: commentRouter,
+  review: reviewRouter,
+  audit: auditRouter,
+  favorite: favoriteRouter,
+  usage: usageRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,85 @@
+import { z } from "zod";
+import { createTRPCRouter, superadminProcedure } from "@/server/api/trpc";
+import { userSummarySelect } from "@/server/api/selects";
+import { auditEventSelect, auditEventsToCsv, getAuditWhere } from "@/server/audit";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10_000;
+
+const auditFiltersSchema = z.object({
+  actorId: z.string().optional(),
+  procedure: z.string().optional(),
+  targetId: z.string().trim().optional(),
+  success: z.boolean().optional(),
+  from: z.date().optional(),
+  // Exclusive upper bound
+  to: z.date().optional(),
+});
+
+// Read-only access to the mutation audit trail (see src/server/audit.ts)
+export const auditRouter = createTRPCRouter({
+  list: superadminProcedure
+    .input(
+      auditFiltersSchema
+        .extend({
+          cursor: z.string().nullish(),
+          limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      const limit = input?.limit ?? DEFAULT_PAGE_SIZE;
+
+      const items = await ctx.db.auditEvent.findMany({
+        where: getAuditWhere(input),
+        select: auditEventSelect,
+        // id breaks ties so the cursor position is stable
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: limit + 1,
+        ...(input?.cursor ? { cursor: { id: input.cursor }, skip: 1 } : {}),
+      });
+
+      let nextCursor: string | null = null;
+      if (items.length > limit) {
+        items.pop();
+        nextCursor = items[items.length - 1].id;
+      }
+
+      return { items, nextCursor };
+    }),
+
+  // Values for the viewer's filter dropdowns
+  getFilterOptions: superadminProcedure.query(async ({ ctx }) => {
+    const [procedures, actors] = await Promise.all([
+      ctx.db.auditEvent.findMany({
+        distinct: ["procedure"],
+        select: { procedure: true },
+        orderBy: { procedure: "asc" },
+      }),
+      ctx.db.user.findMany({
+        where: { auditEvents: { some: {} } },
+        select: userSummarySelect,
+        orderBy: [{ name: "asc" }, { email: "asc" }],
+      }),
+    ]);
+
+    return { procedures: procedures.map((p) => p.procedure), actors };
+  }),
+
+  // The filtered events as CSV, newest first
+  exportCsv: superadminProcedure.input(auditFiltersSchema.optional()).query(async ({ ctx, input }) => {
+    const events = await ctx.db.auditEvent.findMany({
+      where: getAuditWhere(input),
+      select: auditEventSelect,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: MAX_EXPORT_ROWS + 1,
+    });
+
+    return {
+      csv: auditEventsToCsv(events.slice(0, MAX_EXPORT_ROWS)),
+      count: Math.min(events.length, MAX_EXPORT_ROWS),
+      truncated: events.length > MAX_EXPORT_ROWS,
+    };
+  }),
+});
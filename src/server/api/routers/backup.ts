@@ -0,0 +1,24 @@
+import { z } from "zod";
+import { createTRPCRouter, superadminProcedure } from "@/server/api/trpc";
+import { createLibraryBackup, restoreLibraryBackup } from "@/server/library-backup";
+import { libraryBackupSchema } from "@/lib/library-backup";
+
+// Whole-library backup and restore; the client zips and unzips (see src/lib/library-backup.ts)
+export const backupRouter = createTRPCRouter({
+  export: superadminProcedure.query(async ({ ctx }) => {
+    return createLibraryBackup(ctx.db);
+  }),
+
+  // Defaults to a dry run so nothing is written until the report has been reviewed
+  restore: superadminProcedure
+    .input(
+      z.object({
+        backup: libraryBackupSchema,
+        mode: z.enum(["merge", "replace"]),
+        dryRun: z.boolean().default(true),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return restoreLibraryBackup(ctx.db, input);
+    }),
+});
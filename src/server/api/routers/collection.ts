@@ -1,8 +1,150 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import {
+  createTRPCRouter,
+  developerProcedure,
+  protectedProcedure,
+  superadminProcedure,
+} from "@/server/api/trpc";
+import { activeVersionWhere } from "@/server/api/selects";
+
+type Db = Prisma.TransactionClient;
+
+const TREE_TRANSACTION_ATTEMPTS = 3;
+
+/**
+ * Runs a change to the collection tree in a serializable transaction, so two
+ * concurrent moves (A under B while B moves under A) can't both pass the cycle
+ * check. Postgres aborts one of them; it is retried against the new tree.
+ */
+async function inTreeTransaction<T>(db: PrismaClient, fn: (tx: Db) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.$transaction(fn, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+    } catch (error) {
+      const isConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034";
+      if (!isConflict) throw error;
+      if (attempt >= TREE_TRANSACTION_ATTEMPTS) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: "Collections were changed at the same time, please try again",
+        });
+      }
+    }
+  }
+}
+
+// Next free position at the end of a parent's children (or the top level)
+async function getNextPosition(db: Db, parentId: string | null) {
+  const last = await db.collection.findFirst({
+    where: { parentId },
+    orderBy: { position: "desc" },
+    select: { position: true },
+  });
+  return (last?.position ?? -1) + 1;
+}
+
+// Rejects parents that would put a collection inside itself or its own subtree
+async function assertValidParent(db: Db, id: string, parentId: string | null) {
+  if (parentId === null) return;
+
+  let currentId: string | null = parentId;
+  const visited = new Set<string>();
+  while (currentId) {
+    if (currentId === id) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "A collection cannot be moved into itself or one of its sub-collections",
+      });
+    }
+    // Guards against cycles that already exist in the data
+    if (visited.has(currentId)) break;
+    visited.add(currentId);
+
+    const parent: { parentId: string | null } | null = await db.collection.findUnique({
+      where: { id: currentId },
+      select: { parentId: true },
+    });
+    if (!parent) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Parent collection not found" });
+    }
+    currentId = parent.parentId;
+  }
+}
+
+// Moves a collection under `parentId` and renumbers that parent's children so it
+// sits right before `beforeId`, or last when `beforeId` is null
+async function moveCollection(
+  tx: Db,
+  { id, parentId, beforeId }: { id: string; parentId: string | null; beforeId: string | null }
+) {
+  const collection = await tx.collection.findUnique({ where: { id }, select: { id: true } });
+  if (!collection) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+  }
+
+  await assertValidParent(tx, id, parentId);
+
+  const siblings = await tx.collection.findMany({
+    where: { parentId, id: { not: id } },
+    orderBy: [{ position: "asc" }, { name: "asc" }],
+    select: { id: true },
+  });
+
+  const ordered = siblings.map((sibling) => sibling.id);
+  const beforeIndex = beforeId ? ordered.indexOf(beforeId) : -1;
+  if (beforeId && beforeIndex === -1) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: "The collection to insert before is not a child of the target parent",
+    });
+  }
+  ordered.splice(beforeIndex === -1 ? ordered.length : beforeIndex, 0, id);
+
+  await Promise.all(
+    ordered.map((siblingId, position) =>
+      tx.collection.update({
+        where: { id: siblingId },
+        data: siblingId === id ? { parentId, position } : { position },
+      })
+    )
+  );
+
+  return tx.collection.findUniqueOrThrow({ where: { id } });
+}
+
+// Ids of every collection below `id`, parents before their children
+async function getDescendantIds(db: Db, id: string) {
+  const descendantIds: string[] = [];
+  const visited = new Set<string>([id]);
+  let frontier = [id];
+  while (frontier.length > 0) {
+    const children = await db.collection.findMany({
+      where: { parentId: { in: frontier } },
+      select: { id: true },
+    });
+    frontier = children.map((child) => child.id).filter((childId) => !visited.has(childId));
+    frontier.forEach((childId) => visited.add(childId));
+    descendantIds.push(...frontier);
+  }
+  return descendantIds;
+}
+
+// Number of distinct non-deleted components linked to any of the collections
+function countLinkedComponents(db: Db, collectionIds: string[]) {
+  return db.component.count({
+    where: {
+      deletedAt: null,
+      collections: { some: { collectionId: { in: collectionIds } } },
+    },
+  });
+}
+
+const deleteModeSchema = z.enum(["moveChildrenUp", "deleteSubtree"]);
 
 export const collectionRouter = createTRPCRouter({
-  create: publicProcedure
+  create: developerProcedure
     .input(
       z.object({
         name: z.string().min(1),
@@ -19,15 +161,17 @@ export const collectionRouter = createTRPCRouter({
           name: input.name,
           slug: slug,
           parentId: input.parentId,
+          position: await getNextPosition(ctx.db, input.parentId ?? null),
+          createdById: ctx.session.user.id,
         },
       });
 
       return collection;
     }),
 
-  list: publicProcedure.query(async ({ ctx }) => {
+  list: protectedProcedure.query(async ({ ctx }) => {
     const collections = await ctx.db.collection.findMany({
-      orderBy: { name: "asc" },
+      orderBy: [{ position: "asc" }, { name: "asc" }],
     });
 
     // Calculate count of non-deleted components for each collection
@@ -54,7 +198,7 @@ export const collectionRouter = createTRPCRouter({
     return collectionsWithCount;
   }),
 
-  getBySlug: publicProcedure.input(z.string()).query(async ({ ctx, input }) => {
+  getBySlug: protectedProcedure.input(z.string()).query(async ({ ctx, input }) => {
     const collection = await ctx.db.collection.findUnique({
       where: { slug: input },
       include: {
@@ -63,6 +207,7 @@ export const collectionRouter = createTRPCRouter({
             component: {
               include: {
                 versions: {
+                  where: activeVersionWhere,
                   orderBy: { version: "desc" },
                   take: 1,
                 },
@@ -76,41 +221,147 @@ export const collectionRouter = createTRPCRouter({
     return collection;
   }),
 
-  update: publicProcedure
+  update: developerProcedure
     .input(
       z.object({
         id: z.string(),
         name: z.string().min(1).optional(),
         slug: z.string().min(1).optional(),
+        // null moves the collection to the top level; it is placed after its new siblings
+        parentId: z.string().nullable().optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      const collection = await ctx.db.collection.update({
-        where: { id: input.id },
-        data: {
-          ...(input.name ? { name: input.name } : {}),
-          ...(input.slug ? { slug: input.slug } : {}),
-        },
-      });
+      return inTreeTransaction(ctx.db, async (tx) => {
+        const existing = await tx.collection.findUnique({
+          where: { id: input.id },
+          select: { parentId: true },
+        });
+        if (!existing) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+        }
 
-      return collection;
+        if (input.parentId !== undefined && input.parentId !== existing.parentId) {
+          await moveCollection(tx, { id: input.id, parentId: input.parentId, beforeId: null });
+        }
+
+        const collection = await tx.collection.update({
+          where: { id: input.id },
+          data: {
+            ...(input.name ? { name: input.name } : {}),
+            ...(input.slug ? { slug: input.slug } : {}),
+          },
+        });
+
+        return collection;
+      });
     }),
 
-  delete: publicProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
-    // First remove all component associations
-    await ctx.db.componentCollection.deleteMany({
-      where: { collectionId: input },
-    });
+  // Reorders and/or reparents a collection; used by drag-and-drop in the sidebar
+  move: developerProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        parentId: z.string().nullable(),
+        beforeId: z.string().nullable().default(null),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.beforeId === input.id) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Cannot place a collection before itself" });
+      }
+
+      return inTreeTransaction(ctx.db, (tx) => moveCollection(tx, input));
+    }),
 
-    // Then delete the collection
-    const collection = await ctx.db.collection.delete({
+  // What a delete would touch, shown in the confirmation dialog before anything is removed
+  getDeleteImpact: superadminProcedure.input(z.string()).query(async ({ ctx, input }) => {
+    const collection = await ctx.db.collection.findUnique({
       where: { id: input },
+      select: {
+        id: true,
+        name: true,
+        parent: { select: { id: true, name: true } },
+        _count: { select: { children: true } },
+      },
     });
+    if (!collection) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+    }
 
-    return collection;
+    const descendantIds = await getDescendantIds(ctx.db, input);
+    const [componentCount, subtreeComponentCount] = await Promise.all([
+      countLinkedComponents(ctx.db, [input]),
+      countLinkedComponents(ctx.db, [input, ...descendantIds]),
+    ]);
+
+    return {
+      id: collection.id,
+      name: collection.name,
+      parent: collection.parent,
+      childCount: collection._count.children,
+      descendantCount: descendantIds.length,
+      componentCount,
+      subtreeComponentCount,
+    };
   }),
 
-  addComponent: publicProcedure
+  // Components are never deleted here, only their links to the removed collections.
+  // moveChildrenUp: sub-collections and component links move to the parent (or the top level).
+  // deleteSubtree: the collection and everything nested in it are removed.
+  delete: superadminProcedure
+    .input(z.object({ id: z.string(), mode: deleteModeSchema }))
+    .mutation(async ({ ctx, input }) => {
+      return inTreeTransaction(ctx.db, async (tx) => {
+        const collection = await tx.collection.findUnique({ where: { id: input.id } });
+        if (!collection) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+        }
+
+        if (input.mode === "deleteSubtree") {
+          const descendantIds = await getDescendantIds(tx, input.id);
+          const deletedIds = [input.id, ...descendantIds];
+          // Links cascade; a single statement satisfies the NO ACTION parent constraint
+          await tx.collection.deleteMany({ where: { id: { in: deletedIds } } });
+          return { collection, deletedIds };
+        }
+
+        const { parentId } = collection;
+        const children = await tx.collection.findMany({
+          where: { parentId: input.id },
+          orderBy: [{ position: "asc" }, { name: "asc" }],
+          select: { id: true },
+        });
+        const firstPosition = await getNextPosition(tx, parentId);
+        await Promise.all(
+          children.map((child, index) =>
+            tx.collection.update({
+              where: { id: child.id },
+              data: { parentId, position: firstPosition + index },
+            })
+          )
+        );
+
+        if (parentId) {
+          const links = await tx.componentCollection.findMany({
+            where: { collectionId: input.id },
+            select: { componentId: true },
+          });
+          await tx.componentCollection.createMany({
+            data: links.map((link) => ({
+              componentId: link.componentId,
+              collectionId: parentId,
+            })),
+            skipDuplicates: true,
+          });
+        }
+
+        await tx.collection.delete({ where: { id: input.id } });
+        return { collection, deletedIds: [input.id] };
+      });
+    }),
+
+  addComponent: developerProcedure
     .input(
       z.object({
         collectionId: z.string(),
@@ -168,7 +419,7 @@ export const collectionRouter = createTRPCRouter({
       return link;
     }),
 
-  removeComponent: publicProcedure
+  removeComponent: developerProcedure
     .input(
       z.object({
         collectionId: z.string(),
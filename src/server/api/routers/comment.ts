@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, developerProcedure, protectedProcedure } from "@/server/api/trpc";
+import { getAnchorText, listVersionComments } from "@/server/version-comments";
+import { hasRole } from "@/lib/permissions";
+
+const bodySchema = z.string().trim().min(1, "Comment cannot be empty").max(5000);
+
+// Review comments on component versions. Anyone signed in can read them;
+// writing, replying and resolving need the write permission, like other changes.
+export const commentRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({ versionId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const threads = await listVersionComments(ctx.db, input.versionId);
+      if (!threads) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+      }
+      return threads;
+    }),
+
+  create: developerProcedure
+    .input(
+      z.object({
+        versionId: z.string(),
+        body: bodySchema,
+        // Omit for a comment on the whole version
+        anchor: z
+          .object({
+            filename: z.string(),
+            startLine: z.number().int().positive(),
+            endLine: z.number().int().positive(),
+          })
+          .optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const version = await ctx.db.componentVersion.findUnique({
+        where: { id: input.versionId },
+        select: {
+          componentId: true,
+          files: input.anchor
+            ? { where: { filename: input.anchor.filename }, select: { code: true } }
+            : false,
+        },
+      });
+      if (!version) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+      }
+
+      let anchorText: string | null = null;
+      if (input.anchor) {
+        const file = version.files?.[0];
+        if (!file) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: `This version has no file "${input.anchor.filename}"` });
+        }
+        anchorText = getAnchorText(file.code, input.anchor.startLine, input.anchor.endLine);
+        if (anchorText === null) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "The selected lines are not in this version of the file" });
+        }
+      }
+
+      return ctx.db.versionComment.create({
+        data: {
+          componentId: version.componentId,
+          versionId: input.versionId,
+          body: input.body,
+          filename: input.anchor?.filename ?? null,
+          startLine: input.anchor?.startLine ?? null,
+          endLine: input.anchor?.endLine ?? null,
+          anchorText,
+          createdById: ctx.session.user.id,
+        },
+      });
+    }),
+
+  // Replies join the thread on the version it was written on, so they travel with it
+  reply: developerProcedure
+    .input(z.object({ commentId: z.string(), body: bodySchema }))
+    .mutation(async ({ ctx, input }) => {
+      const thread = await ctx.db.versionComment.findUnique({ where: { id: input.commentId } });
+      if (!thread || thread.parentId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Comment thread not found" });
+      }
+
+      return ctx.db.versionComment.create({
+        data: {
+          componentId: thread.componentId,
+          versionId: thread.versionId,
+          parentId: thread.id,
+          body: input.body,
+          createdById: ctx.session.user.id,
+        },
+      });
+    }),
+
+  setResolved: developerProcedure
+    .input(z.object({ id: z.string(), resolved: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const thread = await ctx.db.versionComment.findUnique({ where: { id: input.id } });
+      if (!thread || thread.parentId) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Comment thread not found" });
+      }
+
+      return ctx.db.versionComment.update({
+        where: { id: input.id },
+        data: input.resolved
+          ? { resolvedAt: new Date(), resolvedById: ctx.session.user.id }
+          : { resolvedAt: null, resolvedById: null },
+      });
+    }),
+
+  // Authors can delete their own comments; superadmins can delete any.
+  // Deleting a thread's first comment deletes its replies.
+  delete: developerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const comment = await ctx.db.versionComment.findUnique({ where: { id: input.id } });
+      if (!comment) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Comment not found" });
+      }
+      if (comment.createdById !== ctx.session.user.id && !hasRole(ctx.session.user.role, "superadmin")) {
+        throw new TRPCError({ code: "FORBIDDEN", message: "You can only delete your own comments" });
+      }
+
+      await ctx.db.versionComment.delete({ where: { id: input.id } });
+      return { success: true };
+    }),
+});
@@ -1,5 +1,105 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import type { Prisma } from "@prisma/client";
+import {
+  createTRPCRouter,
+  developerProcedure,
+  protectedProcedure,
+  superadminProcedure,
+} from "@/server/api/trpc";
+import {
+  activeVersionWhere,
+  componentTagsInclude,
+  userSummarySelect,
+  versionLabelsInclude,
+  versionReferenceSelect,
+} from "@/server/api/selects";
+import { getTrashRetentionDays, purgeExpiredTrash } from "@/server/trash";
+import { MAX_SEARCH_RESULTS, searchComponents } from "@/server/search";
+import { connectOrCreateTags, tagFilterSchema, tagNamesSchema } from "@/server/tags";
+import { MAX_BULK_ITEMS, bulkActionSchema, runBulkAction } from "@/server/bulk";
+import { getComponentArchive, importComponentArchive } from "@/server/component-archive";
+import { getUniqueComponentSlug } from "@/server/registry";
+import { componentArchiveSchema } from "@/lib/component-archive";
+import { getNextUntitledTitle } from "@/lib/untitled";
+
+const DEFAULT_LIST_PAGE_SIZE = 24;
+const MAX_LIST_PAGE_SIZE = 100;
+
+const listFiltersSchema = z.object({
+  search: z.string().optional(),
+  framework: z.string().optional(),
+  status: z.string().optional(),
+  collectionId: z.string().optional(),
+  createdByMe: z.boolean().optional(),
+  // Only components the current user starred
+  favoritesOnly: z.boolean().optional(),
+  tags: tagFilterSchema.optional(),
+  // "any" matches components with at least one of the tags, "all" requires every tag
+  tagMode: z.enum(["any", "all"]).default("any"),
+});
+
+// Shared by list and listIds so "select all" covers exactly what the grid shows
+function getListWhere(
+  input: z.infer<typeof listFiltersSchema> | undefined,
+  userId: string
+): Prisma.ComponentWhereInput {
+  return {
+    deletedAt: null,
+    ...(input?.search
+      ? {
+        OR: [
+          { title: { contains: input.search, mode: "insensitive" } },
+          {
+            description: {
+              contains: input.search,
+              mode: "insensitive",
+            },
+          },
+        ],
+      }
+      : {}),
+    ...(input?.framework ? { framework: input.framework } : {}),
+    ...(input?.status ? { status: input.status } : {}),
+    ...(input?.collectionId
+      ? {
+        collections: {
+          some: { collectionId: input.collectionId },
+        },
+      }
+      : {}),
+    ...(input?.createdByMe ? { createdById: userId } : {}),
+    ...(input?.favoritesOnly ? { favorites: { some: { userId } } } : {}),
+    ...(input?.tags?.length
+      ? input.tagMode === "all"
+        ? {
+          AND: input.tags.map((name) => ({
+            tags: { some: { tag: { name } } },
+          })),
+        }
+        : { tags: { some: { tag: { name: { in: input.tags } } } } }
+      : {}),
+  };
+}
+
+// Everything a card or sidebar row needs, without any file contents
+const componentSummarySelect = {
+  id: true,
+  title: true,
+  description: true,
+  framework: true,
+  language: true,
+  status: true,
+  isRenderable: true,
+  coverImage: true,
+  createdAt: true,
+  updatedAt: true,
+  lastVersionNumber: true,
+  createdBy: { select: userSummarySelect },
+  updatedBy: { select: userSummarySelect },
+  collections: { select: { collectionId: true } },
+  tags: componentTagsInclude,
+} as const;
 
 // Schema for a single file
 const fileSchema = z.object({
@@ -10,7 +110,7 @@ const fileSchema = z.object({
 });
 
 export const componentRouter = createTRPCRouter({
-  create: publicProcedure
+  create: developerProcedure
     .input(
       z.object({
         title: z.string().min(1),
@@ -22,6 +122,7 @@ export const componentRouter = createTRPCRouter({
         collectionIds: z.array(z.string()).optional(),
         packageInstallCommand: z.string().optional(),
         coverImage: z.string().optional(),
+        tags: tagNamesSchema.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -29,15 +130,20 @@ export const componentRouter = createTRPCRouter({
         const component = await ctx.db.component.create({
           data: {
             title: input.title,
+            slug: await getUniqueComponentSlug(ctx.db, input.title),
             description: input.description,
             framework: input.framework,
             language: input.language,
             isRenderable: input.isRenderable,
             packageInstallCommand: input.packageInstallCommand,
             coverImage: input.coverImage,
+            createdById: ctx.session.user.id,
+            updatedById: ctx.session.user.id,
+            lastVersionNumber: 1,
             versions: {
               create: {
                 version: 1,
+                createdById: ctx.session.user.id,
                 files: {
                   create: input.files.map((file, index) => ({
                     filename: file.filename,
@@ -57,6 +163,9 @@ export const componentRouter = createTRPCRouter({
                 },
               }
               : {}),
+            ...(input.tags && input.tags.length > 0
+              ? { tags: { create: connectOrCreateTags(input.tags) } }
+              : {}),
           } as any,
           include: {
             versions: {
@@ -81,76 +190,105 @@ export const componentRouter = createTRPCRouter({
       }
     }),
 
-  list: publicProcedure
+  // Cursor-paginated, metadata-only listing; file contents are loaded per card with getPreviewFiles
+  list: protectedProcedure
     .input(
-      z
-        .object({
-          search: z.string().optional(),
-          framework: z.string().optional(),
-          status: z.string().optional(),
-          collectionId: z.string().optional(),
+      listFiltersSchema
+        .extend({
+          cursor: z.string().nullish(),
+          limit: z.number().int().min(1).max(MAX_LIST_PAGE_SIZE).default(DEFAULT_LIST_PAGE_SIZE),
         })
         .optional()
     )
     .query(async ({ ctx, input }) => {
-      const components = await ctx.db.component.findMany({
-        where: {
-          deletedAt: null,
-          ...(input?.search
-            ? {
-              OR: [
-                { title: { contains: input.search, mode: "insensitive" } },
-                {
-                  description: {
-                    contains: input.search,
-                    mode: "insensitive",
-                  },
-                },
-              ],
-            }
-            : {}),
-          ...(input?.framework ? { framework: input.framework } : {}),
-          ...(input?.status ? { status: input.status } : {}),
-          ...(input?.collectionId
-            ? {
-              collections: {
-                some: { collectionId: input.collectionId },
-              },
-            }
-            : {}),
-        },
-        include: {
-          versions: {
-            orderBy: { version: "desc" },
-            take: 1,
-            include: {
-              files: {
-                orderBy: { order: "asc" },
-              },
-            },
-          },
-          collections: {
-            include: {
-              collection: true,
-            },
-          },
-        },
-        orderBy: { updatedAt: "desc" },
+      const limit = input?.limit ?? DEFAULT_LIST_PAGE_SIZE;
+
+      const items = await ctx.db.component.findMany({
+        where: getListWhere(input, ctx.session.user.id),
+        select: componentSummarySelect,
+        // id breaks ties so the cursor position is stable
+        orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+        take: limit + 1,
+        ...(input?.cursor ? { cursor: { id: input.cursor }, skip: 1 } : {}),
       });
 
-      return components;
+      let nextCursor: string | null = null;
+      if (items.length > limit) {
+        items.pop();
+        nextCursor = items[items.length - 1].id;
+      }
+
+      return { items, nextCursor };
+    }),
+
+  // Every id matching the list filters, for "select all" in the grid
+  listIds: protectedProcedure.input(listFiltersSchema.optional()).query(async ({ ctx, input }) => {
+    const where = getListWhere(input, ctx.session.user.id);
+    const [components, total] = await Promise.all([
+      ctx.db.component.findMany({
+        where,
+        select: { id: true },
+        orderBy: [{ updatedAt: "desc" }, { id: "desc" }],
+        take: MAX_BULK_ITEMS,
+      }),
+      ctx.db.component.count({ where }),
+    ]);
+
+    return { ids: components.map((component) => component.id), total };
+  }),
+
+  // Files of the latest active version, fetched when a card needs to render a preview
+  getPreviewFiles: protectedProcedure.input(z.string()).query(async ({ ctx, input }) => {
+    const version = await ctx.db.componentVersion.findFirst({
+      where: { componentId: input, ...activeVersionWhere },
+      orderBy: { version: "desc" },
+      select: {
+        files: {
+          orderBy: { order: "asc" },
+          select: { filename: true, language: true, code: true },
+        },
+      },
+    });
+
+    return version?.files ?? [];
+  }),
+
+  // First free "Untitled N" title for scratchpads, without loading every component
+  nextUntitledTitle: protectedProcedure.query(async ({ ctx }) => {
+    const untitled = await ctx.db.component.findMany({
+      where: { deletedAt: null, title: { startsWith: "Untitled" } },
+      select: { title: true },
+    });
+
+    return getNextUntitledTitle(untitled.map((c) => c.title));
+  }),
+
+  // Ranked full-text and trigram search over titles, descriptions and latest-version code
+  search: protectedProcedure
+    .input(
+      z.object({
+        query: z.string().trim().min(1).max(200),
+        limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return searchComponents(ctx.db, input);
     }),
 
-  getById: publicProcedure.input(z.string()).query(async ({ ctx, input }) => {
+  getById: protectedProcedure.input(z.string()).query(async ({ ctx, input }) => {
     const component = await ctx.db.component.findUnique({
       where: { id: input },
       include: {
         versions: {
+          where: activeVersionWhere,
           orderBy: { version: "desc" },
           include: {
             files: {
               orderBy: { order: "asc" },
             },
+            createdBy: { select: userSummarySelect },
+            restoredFrom: { select: versionReferenceSelect },
+            labels: versionLabelsInclude,
           },
         },
         collections: {
@@ -158,20 +296,148 @@ export const componentRouter = createTRPCRouter({
             collection: true,
           },
         },
+        tags: componentTagsInclude,
+        createdBy: { select: userSummarySelect },
+        updatedBy: { select: userSummarySelect },
+        forkedFromComponent: { select: { id: true, title: true, deletedAt: true } },
+        forkedFromVersion: { select: versionReferenceSelect },
+        forks: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            title: true,
+            createdAt: true,
+            createdBy: { select: userSummarySelect },
+            forkedFromVersion: { select: versionReferenceSelect },
+          },
+        },
       },
     });
 
     return component;
   }),
 
-  update: publicProcedure
+  // Copies metadata, collections and one version's files into a new component
+  fork: developerProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        versionId: z.string().optional(), // Defaults to the latest version
+        title: z.string().min(1).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const source = await ctx.db.component.findUnique({
+        where: { id: input.id },
+        include: {
+          collections: true,
+          tags: true,
+          versions: {
+            where: input.versionId ? { id: input.versionId } : activeVersionWhere,
+            orderBy: { version: "desc" },
+            take: 1,
+            include: {
+              files: {
+                orderBy: { order: "asc" },
+              },
+            },
+          },
+        },
+      });
+
+      if (!source || source.deletedAt) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Component not found" });
+      }
+
+      const version = source.versions[0];
+      if (!version) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "Version not found for this component",
+        });
+      }
+
+      const userId = ctx.session.user.id;
+
+      const title = input.title ?? `${source.title} (Fork)`;
+      const fork = await ctx.db.component.create({
+        data: {
+          title,
+          slug: await getUniqueComponentSlug(ctx.db, title),
+          description: source.description,
+          framework: source.framework,
+          language: source.language,
+          isRenderable: source.isRenderable,
+          packageInstallCommand: source.packageInstallCommand,
+          coverImage: source.coverImage,
+          createdById: userId,
+          updatedById: userId,
+          forkedFromComponentId: source.id,
+          forkedFromVersionId: version.id,
+          lastVersionNumber: 1,
+          versions: {
+            create: {
+              version: 1,
+              message: `Forked from ${source.title} v${version.version}`,
+              createdById: userId,
+              files: {
+                create: version.files.map((file) => ({
+                  filename: file.filename,
+                  language: file.language,
+                  code: file.code,
+                  order: file.order,
+                })),
+              },
+            },
+          },
+          collections: {
+            create: source.collections.map((c) => ({
+              collectionId: c.collectionId,
+            })),
+          },
+          tags: {
+            create: source.tags.map((t) => ({ tagId: t.tagId })),
+          },
+        },
+      });
+
+      return fork;
+    }),
+
+  // Unzipped contents of an export archive; the client builds the zip (see src/lib/component-archive.ts)
+  exportArchive: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        versionId: z.string().optional(), // Latest active version when omitted
+        includeHistory: z.boolean().default(false),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return getComponentArchive(ctx.db, input);
+    }),
+
+  importArchive: developerProcedure
+    .input(
+      z.object({
+        archive: componentArchiveSchema,
+        includeHistory: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return importComponentArchive(ctx.db, { ...input, userId: ctx.session.user.id });
+    }),
+
+  update: developerProcedure
     .input(
       z.object({
         id: z.string(),
         title: z.string().min(1).optional(),
         description: z.string().optional(),
-        status: z.string().optional(),
         coverImage: z.string().nullable().optional(),
+        // Replaces the component's tags when provided
+        tags: tagNamesSchema.optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -183,9 +449,13 @@ export const componentRouter = createTRPCRouter({
             ...(input.description !== undefined
               ? { description: input.description }
               : {}),
-            ...(input.status ? { status: input.status } : {}),
             ...(input.coverImage !== undefined ? { coverImage: input.coverImage } : {}),
+            ...(input.tags
+              ? { tags: { deleteMany: {}, create: connectOrCreateTags(input.tags) } }
+              : {}),
+            updatedById: ctx.session.user.id,
           } as any,
+          include: { tags: componentTagsInclude },
         });
 
         return component;
@@ -195,23 +465,97 @@ export const componentRouter = createTRPCRouter({
       }
     }),
 
-  softDelete: publicProcedure
+  softDelete: developerProcedure
     .input(z.string())
     .mutation(async ({ ctx, input }) => {
       const component = await ctx.db.component.update({
         where: { id: input },
-        data: { deletedAt: new Date() },
+        data: {
+          deletedAt: new Date(),
+          deletedById: ctx.session.user.id,
+        },
       });
 
       return component;
     }),
 
-  restore: publicProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+  // One action applied to many components in a single transaction; per-item failures are reported
+  bulkUpdate: developerProcedure
+    .input(
+      z.object({
+        ids: z
+          .array(z.string())
+          .min(1)
+          .max(MAX_BULK_ITEMS)
+          .transform((ids) => Array.from(new Set(ids))),
+        action: bulkActionSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return runBulkAction(ctx.db, { ...input, userId: ctx.session.user.id });
+    }),
+
+  restore: developerProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
     const component = await ctx.db.component.update({
       where: { id: input },
-      data: { deletedAt: null },
+      data: {
+        deletedAt: null,
+        deletedById: null,
+        updatedById: ctx.session.user.id,
+      },
     });
 
     return component;
   }),
+
+  // Soft-deleted components for the Trash page, most recently deleted first
+  listDeleted: protectedProcedure.query(async ({ ctx }) => {
+    const components = await ctx.db.component.findMany({
+      where: { deletedAt: { not: null } },
+      select: {
+        id: true,
+        title: true,
+        framework: true,
+        status: true,
+        deletedAt: true,
+        createdBy: { select: userSummarySelect },
+        deletedBy: { select: userSummarySelect },
+      },
+      orderBy: { deletedAt: "desc" },
+    });
+
+    return { components, retentionDays: getTrashRetentionDays() };
+  }),
+
+  restoreMany: developerProcedure
+    .input(z.array(z.string()).min(1))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.component.updateMany({
+        where: { id: { in: input }, deletedAt: { not: null } },
+        data: {
+          deletedAt: null,
+          deletedById: null,
+          updatedById: ctx.session.user.id,
+        },
+      });
+
+      return { restoredCount: count };
+    }),
+
+  // Permanently deletes trashed components. Components that are not in the
+  // trash are left alone, so this can't bypass the soft-delete step.
+  purge: superadminProcedure
+    .input(z.array(z.string()).min(1))
+    .mutation(async ({ ctx, input }) => {
+      const { count } = await ctx.db.component.deleteMany({
+        where: { id: { in: input }, deletedAt: { not: null } },
+      });
+
+      return { purgedCount: count };
+    }),
+
+  // Manual trigger for the retention job that also runs on a schedule
+  purgeExpired: superadminProcedure.mutation(async ({ ctx }) => {
+    return purgeExpiredTrash(ctx.db);
+  }),
 });
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+
+// Per-user starred components. The grid filters on them with component.list's favoritesOnly.
+export const favoriteRouter = createTRPCRouter({
+  // Ids of the current user's favorites that are not in the trash
+  listIds: protectedProcedure.query(async ({ ctx }) => {
+    const favorites = await ctx.db.componentFavorite.findMany({
+      where: { userId: ctx.session.user.id, component: { deletedAt: null } },
+      select: { componentId: true },
+      orderBy: { createdAt: "asc" },
+    });
+    return favorites.map((favorite) => favorite.componentId);
+  }),
+
+  // Idempotent: starring a favorite or unstarring a non-favorite is a no-op
+  set: protectedProcedure
+    .input(z.object({ componentId: z.string(), favorite: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      const userId = ctx.session.user.id;
+
+      if (!input.favorite) {
+        await ctx.db.componentFavorite.deleteMany({
+          where: { userId, componentId: input.componentId },
+        });
+        return { componentId: input.componentId, favorite: false };
+      }
+
+      const component = await ctx.db.component.findUnique({
+        where: { id: input.componentId },
+        select: { deletedAt: true },
+      });
+      if (!component || component.deletedAt) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Component not found" });
+      }
+
+      await ctx.db.componentFavorite.upsert({
+        where: { userId_componentId: { userId, componentId: input.componentId } },
+        create: { userId, componentId: input.componentId },
+        update: {},
+      });
+      return { componentId: input.componentId, favorite: true };
+    }),
+});
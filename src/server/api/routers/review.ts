@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { createTRPCRouter, developerProcedure, protectedProcedure } from "@/server/api/trpc";
+import { userSummarySelect } from "@/server/api/selects";
+import { getReviewState, requestReview, setComponentStatus, submitReview } from "@/server/review";
+
+// Review and approval workflow; statuses only change through here (see src/server/review.ts)
+export const reviewRouter = createTRPCRouter({
+  get: protectedProcedure
+    .input(z.object({ componentId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return getReviewState(ctx.db, input.componentId);
+    }),
+
+  // Developers who can be asked to review, excluding the current user
+  listReviewers: developerProcedure.query(async ({ ctx }) => {
+    return ctx.db.user.findMany({
+      where: { role: { in: ["developer", "superadmin"] }, id: { not: ctx.session.user.id } },
+      select: userSummarySelect,
+      orderBy: [{ name: "asc" }, { email: "asc" }],
+    });
+  }),
+
+  request: developerProcedure
+    .input(
+      z.object({
+        componentId: z.string(),
+        versionId: z.string(),
+        reviewerIds: z
+          .array(z.string())
+          .min(1, "Choose at least one reviewer")
+          .max(10)
+          .transform((ids) => Array.from(new Set(ids))),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return requestReview(ctx.db, { ...input, userId: ctx.session.user.id });
+    }),
+
+  submit: developerProcedure
+    .input(
+      z.object({
+        componentId: z.string(),
+        decision: z.enum(["approved", "changes_requested"]),
+        note: z.string().trim().max(2000).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return submitReview(ctx.db, { ...input, reviewerId: ctx.session.user.id });
+    }),
+
+  setStatus: developerProcedure
+    .input(
+      z.object({
+        componentId: z.string(),
+        // in_review is entered with request
+        status: z.enum(["experiment", "ready", "deprecated"]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return setComponentStatus(ctx.db, { ...input, userId: ctx.session.user.id });
+    }),
+});
@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter, developerProcedure } from "@/server/api/trpc";
+import { activeVersionWhere, userSummarySelect, versionReferenceSelect } from "@/server/api/selects";
+import { createShareToken } from "@/server/share-links";
+import { SHARE_LINK_EXPIRY_DAYS } from "@/lib/share-links";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Managing read-only share links; the links themselves are opened at /share/<token>
+export const shareRouter = createTRPCRouter({
+  list: developerProcedure
+    .input(z.object({ componentId: z.string() }))
+    .query(async ({ ctx, input }) => {
+      return ctx.db.shareLink.findMany({
+        where: { componentId: input.componentId },
+        orderBy: { createdAt: "desc" },
+        include: {
+          version: { select: versionReferenceSelect },
+          createdBy: { select: userSummarySelect },
+        },
+      });
+    }),
+
+  create: developerProcedure
+    .input(
+      z.object({
+        componentId: z.string(),
+        // Omit to follow the latest version
+        versionId: z.string().nullish(),
+        expiresInDays: z
+          .number()
+          .int()
+          .refine((days) => (SHARE_LINK_EXPIRY_DAYS as readonly number[]).includes(days), {
+            message: `Expiry must be one of ${SHARE_LINK_EXPIRY_DAYS.join(", ")} days`,
+          }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const component = await ctx.db.component.findUnique({
+        where: { id: input.componentId },
+        select: { deletedAt: true },
+      });
+      if (!component || component.deletedAt) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Component not found" });
+      }
+
+      if (input.versionId) {
+        const version = await ctx.db.componentVersion.findFirst({
+          where: { id: input.versionId, componentId: input.componentId, ...activeVersionWhere },
+          select: { id: true },
+        });
+        if (!version) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Version not found for this component" });
+        }
+      }
+
+      return ctx.db.shareLink.create({
+        data: {
+          token: createShareToken(),
+          componentId: input.componentId,
+          versionId: input.versionId ?? null,
+          expiresAt: new Date(Date.now() + input.expiresInDays * DAY_MS),
+          createdById: ctx.session.user.id,
+        },
+        include: {
+          version: { select: versionReferenceSelect },
+          createdBy: { select: userSummarySelect },
+        },
+      });
+    }),
+
+  // Revoked links stay listed with their view count; they can't be re-enabled
+  revoke: developerProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const link = await ctx.db.shareLink.findUnique({ where: { id: input.id } });
+      if (!link) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Share link not found" });
+      }
+      if (link.revokedAt) return link;
+
+      return ctx.db.shareLink.update({
+        where: { id: input.id },
+        data: { revokedAt: new Date() },
+      });
+    }),
+});
@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import {
+  createTRPCRouter,
+  protectedProcedure,
+  superadminProcedure,
+} from "@/server/api/trpc";
+import { tagNameSchema } from "@/server/tags";
+
+export const tagRouter = createTRPCRouter({
+  // Every tag with the number of non-deleted components using it; also feeds autocomplete
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const tags = await ctx.db.tag.findMany({
+      orderBy: { name: "asc" },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        _count: {
+          select: {
+            components: { where: { component: { deletedAt: null } } },
+          },
+        },
+      },
+    });
+
+    return tags.map(({ _count, ...tag }) => ({
+      ...tag,
+      componentCount: _count.components,
+    }));
+  }),
+
+  rename: superadminProcedure
+    .input(z.object({ id: z.string(), name: tagNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await ctx.db.tag.findUnique({ where: { name: input.name } });
+      if (existing && existing.id !== input.id) {
+        throw new TRPCError({
+          code: "CONFLICT",
+          message: `Tag "${input.name}" already exists. Merge the tags instead.`,
+        });
+      }
+
+      return ctx.db.tag.update({
+        where: { id: input.id },
+        data: { name: input.name },
+      });
+    }),
+
+  // Moves every component from the source tags onto the target, then deletes the sources
+  merge: superadminProcedure
+    .input(
+      z.object({
+        sourceIds: z.array(z.string()).min(1),
+        targetId: z.string(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const sourceIds = input.sourceIds.filter((id) => id !== input.targetId);
+      if (sourceIds.length === 0) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Choose at least one tag other than the target to merge",
+        });
+      }
+
+      const target = await ctx.db.tag.findUnique({ where: { id: input.targetId } });
+      if (!target) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Target tag not found" });
+      }
+
+      return ctx.db.$transaction(async (tx) => {
+        const links = await tx.componentTag.findMany({
+          where: { tagId: { in: sourceIds } },
+          select: { componentId: true },
+        });
+
+        const { count: retaggedCount } = await tx.componentTag.createMany({
+          data: links.map((link) => ({ componentId: link.componentId, tagId: target.id })),
+          skipDuplicates: true,
+        });
+
+        // Links to the source tags cascade
+        const { count: mergedCount } = await tx.tag.deleteMany({
+          where: { id: { in: sourceIds } },
+        });
+
+        return { target, mergedCount, retaggedCount };
+      });
+    }),
+
+  delete: superadminProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    return ctx.db.tag.delete({ where: { id: input } });
+  }),
+});
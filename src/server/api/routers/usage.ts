@@ -0,0 +1,42 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { getComponentUsage, getLibraryUsageReport, recordUsageEvent } from "@/server/usage";
+import { DEFAULT_USAGE_PERIOD, USAGE_EVENT_TYPES, USAGE_PERIODS } from "@/lib/usage";
+
+const periodSchema = z
+  .number()
+  .int()
+  .refine((days) => (USAGE_PERIODS as readonly number[]).includes(days), "Unsupported period")
+  .default(DEFAULT_USAGE_PERIOD);
+
+// Component usage analytics (see src/server/usage.ts)
+export const usageRouter = createTRPCRouter({
+  record: protectedProcedure
+    .input(z.object({ componentId: z.string(), type: z.enum(USAGE_EVENT_TYPES) }))
+    .mutation(async ({ ctx, input }) => {
+      return recordUsageEvent(ctx.db, { ...input, userId: ctx.session.user.id });
+    }),
+
+  getComponentStats: protectedProcedure
+    .input(z.object({ componentId: z.string(), days: periodSchema }))
+    .query(async ({ ctx, input }) => {
+      return getComponentUsage(ctx.db, input.componentId, input.days);
+    }),
+
+  // "Most used / never used" across the whole library
+  getLibraryReport: protectedProcedure
+    .input(
+      z
+        .object({
+          days: periodSchema,
+          limit: z.number().int().min(1).max(100).default(25),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      return getLibraryUsageReport(ctx.db, {
+        days: input?.days ?? DEFAULT_USAGE_PERIOD,
+        limit: input?.limit ?? 25,
+      });
+    }),
+});
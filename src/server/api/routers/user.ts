@@ -2,19 +2,16 @@ import { z } from "zod";
 import {
     createTRPCRouter,
     protectedProcedure,
+    superadminProcedure,
 } from "@/server/api/trpc";
 import { TRPCError } from "@trpc/server";
 import bcrypt from "bcryptjs";
 import { sendWelcomeEmail } from "@/lib/email";
+import { getUserUsageStats } from "@/server/usage";
 
 export const userRouter = createTRPCRouter({
-    getAll: protectedProcedure
+    getAll: superadminProcedure
         .query(async ({ ctx }) => {
-            // Check if the user is a superadmin using the session role
-            if (ctx.session.user.role !== "superadmin") {
-                throw new TRPCError({ code: "FORBIDDEN", message: "You are not authorized to view users" });
-            }
-
             return ctx.db.user.findMany({
                 orderBy: { createdAt: "desc" },
                 select: {
@@ -28,17 +25,12 @@ export const userRouter = createTRPCRouter({
             });
         }),
 
-    setRole: protectedProcedure
+    setRole: superadminProcedure
         .input(z.object({
             userId: z.string(),
             role: z.enum(["user", "developer", "superadmin"]),
         }))
         .mutation(async ({ ctx, input }) => {
-            // Check if the user is a superadmin
-            if (ctx.session.user.role !== "superadmin") {
-                throw new TRPCError({ code: "FORBIDDEN", message: "You are not authorized to manage roles" });
-            }
-
             // Prevent changing your own role (optional safety)
             if (ctx.session.user.id === input.userId) {
                 throw new TRPCError({ code: "BAD_REQUEST", message: "You cannot change your own role" });
@@ -50,7 +42,7 @@ export const userRouter = createTRPCRouter({
             });
         }),
 
-    createUser: protectedProcedure
+    createUser: superadminProcedure
         .input(z.object({
             email: z.string().email(),
             name: z.string().min(1),
@@ -58,11 +50,6 @@ export const userRouter = createTRPCRouter({
             role: z.enum(["user", "developer", "superadmin"]).default("user"),
         }))
         .mutation(async ({ ctx, input }) => {
-            // Check if the user is a superadmin
-            if (ctx.session.user.role !== "superadmin") {
-                throw new TRPCError({ code: "FORBIDDEN", message: "You are not authorized to create users" });
-            }
-
             // Validate email domain
             if (!input.email.endsWith("@position2.com")) {
                 throw new TRPCError({ 
@@ -123,9 +110,20 @@ export const userRouter = createTRPCRouter({
                 ? (await ctx.db.user.findUnique({ where: { id: ctx.session.user.id }, select: { createdAt: true } }))?.createdAt
                 : new Date();
 
+            const [componentCount, collectionCount, usage] = await Promise.all([
+                ctx.db.component.count({
+                    where: { createdById: ctx.session.user.id, deletedAt: null },
+                }),
+                ctx.db.collection.count({
+                    where: { createdById: ctx.session.user.id },
+                }),
+                getUserUsageStats(ctx.db, ctx.session.user.id),
+            ]);
+
             return {
-                componentCount: 0,
-                collectionCount: 0,
+                componentCount,
+                collectionCount,
+                ...usage,
                 memberSince: memberSince || new Date(),
             };
         }),
@@ -1,5 +1,24 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "@/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import type { Prisma } from "@prisma/client";
+import {
+  createTRPCRouter,
+  developerProcedure,
+  protectedProcedure,
+  superadminProcedure,
+} from "@/server/api/trpc";
+import {
+  activeVersionWhere,
+  userSummarySelect,
+  versionLabelsInclude,
+  versionReferenceSelect,
+} from "@/server/api/selects";
+import { diffFiles, summarizeDiff } from "@/lib/version-diff";
+import {
+  MAX_VERSION_MESSAGE_LENGTH,
+  normalizeLabelName,
+  validateLabelName,
+} from "@/lib/version-labels";
 
 // Schema for a single file
 const fileSchema = z.object({
@@ -9,37 +28,103 @@ const fileSchema = z.object({
   order: z.number().default(0),
 });
 
+const labelNameSchema = z
+  .string()
+  .transform(normalizeLabelName)
+  .superRefine((name, ctx) => {
+    const error = validateLabelName(name);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  });
+
+type FileInput = z.infer<typeof fileSchema>;
+
+// Claims the next version number and creates the version inside `tx`. The
+// counter only ever grows, so numbers of archived or purged versions are never
+// handed out again.
+async function createNextVersion(
+  tx: Prisma.TransactionClient,
+  {
+    componentId,
+    userId,
+    files,
+    message,
+    restoredFromId,
+  }: {
+    componentId: string;
+    userId: string;
+    files: FileInput[];
+    message?: string | null;
+    restoredFromId?: string;
+  }
+) {
+  const component = await tx.component.update({
+    where: { id: componentId },
+    data: {
+      lastVersionNumber: { increment: 1 },
+      updatedAt: new Date(),
+      updatedById: userId,
+    },
+    select: { lastVersionNumber: true },
+  });
+
+  return tx.componentVersion.create({
+    data: {
+      componentId,
+      version: component.lastVersionNumber,
+      message: message || null,
+      createdById: userId,
+      restoredFromId,
+      files: {
+        create: files.map((file, index) => ({
+          filename: file.filename,
+          language: file.language,
+          code: file.code,
+          order: file.order ?? index,
+        })),
+      },
+    },
+    include: {
+      files: {
+        orderBy: { order: "asc" },
+      },
+      createdBy: { select: userSummarySelect },
+      restoredFrom: { select: versionReferenceSelect },
+      labels: versionLabelsInclude,
+    },
+  });
+}
+
 export const versionRouter = createTRPCRouter({
-  add: publicProcedure
+  add: developerProcedure
     .input(
       z.object({
         componentId: z.string(),
         files: z.array(fileSchema).min(1),
+        message: z.string().trim().max(MAX_VERSION_MESSAGE_LENGTH).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
-      // Get the latest version number
-      const latestVersion = await ctx.db.componentVersion.findFirst({
-        where: { componentId: input.componentId },
-        orderBy: { version: "desc" },
-      });
-
-      const newVersionNumber = (latestVersion?.version ?? 0) + 1;
-
-      // Create new version with files
-      const version = await ctx.db.componentVersion.create({
-        data: {
+      return ctx.db.$transaction((tx) =>
+        createNextVersion(tx, {
           componentId: input.componentId,
-          version: newVersionNumber,
-          files: {
-            create: input.files.map((file, index) => ({
-              filename: file.filename,
-              language: file.language,
-              code: file.code,
-              order: file.order ?? index,
-            })),
-          },
-        },
+          userId: ctx.session.user.id,
+          files: input.files,
+          message: input.message,
+        })
+      );
+    }),
+
+  // Copies the files of any version, archived ones included, into a new latest version
+  restore: developerProcedure
+    .input(
+      z.object({
+        versionId: z.string(),
+        message: z.string().trim().max(MAX_VERSION_MESSAGE_LENGTH).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const source = await ctx.db.componentVersion.findUnique({
+        where: { id: input.versionId },
         include: {
           files: {
             orderBy: { order: "asc" },
@@ -47,164 +132,287 @@ export const versionRouter = createTRPCRouter({
         },
       });
 
-      // Update component's updatedAt
-      await ctx.db.component.update({
-        where: { id: input.componentId },
-        data: { updatedAt: new Date() },
-      });
+      if (!source) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+      }
 
-      return version;
+      return ctx.db.$transaction((tx) =>
+        createNextVersion(tx, {
+          componentId: source.componentId,
+          userId: ctx.session.user.id,
+          files: source.files,
+          message: input.message || `Restored from v${source.version}`,
+          restoredFromId: source.id,
+        })
+      );
     }),
 
-  list: publicProcedure.input(z.string()).query(async ({ ctx, input }) => {
-    const versions = await ctx.db.componentVersion.findMany({
-      where: { componentId: input },
-      orderBy: { version: "desc" },
-      include: {
-        files: {
-          orderBy: { order: "asc" },
+  list: protectedProcedure
+    .input(
+      z.object({
+        componentId: z.string(),
+        includeArchived: z.boolean().default(false),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const versions = await ctx.db.componentVersion.findMany({
+        where: {
+          componentId: input.componentId,
+          ...(input.includeArchived ? {} : activeVersionWhere),
         },
-      },
-    });
+        orderBy: { version: "desc" },
+        include: {
+          files: {
+            orderBy: { order: "asc" },
+          },
+          createdBy: { select: userSummarySelect },
+          archivedBy: { select: userSummarySelect },
+          restoredFrom: { select: versionReferenceSelect },
+          labels: versionLabelsInclude,
+        },
+      });
 
-    return versions;
-  }),
+      return versions;
+    }),
 
-  getById: publicProcedure.input(z.string()).query(async ({ ctx, input }) => {
+  // Archived versions stay addressable by id so existing links keep working
+  getById: protectedProcedure.input(z.string()).query(async ({ ctx, input }) => {
     const version = await ctx.db.componentVersion.findUnique({
       where: { id: input },
       include: {
         files: {
           orderBy: { order: "asc" },
         },
+        createdBy: { select: userSummarySelect },
+        archivedBy: { select: userSummarySelect },
+        restoredFrom: { select: versionReferenceSelect },
+        labels: versionLabelsInclude,
       },
     });
 
     return version;
   }),
 
-  getLatest: publicProcedure.input(z.string()).query(async ({ ctx, input }) => {
+  getLatest: protectedProcedure.input(z.string()).query(async ({ ctx, input }) => {
     const version = await ctx.db.componentVersion.findFirst({
-      where: { componentId: input },
+      where: { componentId: input, ...activeVersionWhere },
       orderBy: { version: "desc" },
       include: {
         files: {
           orderBy: { order: "asc" },
         },
+        createdBy: { select: userSummarySelect },
+        labels: versionLabelsInclude,
       },
     });
 
     return version;
   }),
 
-  delete: publicProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
-    try {
-      console.log("[Version Delete Server] ========== DELETE MUTATION CALLED ==========");
-      console.log("[Version Delete Server] Input version ID:", input);
-      console.log("[Version Delete Server] Input type:", typeof input);
-      console.log("[Version Delete Server] Input length:", input?.length);
-      
-      // Get the version to check if it's the only one
-      console.log("[Version Delete Server] Fetching version from database...");
-      const version = await ctx.db.componentVersion.findUnique({
-        where: { id: input },
+  // Resolves a label such as "stable" or "1.2.0" to the version it points at
+  getByLabel: protectedProcedure
+    .input(z.object({ componentId: z.string(), label: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const label = await ctx.db.versionLabel.findUnique({
+        where: {
+          componentId_name: {
+            componentId: input.componentId,
+            name: normalizeLabelName(input.label),
+          },
+        },
         include: {
-          component: {
+          version: {
             include: {
-              versions: {
-                orderBy: { version: "asc" },
+              files: {
+                orderBy: { order: "asc" },
               },
+              createdBy: { select: userSummarySelect },
+              labels: versionLabelsInclude,
             },
           },
         },
       });
 
-      console.log("[Version Delete Server] Version query result:", version ? "Found" : "Not found");
-      
+      return label?.version ?? null;
+    }),
+
+  // Labels are unique per component, so setting an existing label moves it
+  setLabel: developerProcedure
+    .input(z.object({ versionId: z.string(), name: labelNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const version = await ctx.db.componentVersion.findUnique({
+        where: { id: input.versionId },
+        select: { componentId: true },
+      });
+
       if (!version) {
-        console.error("[Version Delete Server] ❌ Version not found for ID:", input);
-        throw new Error("Version not found");
+        throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
       }
 
-      console.log("[Version Delete Server] ✅ Version found:");
-      console.log("[Version Delete Server]   - Version ID:", version.id);
-      console.log("[Version Delete Server]   - Version number:", version.version);
-      console.log("[Version Delete Server]   - Component ID:", version.componentId);
-      console.log("[Version Delete Server]   - Total versions:", version.component.versions.length);
-      console.log("[Version Delete Server]   - All version numbers:", version.component.versions.map(v => v.version));
-
-      // Don't allow deleting if it's the only version
-      if (version.component.versions.length === 1) {
-        console.error("[Version Delete Server] ❌ Cannot delete the only version");
-        throw new Error("Cannot delete the only version of a component");
-      }
+      return ctx.db.versionLabel.upsert({
+        where: {
+          componentId_name: { componentId: version.componentId, name: input.name },
+        },
+        create: {
+          componentId: version.componentId,
+          versionId: input.versionId,
+          name: input.name,
+          createdById: ctx.session.user.id,
+        },
+        update: {
+          versionId: input.versionId,
+        },
+      });
+    }),
 
-      const componentId = version.componentId;
-      console.log("[Version Delete Server] Starting transaction for component:", componentId);
+  removeLabel: developerProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const { count } = await ctx.db.versionLabel.deleteMany({ where: { id: input } });
 
-      // Perform deletion and renumbering in a transaction
-      await ctx.db.$transaction(async (tx) => {
-        console.log("[Version Delete Server] [Transaction] Deleting version:", input);
-        
-        // Delete the version (files will be cascade deleted)
-        const deleteResult = await tx.componentVersion.delete({
-          where: { id: input },
-        });
-        console.log("[Version Delete Server] [Transaction] Delete result:", deleteResult);
-
-        // Renumber all remaining versions starting from 1
-        // Get all remaining versions ordered by their current version number
-        console.log("[Version Delete Server] [Transaction] Fetching remaining versions...");
-        const remainingVersions = await tx.componentVersion.findMany({
-          where: { componentId },
-          orderBy: { version: "asc" },
-        });
+    if (count === 0) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Label not found" });
+    }
+
+    return { success: true };
+  }),
+
+  // Per-file diff between two versions of the same component
+  diff: protectedProcedure
+    .input(
+      z.object({
+        fromVersionId: z.string(),
+        toVersionId: z.string(),
+        contextLines: z.number().int().min(0).max(50).optional(),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const [from, to] = await Promise.all(
+        [input.fromVersionId, input.toVersionId].map((id) =>
+          ctx.db.componentVersion.findUnique({
+            where: { id },
+            include: {
+              files: {
+                orderBy: { order: "asc" },
+              },
+            },
+          })
+        )
+      );
+
+      if (!from || !to) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+      }
 
-        console.log("[Version Delete Server] [Transaction] Remaining versions count:", remainingVersions.length);
-        console.log("[Version Delete Server] [Transaction] Remaining version IDs:", remainingVersions.map(v => ({ id: v.id, version: v.version })));
-
-        // Update each version to have sequential numbers starting from 1
-        for (let i = 0; i < remainingVersions.length; i++) {
-          const newVersionNumber = i + 1;
-          const currentVersion = remainingVersions[i]!;
-          console.log(`[Version Delete Server] [Transaction] Processing version ${i + 1}/${remainingVersions.length}:`, {
-            id: currentVersion.id,
-            currentVersion: currentVersion.version,
-            newVersion: newVersionNumber,
-            needsUpdate: currentVersion.version !== newVersionNumber,
-          });
-          
-          if (currentVersion.version !== newVersionNumber) {
-            console.log(`[Version Delete Server] [Transaction] ⚙️ Renumbering version ${currentVersion.version} to ${newVersionNumber}`);
-            const updateResult = await tx.componentVersion.update({
-              where: { id: currentVersion.id },
-              data: { version: newVersionNumber },
-            });
-            console.log(`[Version Delete Server] [Transaction] ✅ Updated version ${currentVersion.id} to version ${newVersionNumber}`);
-          } else {
-            console.log(`[Version Delete Server] [Transaction] ⏭️ Skipping version ${currentVersion.id} (already at version ${newVersionNumber})`);
-          }
-        }
-
-        // Update component's updatedAt
-        console.log("[Version Delete Server] [Transaction] Updating component updatedAt...");
-        await tx.component.update({
-          where: { id: componentId },
-          data: { updatedAt: new Date() },
+      if (from.componentId !== to.componentId) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Versions belong to different components",
         });
-        console.log("[Version Delete Server] [Transaction] ✅ Component updatedAt set");
+      }
+
+      const files = diffFiles(from.files, to.files, { contextLines: input.contextLines });
+
+      return {
+        from: { id: from.id, version: from.version, createdAt: from.createdAt },
+        to: { id: to.id, version: to.version, createdAt: to.createdAt },
+        files,
+        summary: summarizeDiff(files),
+      };
+    }),
+
+  archive: superadminProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const version = await ctx.db.componentVersion.findUnique({
+      where: { id: input },
+    });
+
+    if (!version) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+    }
+
+    if (version.archivedAt) {
+      return version;
+    }
+
+    const activeCount = await ctx.db.componentVersion.count({
+      where: { componentId: version.componentId, ...activeVersionWhere },
+    });
+
+    if (activeCount <= 1) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: "Cannot archive the only version of a component",
       });
+    }
+
+    const [archived] = await ctx.db.$transaction([
+      ctx.db.componentVersion.update({
+        where: { id: input },
+        data: { archivedAt: new Date(), archivedById: ctx.session.user.id },
+      }),
+      ctx.db.component.update({
+        where: { id: version.componentId },
+        data: { updatedAt: new Date(), updatedById: ctx.session.user.id },
+      }),
+    ]);
+
+    return archived;
+  }),
 
-      console.log("[Version Delete Server] ✅ Transaction completed successfully");
-      console.log("[Version Delete Server] ========== DELETE MUTATION SUCCESS ==========");
-      return { success: true };
-    } catch (error) {
-      console.error("[Version Delete Server] ❌ ========== DELETE MUTATION ERROR ==========");
-      console.error("[Version Delete Server] Error type:", error instanceof Error ? error.constructor.name : typeof error);
-      console.error("[Version Delete Server] Error message:", error instanceof Error ? error.message : String(error));
-      console.error("[Version Delete Server] Error stack:", error instanceof Error ? error.stack : "No stack");
-      console.error("[Version Delete Server] Full error:", error);
-      throw error;
+  unarchive: superadminProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const version = await ctx.db.componentVersion.findUnique({
+      where: { id: input },
+    });
+
+    if (!version) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
     }
+
+    const [unarchived] = await ctx.db.$transaction([
+      ctx.db.componentVersion.update({
+        where: { id: input },
+        data: { archivedAt: null, archivedById: null },
+      }),
+      ctx.db.component.update({
+        where: { id: version.componentId },
+        data: { updatedAt: new Date(), updatedById: ctx.session.user.id },
+      }),
+    ]);
+
+    return unarchived;
+  }),
+
+  // Permanently deletes a version and its files. Remaining versions keep their
+  // numbers, leaving a gap in the history.
+  purge: superadminProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const version = await ctx.db.componentVersion.findUnique({
+      where: { id: input },
+    });
+
+    if (!version) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Version not found" });
+    }
+
+    if (!version.archivedAt) {
+      const activeCount = await ctx.db.componentVersion.count({
+        where: { componentId: version.componentId, ...activeVersionWhere },
+      });
+
+      if (activeCount <= 1) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Cannot purge the only version of a component",
+        });
+      }
+    }
+
+    await ctx.db.$transaction([
+      // Files are cascade deleted
+      ctx.db.componentVersion.delete({ where: { id: input } }),
+      ctx.db.component.update({
+        where: { id: version.componentId },
+        data: { updatedAt: new Date(), updatedById: ctx.session.user.id },
+      }),
+    ]);
+
+    return { success: true };
   }),
 });
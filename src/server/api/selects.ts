@@ -0,0 +1,31 @@
+// Public user fields embedded in component, version and collection payloads.
+// Never include password or role here.
+export const userSummarySelect = {
+  id: true,
+  name: true,
+  email: true,
+  image: true,
+} as const;
+
+// Versions shown by default. Archived versions keep their number but are hidden.
+export const activeVersionWhere = {
+  archivedAt: null,
+} as const;
+
+// Labels attached to a version, e.g. "stable" or "1.2.0"
+export const versionLabelsInclude = {
+  select: { id: true, name: true },
+  orderBy: { name: "asc" },
+} as const;
+
+// Minimal reference to another version, e.g. the one a version was restored from
+export const versionReferenceSelect = {
+  id: true,
+  version: true,
+} as const;
+
+// Tags on a component, alphabetically
+export const componentTagsInclude = {
+  select: { tag: { select: { id: true, name: true } } },
+  orderBy: { tag: { name: "asc" } },
+} as const;
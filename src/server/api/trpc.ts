@@ -3,6 +3,8 @@ import superjson from "superjson";
 import { ZodError } from "zod";
 import { db } from "@/server/db";
 import { auth } from "@/auth";
+import { hasRole, type Role } from "@/lib/permissions";
+import { recordAuditEvent } from "@/server/audit";
 
 export const createTRPCContext = async (opts: { headers: Headers }) => {
   const session = await auth();
@@ -31,11 +33,32 @@ const t = initTRPC.context<typeof createTRPCContext>().create({
 export const createCallerFactory = t.createCallerFactory;
 export const createTRPCRouter = t.router;
 
+// Records every mutation, including ones rejected by the auth checks below,
+// as an AuditEvent (see src/server/audit.ts). Queries are not recorded.
+const auditedProcedure = t.procedure.use(async ({ ctx, type, path, getRawInput, next }) => {
+  if (type !== "mutation") return next();
+
+  const startedAt = Date.now();
+  const result = await next();
+  const input = await getRawInput().catch(() => undefined);
+
+  await recordAuditEvent(ctx.db, {
+    actor: ctx.session?.user ?? null,
+    procedure: path,
+    input,
+    output: result.ok ? result.data : undefined,
+    error: result.ok ? null : result.error,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return result;
+});
+
 // Public procedure (no auth required)
-export const publicProcedure = t.procedure;
+export const publicProcedure = auditedProcedure;
 
 // Protected procedure (requires authentication)
-export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
+export const protectedProcedure = auditedProcedure.use(async ({ ctx, next }) => {
   if (!ctx.session?.user) {
     throw new TRPCError({ code: "UNAUTHORIZED" });
   }
@@ -46,3 +69,21 @@ export const protectedProcedure = t.procedure.use(async ({ ctx, next }) => {
     },
   });
 });
+
+// Role-gated procedure (requires authentication and at least `role`)
+export const roleProcedure = (role: Role) =>
+  protectedProcedure.use(async ({ ctx, next }) => {
+    if (!hasRole(ctx.session.user.role, role)) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message: `This action requires the ${role} role`,
+      });
+    }
+    return next();
+  });
+
+// Developers and above can create and edit components, versions and collections
+export const developerProcedure = roleProcedure("developer");
+
+// Only superadmins can perform destructive or administrative actions
+export const superadminProcedure = roleProcedure("superadmin");
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { getAuditTargetIds, summarizeAuditValue } from "./audit";
+
+describe("summarizeAuditValue", () => {
+  it("keeps scalars and drops missing values", () => {
+    expect(summarizeAuditValue("name")).toBe("name");
+    expect(summarizeAuditValue(3)).toBe(3);
+    expect(summarizeAuditValue(false)).toBe(false);
+    expect(summarizeAuditValue(null)).toBeNull();
+    expect(summarizeAuditValue(undefined)).toBeNull();
+    expect(summarizeAuditValue({ a: 1, b: undefined })).toEqual({ a: 1 });
+  });
+
+  it("makes dates and bigints JSON-safe", () => {
+    expect(summarizeAuditValue(new Date("2026-01-02T03:04:05.000Z"))).toBe("2026-01-02T03:04:05.000Z");
+    expect(summarizeAuditValue(BigInt(10))).toBe("10");
+  });
+
+  it("redacts secrets at any depth", () => {
+    expect(
+      summarizeAuditValue({
+        email: "a@b.c",
+        password: "hunter2",
+        nested: { newPassword: "x", apiKey: "k", api_key: "k", shareToken: "t", Authorization: "Bearer t" },
+      })
+    ).toEqual({
+      email: "a@b.c",
+      password: "[redacted]",
+      nested: {
+        newPassword: "[redacted]",
+        apiKey: "[redacted]",
+        api_key: "[redacted]",
+        shareToken: "[redacted]",
+        Authorization: "[redacted]",
+      },
+    });
+  });
+
+  it("truncates long strings and notes their length", () => {
+    const summary = summarizeAuditValue("x".repeat(250));
+    expect(summary).toBe(`${"x".repeat(200)}… (250 chars)`);
+    expect(summarizeAuditValue("x".repeat(200))).toBe("x".repeat(200));
+  });
+
+  it("keeps the first array items and counts the rest", () => {
+    const summary = summarizeAuditValue(Array.from({ length: 25 }, (_, i) => i)) as unknown[];
+    expect(summary).toHaveLength(21);
+    expect(summary[19]).toBe(19);
+    expect(summary[20]).toBe("… 5 more");
+  });
+
+  it("elides structures nested deeper than the limit", () => {
+    const deep = { a: { b: { c: { d: { e: 1 }, list: [1, 2] } } } };
+    expect(summarizeAuditValue(deep)).toEqual({ a: { b: { c: { d: "[object]", list: "[2 items]" } } } });
+    expect(summarizeAuditValue(deep, 1)).toEqual({ a: "[object]" });
+  });
+});
+
+describe("getAuditTargetIds", () => {
+  it("takes a bare string input as the target", () => {
+    expect(getAuditTargetIds("abc")).toEqual(["abc"]);
+  });
+
+  it("collects id fields of the input and one level below it", () => {
+    expect(
+      getAuditTargetIds({
+        id: "c1",
+        collectionIds: ["k1", "k2"],
+        versionId: "v1",
+        name: "not an id",
+        data: { parentId: "p1", deep: { ownerId: "ignored" } },
+      })
+    ).toEqual(["c1", "k1", "k2", "v1", "p1"]);
+  });
+
+  it("does not mistake words ending in id for id fields", () => {
+    expect(getAuditTargetIds({ valid: "yes", paid: "no" })).toEqual([]);
+  });
+
+  it("adds the id of a returned record without duplicates", () => {
+    expect(getAuditTargetIds({ name: "Button" }, { id: "new", name: "Button" })).toEqual(["new"]);
+    expect(getAuditTargetIds({ id: "same" }, { id: "same" })).toEqual(["same"]);
+  });
+
+  it("ignores non-string ids and caps the list", () => {
+    expect(getAuditTargetIds({ id: 5, ids: ["a", 1, null] })).toEqual(["a"]);
+    const ids = Array.from({ length: 60 }, (_, i) => `id${i}`);
+    expect(getAuditTargetIds({ ids })).toHaveLength(50);
+  });
+});
@@ -0,0 +1,207 @@
+import type { TRPCError } from "@trpc/server";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { userSummarySelect } from "@/server/api/selects";
+
+// Audit trail of tRPC mutations. Events are written by the audit middleware in
+// src/server/api/trpc.ts and read by superadmins through the audit router.
+
+// Input keys whose values are never stored
+const REDACTED_KEY = /pass(word)?|secret|token|api[-_]?key|authorization/i;
+const REDACTED = "[redacted]";
+
+// Keeps summaries small: code and backups can be megabytes
+const MAX_STRING_LENGTH = 200;
+const MAX_ARRAY_ITEMS = 20;
+const MAX_DEPTH = 4;
+// Results are often whole records with their versions and files; ids and
+// counts near the top are what matter
+const MAX_RESULT_DEPTH = 3;
+const MAX_TARGET_IDS = 50;
+const MAX_ERROR_LENGTH = 500;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * A JSON-safe copy of a mutation's input or result with secrets redacted, long
+ * strings truncated and deep or large structures elided.
+ */
+export function summarizeAuditValue(
+  value: unknown,
+  maxDepth = MAX_DEPTH,
+  depth = 0
+): Prisma.InputJsonValue | null {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (typeof value === "number" || typeof value === "boolean") return value;
+  if (typeof value === "bigint") return value.toString();
+
+  if (Array.isArray(value)) {
+    if (depth >= maxDepth) return `[${value.length} items]`;
+    const items = value
+      .slice(0, MAX_ARRAY_ITEMS)
+      .map((item) => summarizeAuditValue(item, maxDepth, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) items.push(`… ${value.length - MAX_ARRAY_ITEMS} more`);
+    return items;
+  }
+
+  if (isPlainObject(value)) {
+    if (depth >= maxDepth) return "[object]";
+    const summary: Record<string, Prisma.InputJsonValue | null> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) continue;
+      summary[key] = REDACTED_KEY.test(key) ? REDACTED : summarizeAuditValue(item, maxDepth, depth + 1);
+    }
+    return summary;
+  }
+
+  return String(value);
+}
+
+function isIdKey(key: string) {
+  return key === "id" || key === "ids" || /[a-z]Ids?$/.test(key);
+}
+
+function collectIds(value: unknown, into: Set<string>) {
+  if (typeof value === "string") into.add(value);
+  else if (Array.isArray(value)) value.forEach((item) => typeof item === "string" && into.add(item));
+}
+
+/**
+ * Ids a mutation acted on: a bare string input, `id`/`ids` and `…Id`/`…Ids`
+ * fields of the input and of objects nested one level down, plus the id of a
+ * returned record (for creates). Nested payloads such as backups are not searched.
+ */
+export function getAuditTargetIds(input: unknown, output?: unknown) {
+  const ids = new Set<string>();
+
+  if (typeof input === "string") ids.add(input);
+  if (isPlainObject(input)) {
+    for (const [key, value] of Object.entries(input)) {
+      if (isIdKey(key)) collectIds(value, ids);
+      else if (isPlainObject(value)) {
+        for (const [nestedKey, nestedValue] of Object.entries(value)) {
+          if (isIdKey(nestedKey)) collectIds(nestedValue, ids);
+        }
+      }
+    }
+  }
+  if (isPlainObject(output) && typeof output.id === "string") ids.add(output.id);
+
+  return Array.from(ids).slice(0, MAX_TARGET_IDS);
+}
+
+/**
+ * Records one mutation. Failures are logged rather than thrown so a broken
+ * audit write never fails or masks the mutation itself.
+ */
+export async function recordAuditEvent(
+  db: PrismaClient,
+  event: {
+    actor: { id?: string | null; email?: string | null } | null;
+    procedure: string;
+    input: unknown;
+    output?: unknown;
+    error?: TRPCError | null;
+    durationMs: number;
+  }
+) {
+  try {
+    await db.auditEvent.create({
+      data: {
+        actorId: event.actor?.id ?? null,
+        actorEmail: event.actor?.email ?? null,
+        procedure: event.procedure,
+        targetIds: getAuditTargetIds(event.input, event.output),
+        input: summarizeAuditValue(event.input) ?? undefined,
+        // What the mutation returned, e.g. the { succeeded, failed } of bulk actions
+        result: event.error ? undefined : summarizeAuditValue(event.output, MAX_RESULT_DEPTH) ?? undefined,
+        success: !event.error,
+        errorCode: event.error?.code ?? null,
+        errorMessage: event.error?.message.slice(0, MAX_ERROR_LENGTH) ?? null,
+        durationMs: event.durationMs,
+      },
+    });
+  } catch (error) {
+    console.error("[Audit] Failed to record event:", error);
+  }
+}
+
+export interface AuditFilters {
+  actorId?: string;
+  procedure?: string;
+  targetId?: string;
+  success?: boolean;
+  from?: Date;
+  to?: Date;
+}
+
+export function getAuditWhere(filters: AuditFilters | undefined): Prisma.AuditEventWhereInput {
+  return {
+    ...(filters?.actorId ? { actorId: filters.actorId } : {}),
+    ...(filters?.procedure ? { procedure: filters.procedure } : {}),
+    ...(filters?.targetId ? { targetIds: { has: filters.targetId } } : {}),
+    ...(filters?.success !== undefined ? { success: filters.success } : {}),
+    ...(filters?.from || filters?.to
+      ? { createdAt: { ...(filters.from ? { gte: filters.from } : {}), ...(filters.to ? { lt: filters.to } : {}) } }
+      : {}),
+  };
+}
+
+export const auditEventSelect = {
+  id: true,
+  createdAt: true,
+  actorId: true,
+  actorEmail: true,
+  procedure: true,
+  targetIds: true,
+  input: true,
+  result: true,
+  success: true,
+  errorCode: true,
+  errorMessage: true,
+  durationMs: true,
+  actor: { select: userSummarySelect },
+} satisfies Prisma.AuditEventSelect;
+
+type AuditEventRow = Prisma.AuditEventGetPayload<{ select: typeof auditEventSelect }>;
+
+function toCsvCell(value: string) {
+  // Spreadsheet apps evaluate cells starting with these characters as formulas
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function auditEventsToCsv(events: AuditEventRow[]) {
+  const header = [
+    "time",
+    "actor",
+    "actor_id",
+    "procedure",
+    "targets",
+    "result",
+    "error",
+    "duration_ms",
+    "input",
+    "output",
+  ];
+  const rows = events.map((event) => [
+    event.createdAt.toISOString(),
+    event.actor?.email ?? event.actorEmail ?? "",
+    event.actorId ?? "",
+    event.procedure,
+    event.targetIds.join(" "),
+    event.success ? "success" : event.errorCode ?? "error",
+    event.errorMessage ?? "",
+    String(event.durationMs),
+    event.input === null ? "" : JSON.stringify(event.input),
+    event.result === null ? "" : JSON.stringify(event.result),
+  ]);
+  return [header, ...rows].map((row) => row.map(toCsvCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { MAX_TAGS_PER_COMPONENT } from "@/lib/tags";
+import { canTransition, getStatusLabel } from "@/lib/component-status";
+import { tagNamesSchema } from "@/server/tags";
+
+// Upper bound for one bulk mutation and for "select all matching"
+export const MAX_BULK_ITEMS = 500;
+
+export const bulkActionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("addToCollection"), collectionId: z.string() }),
+  z.object({ type: z.literal("removeFromCollection"), collectionId: z.string() }),
+  // in_review and ready need a review per component, so they can't be set in bulk
+  z.object({ type: z.literal("setStatus"), status: z.enum(["experiment", "deprecated"]) }),
+  z.object({
+    type: z.literal("editTags"),
+    add: tagNamesSchema.default([]),
+    remove: tagNamesSchema.default([]),
+  }),
+  z.object({ type: z.literal("softDelete") }),
+]);
+
+export type BulkAction = z.infer<typeof bulkActionSchema>;
+
+export interface BulkFailure {
+  id: string;
+  title: string | null;
+  reason: string;
+}
+
+/**
+ * Applies one action to many components in a single transaction. Components
+ * the action cannot apply to (missing, in the trash, over the tag limit, ...)
+ * are skipped and reported instead of failing the whole batch; anything else
+ * rolls back every change.
+ */
+export async function runBulkAction(
+  db: PrismaClient,
+  { ids, action, userId }: { ids: string[]; action: BulkAction; userId: string }
+) {
+  return db.$transaction(async (tx) => {
+    const components = await tx.component.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        title: true,
+        status: true,
+        deletedAt: true,
+        collections: { select: { collectionId: true } },
+        tags: { select: { tag: { select: { name: true } } } },
+      },
+    });
+    const byId = new Map(components.map((component) => [component.id, component]));
+
+    const failed: BulkFailure[] = [];
+    const fail = (id: string, reason: string) =>
+      failed.push({ id, title: byId.get(id)?.title ?? null, reason });
+
+    let succeeded = ids.filter((id) => {
+      const component = byId.get(id);
+      if (!component) fail(id, "Component not found");
+      else if (component.deletedAt) fail(id, "Component is in the trash");
+      else return true;
+      return false;
+    });
+
+    switch (action.type) {
+      case "addToCollection": {
+        const collection = await tx.collection.findUnique({
+          where: { id: action.collectionId },
+          select: { id: true },
+        });
+        if (!collection) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Collection not found" });
+        }
+        // Components already in the collection count as done
+        await tx.componentCollection.createMany({
+          data: succeeded.map((componentId) => ({ componentId, collectionId: collection.id })),
+          skipDuplicates: true,
+        });
+        break;
+      }
+
+      case "removeFromCollection": {
+        succeeded = succeeded.filter((id) => {
+          const isLinked = byId
+            .get(id)!
+            .collections.some((link) => link.collectionId === action.collectionId);
+          if (!isLinked) fail(id, "Not in this collection");
+          return isLinked;
+        });
+        await tx.componentCollection.deleteMany({
+          where: { collectionId: action.collectionId, componentId: { in: succeeded } },
+        });
+        break;
+      }
+
+      case "setStatus": {
+        succeeded = succeeded.filter((id) => {
+          const { status } = byId.get(id)!;
+          // Components already in the status count as done
+          if (status === action.status || canTransition(status, action.status)) return true;
+          fail(id, `Can't move from ${getStatusLabel(status)} to ${getStatusLabel(action.status)}`);
+          return false;
+        });
+        await tx.component.updateMany({
+          where: { id: { in: succeeded } },
+          data: {
+            status: action.status,
+            ...(action.status === "experiment" ? { reviewVersionId: null } : {}),
+            updatedById: userId,
+          },
+        });
+        break;
+      }
+
+      case "editTags": {
+        succeeded = succeeded.filter((id) => {
+          const names = new Set(byId.get(id)!.tags.map((t) => t.tag.name));
+          action.remove.forEach((name) => names.delete(name));
+          action.add.forEach((name) => names.add(name));
+          if (names.size > MAX_TAGS_PER_COMPONENT) {
+            fail(id, `Would have more than ${MAX_TAGS_PER_COMPONENT} tags`);
+            return false;
+          }
+          return true;
+        });
+
+        if (action.remove.length > 0) {
+          await tx.componentTag.deleteMany({
+            where: { componentId: { in: succeeded }, tag: { name: { in: action.remove } } },
+          });
+        }
+        if (action.add.length > 0 && succeeded.length > 0) {
+          await tx.tag.createMany({
+            data: action.add.map((name) => ({ name })),
+            skipDuplicates: true,
+          });
+          const tags = await tx.tag.findMany({
+            where: { name: { in: action.add } },
+            select: { id: true },
+          });
+          await tx.componentTag.createMany({
+            data: succeeded.flatMap((componentId) =>
+              tags.map((tag) => ({ componentId, tagId: tag.id }))
+            ),
+            skipDuplicates: true,
+          });
+        }
+        await tx.component.updateMany({
+          where: { id: { in: succeeded } },
+          data: { updatedById: userId },
+        });
+        break;
+      }
+
+      case "softDelete":
+        await tx.component.updateMany({
+          where: { id: { in: succeeded } },
+          data: { deletedAt: new Date(), deletedById: userId },
+        });
+        break;
+    }
+
+    return { succeeded, failed };
+  });
+}
@@ -0,0 +1,151 @@
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { activeVersionWhere } from "@/server/api/selects";
+import { connectOrCreateTags } from "@/server/tags";
+import { getUniqueComponentSlug } from "@/server/registry";
+import { MAX_TAGS_PER_COMPONENT, normalizeTagNames } from "@/lib/tags";
+import type { ComponentArchive } from "@/lib/component-archive";
+
+const archiveFilesInclude = {
+  files: {
+    select: { filename: true, language: true, order: true, code: true },
+    orderBy: { order: "asc" },
+  },
+} as const;
+
+/**
+ * Everything needed to recreate a component elsewhere: metadata, collection
+ * and tag names, the chosen version (latest by default) and optionally every
+ * active version. Archived versions are never exported.
+ */
+export async function getComponentArchive(
+  db: PrismaClient,
+  { id, versionId, includeHistory }: { id: string; versionId?: string; includeHistory: boolean }
+): Promise<ComponentArchive> {
+  const component = await db.component.findUnique({
+    where: { id },
+    include: {
+      versions: {
+        where: activeVersionWhere,
+        orderBy: { version: "asc" },
+        include: archiveFilesInclude,
+      },
+      collections: { select: { collection: { select: { name: true, slug: true } } } },
+      tags: { select: { tag: { select: { name: true } } } },
+    },
+  });
+
+  if (!component || component.deletedAt) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Component not found" });
+  }
+
+  const version = versionId
+    ? component.versions.find((v) => v.id === versionId)
+    : component.versions[component.versions.length - 1];
+  if (!version) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Version not found for this component" });
+  }
+
+  const toArchiveVersion = (v: (typeof component.versions)[number]) => ({
+    version: v.version,
+    message: v.message,
+    createdAt: v.createdAt,
+    files: v.files,
+  });
+
+  return {
+    title: component.title,
+    description: component.description,
+    framework: component.framework,
+    language: component.language,
+    status: component.status,
+    isRenderable: component.isRenderable,
+    packageInstallCommand: component.packageInstallCommand,
+    coverImage: component.coverImage,
+    collections: component.collections.map((c) => c.collection),
+    tags: component.tags.map((t) => t.tag.name),
+    version: toArchiveVersion(version),
+    ...(includeHistory ? { history: component.versions.map(toArchiveVersion) } : {}),
+  };
+}
+
+/**
+ * Creates a new component from an archive. With `includeHistory` every
+ * version in the archive is recreated with its original number; otherwise the
+ * exported version becomes v1. Collections are matched by slug, then by name;
+ * ones that don't exist here are reported rather than created.
+ */
+export async function importComponentArchive(
+  db: PrismaClient,
+  { archive, includeHistory, userId }: { archive: ComponentArchive; includeHistory: boolean; userId: string }
+) {
+  const versions =
+    includeHistory && archive.history?.length
+      ? [...archive.history].sort((a, b) => a.version - b.version)
+      : [{ ...archive.version, version: 1 }];
+  if (new Set(versions.map((v) => v.version)).size !== versions.length) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The archive contains duplicate version numbers" });
+  }
+
+  const collections = await db.collection.findMany({
+    where: {
+      OR: [
+        { slug: { in: archive.collections.map((c) => c.slug) } },
+        { name: { in: archive.collections.map((c) => c.name) } },
+      ],
+    },
+    select: { id: true, name: true, slug: true },
+  });
+  const collectionIds = new Set<string>();
+  const missingCollections: string[] = [];
+  for (const wanted of archive.collections) {
+    const match =
+      collections.find((c) => c.slug === wanted.slug) ??
+      collections.find((c) => c.name === wanted.name);
+    if (match) collectionIds.add(match.id);
+    else missingCollections.push(wanted.name);
+  }
+
+  const tags = normalizeTagNames(archive.tags).slice(0, MAX_TAGS_PER_COMPONENT);
+
+  const component = await db.component.create({
+    data: {
+      title: archive.title,
+      slug: await getUniqueComponentSlug(db, archive.title),
+      description: archive.description,
+      framework: archive.framework,
+      language: archive.language,
+      // Reviews don't travel with archives, so imports start a fresh review cycle
+      status: archive.status === "deprecated" ? "deprecated" : "experiment",
+      isRenderable: archive.isRenderable,
+      packageInstallCommand: archive.packageInstallCommand,
+      coverImage: archive.coverImage,
+      createdById: userId,
+      updatedById: userId,
+      lastVersionNumber: versions[versions.length - 1].version,
+      versions: {
+        create: versions.map((version) => ({
+          version: version.version,
+          message: version.message,
+          createdById: userId,
+          ...(includeHistory && version.createdAt ? { createdAt: version.createdAt } : {}),
+          files: {
+            create: version.files.map((file, index) => ({
+              filename: file.filename,
+              language: file.language,
+              code: file.code,
+              order: file.order ?? index,
+            })),
+          },
+        })),
+      },
+      collections: {
+        create: Array.from(collectionIds, (collectionId) => ({ collectionId })),
+      },
+      ...(tags.length > 0 ? { tags: { create: connectOrCreateTags(tags) } } : {}),
+    },
+    select: { id: true, title: true },
+  });
+
+  return { component, versionCount: versions.length, missingCollections };
+}
@@ -0,0 +1,70 @@
+import type { PrismaClient } from "@prisma/client";
+import { activeVersionWhere } from "@/server/api/selects";
+import { resolveShareLink } from "@/server/share-links";
+import { getSharePath } from "@/lib/share-links";
+
+export type ResolvedEmbed =
+  | {
+    ok: true;
+    component: { id: string; title: string; framework: string };
+    version: { version: number; files: { filename: string; language: string; code: string }[] };
+    // Where the chrome's "Open in Vault" link points
+    openPath: string;
+  }
+  | { ok: false; status: 401 | 404; error: string };
+
+/**
+ * What an embed of componentId may show. A share token grants its own
+ * component only (and counts a view), at exactly the version the link shows,
+ * so `version` is ignored; without a token the caller must be signed in, in
+ * which case any active version of a live component can be embedded.
+ */
+export async function resolveEmbed(
+  db: PrismaClient,
+  {
+    componentId,
+    token,
+    version,
+    isSignedIn,
+  }: { componentId: string; token: string | null; version?: number; isSignedIn: boolean }
+): Promise<ResolvedEmbed> {
+  if (token) {
+    const result = await resolveShareLink(db, token, { countView: true });
+    if (!result.ok || result.link.componentId !== componentId) {
+      return { ok: false, status: 401, error: "This embed link is invalid, expired or revoked" };
+    }
+    return {
+      ok: true,
+      component: result.component,
+      version: result.version,
+      openPath: getSharePath(token),
+    };
+  }
+
+  if (!isSignedIn) {
+    return { ok: false, status: 401, error: "Embeds need a share token or a signed-in session" };
+  }
+
+  const component = await db.component.findFirst({
+    where: { id: componentId, deletedAt: null },
+    select: { id: true, title: true, framework: true },
+  });
+  if (!component) return { ok: false, status: 404, error: "Component not found" };
+
+  const found = await db.componentVersion.findFirst({
+    where: { componentId, ...activeVersionWhere, ...(version ? { version } : {}) },
+    orderBy: { version: "desc" },
+    select: {
+      version: true,
+      files: {
+        select: { filename: true, language: true, code: true },
+        orderBy: { order: "asc" },
+      },
+    },
+  });
+  if (!found) {
+    return { ok: false, status: 404, error: version ? `Version ${version} not found` : "Component has no versions" };
+  }
+
+  return { ok: true, component, version: found, openPath: `/component/${component.id}` };
+}
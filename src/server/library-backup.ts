@@ -0,0 +1,399 @@
+import { randomUUID } from "crypto";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { normalizeTagNames } from "@/lib/tags";
+import { getBackupCounts, type LibraryBackup } from "@/lib/library-backup";
+import { RESERVED_COMPONENT_SLUGS, toComponentSlug } from "@/server/registry";
+
+export type RestoreMode = "merge" | "replace";
+
+// A restore of a large library runs well past Prisma's 5s interactive transaction default
+const RESTORE_TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface RemovedExtras {
+  shareLinks: number;
+  comments: number;
+  reviews: number;
+  favorites: number;
+  usageEvents: number;
+}
+
+const NO_REMOVED_EXTRAS: RemovedExtras = { shareLinks: 0, comments: 0, reviews: 0, favorites: 0, usageEvents: 0 };
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  dryRun: boolean;
+  // Records the backup contains
+  backup: ReturnType<typeof getBackupCounts>;
+  // Replace mode only: what is deleted before restoring
+  removed: {
+    collections: number;
+    components: number;
+    // Deleted with the components but not part of backups, so they are gone for good
+    notInBackup: RemovedExtras;
+  };
+  collections: {
+    created: number;
+    // Merge mode: collections that already exist here (same id) are reused as they are
+    reused: number;
+    renamedSlugs: { name: string; from: string; to: string }[];
+  };
+  components: {
+    created: number;
+    // Merge mode: components that already exist here (same id) are left untouched
+    skipped: number;
+    renamedSlugs: { title: string; from: string; to: string }[];
+  };
+  versions: number;
+  files: number;
+  labels: number;
+  // Authors are matched by email; these have no account here and are restored without an author
+  unmatchedAuthors: string[];
+  warnings: string[];
+}
+
+/**
+ * Snapshot of every collection (with its place in the tree) and every
+ * component, including trashed ones, with all versions, files and labels.
+ * Authors are stored by email so they can be matched in another environment.
+ */
+export async function createLibraryBackup(db: PrismaClient): Promise<LibraryBackup> {
+  const [collections, components] = await Promise.all([
+    db.collection.findMany({
+      orderBy: [{ position: "asc" }, { name: "asc" }],
+      select: { id: true, name: true, slug: true, parentId: true, position: true },
+    }),
+    db.component.findMany({
+      orderBy: { createdAt: "asc" },
+      include: {
+        createdBy: { select: { email: true } },
+        collections: { select: { collectionId: true } },
+        tags: { select: { tag: { select: { name: true } } } },
+        labels: { select: { name: true, versionId: true } },
+        versions: {
+          orderBy: { version: "asc" },
+          include: {
+            createdBy: { select: { email: true } },
+            files: {
+              orderBy: { order: "asc" },
+              select: { filename: true, language: true, code: true, order: true },
+            },
+          },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    collections,
+    components: components.map((component) => ({
+      id: component.id,
+      title: component.title,
+      slug: component.slug,
+      description: component.description,
+      framework: component.framework,
+      language: component.language,
+      status: component.status,
+      isRenderable: component.isRenderable,
+      packageInstallCommand: component.packageInstallCommand,
+      coverImage: component.coverImage,
+      createdAt: component.createdAt,
+      updatedAt: component.updatedAt,
+      deletedAt: component.deletedAt,
+      lastVersionNumber: component.lastVersionNumber,
+      forkedFromComponentId: component.forkedFromComponentId,
+      forkedFromVersionId: component.forkedFromVersionId,
+      createdByEmail: component.createdBy?.email ?? null,
+      collectionIds: component.collections.map((c) => c.collectionId),
+      tags: component.tags.map((t) => t.tag.name),
+      labels: component.labels,
+      versions: component.versions.map((version) => ({
+        id: version.id,
+        version: version.version,
+        message: version.message,
+        createdAt: version.createdAt,
+        archivedAt: version.archivedAt,
+        restoredFromId: version.restoredFromId,
+        createdByEmail: version.createdBy?.email ?? null,
+        files: version.files,
+      })),
+    })),
+  };
+}
+
+// Collections ordered so every parent comes before its children. Parents
+// missing from the backup (or cycles) turn the collection into a top-level one.
+function sortCollectionsParentsFirst(collections: LibraryBackup["collections"], warnings: string[]) {
+  const byId = new Map(collections.map((c) => [c.id, c]));
+  const sorted: LibraryBackup["collections"] = [];
+  const placed = new Set<string>();
+
+  const visit = (collection: LibraryBackup["collections"][number], path: Set<string>) => {
+    if (placed.has(collection.id)) return;
+    const parent = collection.parentId ? byId.get(collection.parentId) : undefined;
+    if (collection.parentId && (!parent || path.has(parent.id))) {
+      warnings.push(`Collection "${collection.name}" has a missing or circular parent and is restored at the top level`);
+      collection = { ...collection, parentId: null };
+    } else if (parent) {
+      visit(parent, new Set(path).add(collection.id));
+    }
+    placed.add(collection.id);
+    sorted.push(collection);
+  };
+
+  collections.forEach((collection) => visit(collection, new Set()));
+  return sorted;
+}
+
+function getUniqueSlug(slug: string, takenSlugs: Set<string>) {
+  let candidate = slug;
+  for (let n = 2; takenSlugs.has(candidate); n++) candidate = `${slug}-${n}`;
+  takenSlugs.add(candidate);
+  return candidate;
+}
+
+/**
+ * Works out everything a restore would write without touching the database.
+ * Merge keeps the existing library, creates new ids for everything restored
+ * and skips records whose source id already exists here. Replace deletes the
+ * library first and keeps the backup's ids, so links to components keep working.
+ */
+async function planRestore(
+  db: PrismaClient,
+  backup: LibraryBackup,
+  mode: RestoreMode,
+  dryRun: boolean
+) {
+  const warnings: string[] = [];
+  const isMerge = mode === "merge";
+
+  const [existingCollections, existingComponents, removed] = await Promise.all([
+    isMerge
+      ? db.collection.findMany({ select: { id: true, slug: true } })
+      : Promise.resolve([]),
+    isMerge
+      ? db.component.findMany({ select: { id: true, slug: true } })
+      : Promise.resolve([]),
+    isMerge
+      ? Promise.resolve({ collections: 0, components: 0, notInBackup: NO_REMOVED_EXTRAS })
+      : Promise.all([
+        db.collection.count(),
+        db.component.count(),
+        db.shareLink.count(),
+        db.versionComment.count(),
+        db.versionReview.count(),
+        db.componentFavorite.count(),
+        db.usageEvent.count(),
+      ]).then(([collections, components, shareLinks, comments, reviews, favorites, usageEvents]) => ({
+        collections,
+        components,
+        notInBackup: { shareLinks, comments, reviews, favorites, usageEvents },
+      })),
+  ]);
+
+  const emails = new Set(
+    backup.components.flatMap((c) => [c.createdByEmail, ...c.versions.map((v) => v.createdByEmail)])
+      .filter((email): email is string => !!email)
+  );
+  const users = await db.user.findMany({
+    where: { email: { in: Array.from(emails) } },
+    select: { id: true, email: true },
+  });
+  const userIdByEmail = new Map(users.map((user) => [user.email, user.id]));
+  const unmatchedAuthors = Array.from(emails).filter((email) => !userIdByEmail.has(email));
+  const authorId = (email: string | null | undefined) => (email ? userIdByEmail.get(email) ?? null : null);
+
+  const newId = (id: string) => (isMerge ? randomUUID() : id);
+
+  // Collections
+  const existingCollectionIds = new Set(existingCollections.map((c) => c.id));
+  const takenSlugs = new Set(existingCollections.map((c) => c.slug));
+  const collectionIdMap = new Map<string, string>();
+  const collectionRows: Prisma.CollectionCreateManyInput[] = [];
+  const renamedSlugs: RestoreReport["collections"]["renamedSlugs"] = [];
+  let reusedCollections = 0;
+
+  for (const collection of sortCollectionsParentsFirst(backup.collections, warnings)) {
+    if (existingCollectionIds.has(collection.id)) {
+      collectionIdMap.set(collection.id, collection.id);
+      reusedCollections++;
+      continue;
+    }
+    const slug = getUniqueSlug(collection.slug, takenSlugs);
+    if (slug !== collection.slug) {
+      renamedSlugs.push({ name: collection.name, from: collection.slug, to: slug });
+    }
+    const id = newId(collection.id);
+    collectionIdMap.set(collection.id, id);
+    collectionRows.push({
+      id,
+      name: collection.name,
+      slug,
+      parentId: collection.parentId ? collectionIdMap.get(collection.parentId) ?? null : null,
+      position: collection.position,
+    });
+  }
+
+  // Components are mapped up front so forks can point at components later in the backup
+  const existingComponentIds = new Set(existingComponents.map((c) => c.id));
+  const takenComponentSlugs = new Set([...RESERVED_COMPONENT_SLUGS, ...existingComponents.map((c) => c.slug)]);
+  const renamedComponentSlugs: RestoreReport["components"]["renamedSlugs"] = [];
+  const componentIdMap = new Map<string, string>();
+  const versionIdMap = new Map<string, string>();
+  const restoredComponents = backup.components.filter((component) => {
+    if (existingComponentIds.has(component.id)) {
+      componentIdMap.set(component.id, component.id);
+      return false;
+    }
+    componentIdMap.set(component.id, newId(component.id));
+    component.versions.forEach((version) => versionIdMap.set(version.id, newId(version.id)));
+    return true;
+  });
+
+  const componentRows: Prisma.ComponentCreateManyInput[] = [];
+  const versionRows: Prisma.ComponentVersionCreateManyInput[] = [];
+  const fileRows: Prisma.ComponentFileCreateManyInput[] = [];
+  const labelRows: Prisma.VersionLabelCreateManyInput[] = [];
+  const linkRows: Prisma.ComponentCollectionCreateManyInput[] = [];
+  const componentTags: { componentId: string; names: string[] }[] = [];
+
+  for (const component of restoredComponents) {
+    const id = componentIdMap.get(component.id)!;
+    // Backups made before components had slugs derive one from the title
+    const wantedSlug = component.slug ?? toComponentSlug(component.title);
+    const slug = getUniqueSlug(wantedSlug, takenComponentSlugs);
+    if (component.slug && slug !== component.slug) {
+      renamedComponentSlugs.push({ title: component.title, from: component.slug, to: slug });
+    }
+    componentRows.push({
+      id,
+      title: component.title,
+      slug,
+      description: component.description,
+      framework: component.framework,
+      language: component.language,
+      // Reviews aren't part of backups, so restored components start a fresh
+      // review cycle, as archive imports do
+      status: component.status === "deprecated" ? "deprecated" : "experiment",
+      reviewVersionId: null,
+      isRenderable: component.isRenderable,
+      packageInstallCommand: component.packageInstallCommand,
+      coverImage: component.coverImage,
+      createdAt: component.createdAt,
+      updatedAt: component.updatedAt,
+      deletedAt: component.deletedAt,
+      lastVersionNumber: Math.max(
+        component.lastVersionNumber,
+        ...component.versions.map((v) => v.version)
+      ),
+      forkedFromComponentId: component.forkedFromComponentId
+        ? componentIdMap.get(component.forkedFromComponentId) ?? null
+        : null,
+      forkedFromVersionId: component.forkedFromVersionId
+        ? versionIdMap.get(component.forkedFromVersionId) ?? null
+        : null,
+      createdById: authorId(component.createdByEmail),
+    });
+
+    for (const version of component.versions) {
+      const versionId = versionIdMap.get(version.id)!;
+      versionRows.push({
+        id: versionId,
+        componentId: id,
+        version: version.version,
+        message: version.message,
+        createdAt: version.createdAt,
+        archivedAt: version.archivedAt,
+        restoredFromId: version.restoredFromId ? versionIdMap.get(version.restoredFromId) ?? null : null,
+        createdById: authorId(version.createdByEmail),
+      });
+      fileRows.push(...version.files.map((file) => ({ ...file, versionId })));
+    }
+
+    for (const label of component.labels) {
+      const versionId = versionIdMap.get(label.versionId);
+      if (versionId) labelRows.push({ componentId: id, versionId, name: label.name });
+      else warnings.push(`Label "${label.name}" on "${component.title}" points at a version missing from the backup`);
+    }
+
+    for (const collectionId of component.collectionIds) {
+      const mapped = collectionIdMap.get(collectionId);
+      if (mapped) linkRows.push({ componentId: id, collectionId: mapped });
+      else warnings.push(`"${component.title}" was in a collection missing from the backup`);
+    }
+
+    componentTags.push({ componentId: id, names: normalizeTagNames(component.tags) });
+  }
+
+  const report: RestoreReport = {
+    mode,
+    dryRun,
+    backup: getBackupCounts(backup),
+    removed,
+    collections: { created: collectionRows.length, reused: reusedCollections, renamedSlugs },
+    components: {
+      created: componentRows.length,
+      skipped: backup.components.length - restoredComponents.length,
+      renamedSlugs: renamedComponentSlugs,
+    },
+    versions: versionRows.length,
+    files: fileRows.length,
+    labels: labelRows.length,
+    unmatchedAuthors,
+    warnings,
+  };
+
+  return {
+    report,
+    rows: { collectionRows, componentRows, versionRows, fileRows, labelRows, linkRows, componentTags },
+  };
+}
+
+/**
+ * Restores a backup in one transaction; with `dryRun` only the report of
+ * what would happen is returned and nothing is written.
+ */
+export async function restoreLibraryBackup(
+  db: PrismaClient,
+  { backup, mode, dryRun }: { backup: LibraryBackup; mode: RestoreMode; dryRun: boolean }
+): Promise<RestoreReport> {
+  const { report, rows } = await planRestore(db, backup, mode, dryRun);
+  if (dryRun) return report;
+
+  await db.$transaction(
+    async (tx) => {
+      if (mode === "replace") {
+        // Versions, files, labels, links and tag links cascade, and so do the
+        // share links, comments, reviews, favorites and usage events counted in
+        // removed.notInBackup
+        await tx.component.deleteMany({});
+        await tx.collection.deleteMany({});
+      }
+
+      await tx.collection.createMany({ data: rows.collectionRows });
+      await tx.component.createMany({ data: rows.componentRows });
+      await tx.componentVersion.createMany({ data: rows.versionRows });
+      await tx.componentFile.createMany({ data: rows.fileRows });
+      await tx.versionLabel.createMany({ data: rows.labelRows, skipDuplicates: true });
+      await tx.componentCollection.createMany({ data: rows.linkRows, skipDuplicates: true });
+
+      const tagNames = Array.from(new Set(rows.componentTags.flatMap((c) => c.names)));
+      if (tagNames.length > 0) {
+        await tx.tag.createMany({ data: tagNames.map((name) => ({ name })), skipDuplicates: true });
+        const tags = await tx.tag.findMany({
+          where: { name: { in: tagNames } },
+          select: { id: true, name: true },
+        });
+        const tagIdByName = new Map(tags.map((tag) => [tag.name, tag.id]));
+        await tx.componentTag.createMany({
+          data: rows.componentTags.flatMap(({ componentId, names }) =>
+            names.map((name) => ({ componentId, tagId: tagIdByName.get(name)! }))
+          ),
+          skipDuplicates: true,
+        });
+      }
+    },
+    { timeout: RESTORE_TRANSACTION_TIMEOUT_MS, maxWait: RESTORE_TRANSACTION_TIMEOUT_MS }
+  );
+
+  return report;
+}
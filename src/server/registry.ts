@@ -0,0 +1,207 @@
+import type { PrismaClient } from "@prisma/client";
+import { activeVersionWhere } from "@/server/api/selects";
+import { normalizeLabelName } from "@/lib/version-labels";
+import {
+  extractImports,
+  getPackageName,
+  isBrowserSafePackage,
+  parseInstallCommand,
+} from "@/lib/dependency-registry";
+
+// Serves components in the shadcn registry format so `npx shadcn add
+// <vault>/r/<slug>.json` can install them. See https://ui.shadcn.com/docs/registry
+
+export const REGISTRY_NAME = "vault-ui";
+
+const REGISTRY_SCHEMA = "https://ui.shadcn.com/schema/registry.json";
+const REGISTRY_ITEM_SCHEMA = "https://ui.shadcn.com/schema/registry-item.json";
+
+// Only these statuses are served unless the request opts into experiments
+const PUBLISHED_STATUSES = ["ready"];
+
+const CODE_FILE = /\.(tsx|ts|jsx|js)$/;
+
+// Slugs that collide with other registry routes: /r/index.json is the index
+export const RESERVED_COMPONENT_SLUGS = ["index"];
+
+export function toComponentSlug(title: string) {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "component";
+}
+
+/**
+ * Slug for a new component: the title slug, or the first free "-2", "-3", ...
+ * variant. Slugs never change afterwards so registry URLs stay valid.
+ */
+export async function getUniqueComponentSlug(db: PrismaClient, title: string) {
+  const base = toComponentSlug(title);
+  const taken = new Set(
+    (
+      await db.component.findMany({
+        where: { slug: { startsWith: base } },
+        select: { slug: true },
+      })
+    ).map((c) => c.slug)
+  );
+  RESERVED_COMPONENT_SLUGS.forEach((reserved) => taken.add(reserved));
+
+  let slug = base;
+  for (let n = 2; taken.has(slug); n++) slug = `${base}-${n}`;
+  return slug;
+}
+
+function getStatusWhere(includeExperimental: boolean) {
+  return includeExperimental ? {} : { status: { in: PUBLISHED_STATUSES } };
+}
+
+/**
+ * npm packages and registry items a set of files needs. shadcn-style imports
+ * ("@/components/ui/button", "@/lib/utils") become registry dependencies;
+ * other "@/" aliases and relative imports are local to the component.
+ */
+export function inferRegistryDependencies(
+  files: { code: string }[],
+  packageInstallCommand?: string | null
+) {
+  const dependencies = new Set<string>();
+  const registryDependencies = new Set<string>();
+
+  for (const imp of files.flatMap((f) => extractImports(f.code))) {
+    if (imp.startsWith("@/")) {
+      const uiMatch = imp.match(/^@\/components\/ui\/([\w-]+)$/);
+      if (uiMatch) registryDependencies.add(uiMatch[1]);
+      if (imp === "@/lib/utils") registryDependencies.add("utils");
+      continue;
+    }
+    if (imp.startsWith(".") || imp.startsWith("/")) continue;
+
+    const packageName = getPackageName(imp);
+    if (packageName === "react" || packageName === "react-dom" || packageName === "next") continue;
+    if (isBrowserSafePackage(packageName)) dependencies.add(packageName);
+  }
+
+  if (packageInstallCommand) {
+    const fromCommand = parseInstallCommand(packageInstallCommand);
+    for (const [name, version] of Object.entries(fromCommand.dependencies)) {
+      dependencies.delete(name);
+      dependencies.add(version === "latest" ? name : `${name}@${version}`);
+    }
+    fromCommand.registryDependencies.forEach((name) => registryDependencies.add(name));
+  }
+
+  return {
+    dependencies: Array.from(dependencies).sort(),
+    registryDependencies: Array.from(registryDependencies).sort(),
+  };
+}
+
+export async function getRegistryIndex(
+  db: PrismaClient,
+  { includeExperimental, homepage }: { includeExperimental: boolean; homepage: string }
+) {
+  const components = await db.component.findMany({
+    where: { deletedAt: null, ...getStatusWhere(includeExperimental) },
+    select: { slug: true, title: true, description: true },
+    orderBy: { slug: "asc" },
+  });
+
+  return {
+    $schema: REGISTRY_SCHEMA,
+    name: REGISTRY_NAME,
+    homepage,
+    items: components.map((c) => ({
+      name: c.slug,
+      type: "registry:component",
+      title: c.title,
+      description: c.description ?? undefined,
+    })),
+  };
+}
+
+export type RegistryItemResult =
+  | { found: true; item: Record<string, unknown> }
+  | { found: false; error: string };
+
+/**
+ * One component as a registry-item: the version a label points at, else the
+ * approved version of a ready component, else the latest active version. Files keep their relative layout under
+ * components/<slug>/ so imports between them still resolve after install.
+ */
+export async function getRegistryItem(
+  db: PrismaClient,
+  { slug, label: rawLabel, includeExperimental }: { slug: string; label?: string | null; includeExperimental: boolean }
+): Promise<RegistryItemResult> {
+  // Resolve labels the way version.getByLabel does; a blank one means no label
+  const label = rawLabel ? normalizeLabelName(rawLabel) || null : null;
+
+  const component = await db.component.findFirst({
+    where: { slug, deletedAt: null, ...getStatusWhere(includeExperimental) },
+    select: {
+      id: true,
+      slug: true,
+      title: true,
+      description: true,
+      framework: true,
+      status: true,
+      packageInstallCommand: true,
+      reviewVersionId: true,
+      labels: label ? { where: { name: label }, select: { versionId: true } } : false,
+    },
+  });
+  if (!component) return { found: false, error: `Component "${slug}" not found` };
+
+  const labeledVersionId = label ? component.labels?.[0]?.versionId : undefined;
+  if (label && !labeledVersionId) {
+    return { found: false, error: `Component "${slug}" has no version labeled "${label}"` };
+  }
+  const versionId =
+    labeledVersionId ??
+    (component.status === "ready" ? component.reviewVersionId ?? undefined : undefined);
+
+  const version = await db.componentVersion.findFirst({
+    where: versionId ? { id: versionId } : { componentId: component.id, ...activeVersionWhere },
+    orderBy: { version: "desc" },
+    select: {
+      id: true,
+      version: true,
+      files: {
+        select: { filename: true, code: true },
+        orderBy: { order: "asc" },
+      },
+    },
+  });
+  if (!version) return { found: false, error: `Component "${slug}" has no versions` };
+
+  const { dependencies, registryDependencies } = inferRegistryDependencies(
+    version.files,
+    component.packageInstallCommand
+  );
+
+  return {
+    found: true,
+    item: {
+      $schema: REGISTRY_ITEM_SCHEMA,
+      name: component.slug,
+      type: "registry:component",
+      title: component.title,
+      description: component.description ?? undefined,
+      dependencies,
+      registryDependencies,
+      files: version.files.map((file) => {
+        const path = file.filename.replace(/\\/g, "/").split("/").filter((p) => p && p !== "..").join("/");
+        return {
+          path: `vault/${component.slug}/${path}`,
+          type: CODE_FILE.test(path) ? "registry:component" : "registry:file",
+          target: `components/${component.slug}/${path}`,
+          content: file.code,
+        };
+      }),
+      meta: {
+        vaultId: component.id,
+        version: version.version,
+        label: label ?? null,
+        status: component.status,
+        framework: component.framework,
+      },
+    },
+  };
+}
@@ -0,0 +1,194 @@
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { activeVersionWhere, userSummarySelect, versionReferenceSelect } from "@/server/api/selects";
+import {
+  canTransition,
+  getStatusLabel,
+  isVersionApproved,
+  type ComponentStatus,
+} from "@/lib/component-status";
+import { hasRole } from "@/lib/permissions";
+
+// Review workflow: experiment → in_review → ready → deprecated.
+// Components enter in_review by requesting reviewers for one version, and can
+// only become ready once that version is approved (see src/lib/component-status.ts).
+
+async function getLiveComponent(db: PrismaClient, componentId: string) {
+  const component = await db.component.findUnique({
+    where: { id: componentId },
+    select: { id: true, status: true, deletedAt: true, reviewVersionId: true },
+  });
+  if (!component || component.deletedAt) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Component not found" });
+  }
+  return component;
+}
+
+function invalidTransition(from: string, to: ComponentStatus) {
+  return new TRPCError({
+    code: "BAD_REQUEST",
+    message: `A component can't move from ${getStatusLabel(from)} to ${getStatusLabel(to)}`,
+  });
+}
+
+export async function getReviewState(db: PrismaClient, componentId: string) {
+  const component = await db.component.findUnique({
+    where: { id: componentId },
+    select: { status: true, reviewVersion: { select: versionReferenceSelect } },
+  });
+  if (!component) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Component not found" });
+  }
+
+  const reviews = component.reviewVersion
+    ? await db.versionReview.findMany({
+      where: { versionId: component.reviewVersion.id },
+      select: {
+        id: true,
+        decision: true,
+        note: true,
+        createdAt: true,
+        decidedAt: true,
+        reviewer: { select: userSummarySelect },
+        requestedBy: { select: userSummarySelect },
+      },
+      orderBy: { createdAt: "asc" },
+    })
+    : [];
+
+  return {
+    status: component.status,
+    reviewVersion: component.reviewVersion,
+    reviews,
+    isApproved: isVersionApproved(reviews),
+  };
+}
+
+/**
+ * Submits a version for review by the given developers and moves the
+ * component to in_review. Requesting again (for a newer version, or the same
+ * one after changes) resets those reviewers' decisions to pending.
+ */
+export async function requestReview(
+  db: PrismaClient,
+  {
+    componentId,
+    versionId,
+    reviewerIds,
+    userId,
+  }: { componentId: string; versionId: string; reviewerIds: string[]; userId: string }
+) {
+  const component = await getLiveComponent(db, componentId);
+  if (component.status !== "in_review" && !canTransition(component.status, "in_review")) {
+    throw invalidTransition(component.status, "in_review");
+  }
+
+  const version = await db.componentVersion.findFirst({
+    where: { id: versionId, componentId, ...activeVersionWhere },
+    select: { id: true },
+  });
+  if (!version) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Version not found for this component" });
+  }
+
+  if (reviewerIds.includes(userId)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "You can't review your own request" });
+  }
+  const reviewers = await db.user.findMany({
+    where: { id: { in: reviewerIds } },
+    select: { id: true, role: true },
+  });
+  if (reviewers.length !== reviewerIds.length || reviewers.some((r) => !hasRole(r.role, "developer"))) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Reviewers must be developers" });
+  }
+
+  await db.$transaction([
+    ...reviewerIds.map((reviewerId) =>
+      db.versionReview.upsert({
+        where: { versionId_reviewerId: { versionId, reviewerId } },
+        create: { componentId, versionId, reviewerId, requestedById: userId },
+        update: { decision: "pending", note: null, decidedAt: null, requestedById: userId },
+      })
+    ),
+    db.component.update({
+      where: { id: componentId },
+      data: { status: "in_review", reviewVersionId: versionId, updatedById: userId },
+    }),
+  ]);
+
+  return getReviewState(db, componentId);
+}
+
+export async function submitReview(
+  db: PrismaClient,
+  {
+    componentId,
+    reviewerId,
+    decision,
+    note,
+  }: {
+    componentId: string;
+    reviewerId: string;
+    decision: "approved" | "changes_requested";
+    note?: string;
+  }
+) {
+  const component = await getLiveComponent(db, componentId);
+  if (component.status !== "in_review" || !component.reviewVersionId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "This component is not in review" });
+  }
+
+  const { count } = await db.versionReview.updateMany({
+    where: { versionId: component.reviewVersionId, reviewerId },
+    data: { decision, note: note || null, decidedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "You were not asked to review this version" });
+  }
+
+  return getReviewState(db, componentId);
+}
+
+/**
+ * Moves a component along the workflow without a review request: withdrawing
+ * or reviving it as an experiment, promoting an approved version to ready,
+ * or deprecating it.
+ */
+export async function setComponentStatus(
+  db: PrismaClient,
+  {
+    componentId,
+    status,
+    userId,
+  }: { componentId: string; status: Exclude<ComponentStatus, "in_review">; userId: string }
+) {
+  const component = await getLiveComponent(db, componentId);
+  if (component.status === status) return getReviewState(db, componentId);
+  if (!canTransition(component.status, status)) {
+    throw invalidTransition(component.status, status);
+  }
+
+  if (status === "ready") {
+    const reviews = component.reviewVersionId
+      ? await db.versionReview.findMany({
+        where: { versionId: component.reviewVersionId },
+        select: { decision: true },
+      })
+      : [];
+    if (!isVersionApproved(reviews)) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Only approved versions can be marked ready" });
+    }
+  }
+
+  await db.component.update({
+    where: { id: componentId },
+    data: {
+      status,
+      // Back to experiment starts the next review from scratch
+      ...(status === "experiment" ? { reviewVersionId: null } : {}),
+      updatedById: userId,
+    },
+  });
+
+  return getReviewState(db, componentId);
+}
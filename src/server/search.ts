@@ -0,0 +1,212 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { activeVersionWhere } from "@/server/api/selects";
+
+export const MAX_SEARCH_RESULTS = 20;
+const MAX_SNIPPETS_PER_FILE = 3;
+const MAX_FILES_PER_RESULT = 3;
+// Long minified lines are cut around the first match so snippets stay readable
+const MAX_SNIPPET_LENGTH = 160;
+
+export interface SnippetLine {
+  lineNumber: number;
+  text: string;
+  // [start, end) character ranges within `text` to highlight
+  highlights: [number, number][];
+}
+
+export interface FileMatch {
+  fileId: string;
+  filename: string;
+  matchCount: number;
+  snippets: SnippetLine[];
+}
+
+export type SearchField = "title" | "description" | "code";
+
+function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Terms to highlight: the whole query first, then its individual words, so
+ * "backdrop-filter blur" highlights the exact phrase and each word on its own.
+ */
+export function getSearchTerms(query: string) {
+  const phrase = query.trim();
+  const words = phrase.split(/\s+/).filter((word) => word.length >= 2);
+  return Array.from(new Set([phrase, ...words].map((term) => term.toLowerCase()))).filter(Boolean);
+}
+
+function findHighlights(line: string, terms: string[]) {
+  const lower = line.toLowerCase();
+  const ranges: [number, number][] = [];
+
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index !== -1) {
+      const end = index + term.length;
+      // Skip words already covered by the phrase match
+      if (!ranges.some(([start, stop]) => index < stop && end > start)) {
+        ranges.push([index, end]);
+      }
+      index = lower.indexOf(term, end);
+    }
+  }
+
+  return ranges.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Extracts the lines of a file that contain any search term, with line
+ * numbers and highlight ranges, and counts how many lines matched overall.
+ */
+export function extractSnippets(code: string, terms: string[]) {
+  const snippets: SnippetLine[] = [];
+  let matchCount = 0;
+
+  code.split("\n").forEach((rawLine, index) => {
+    const highlights = findHighlights(rawLine, terms);
+    if (highlights.length === 0) return;
+
+    matchCount++;
+    if (snippets.length >= MAX_SNIPPETS_PER_FILE) return;
+
+    let text = rawLine.trimEnd();
+    let ranges = highlights.filter(([start]) => start < text.length);
+
+    if (text.length > MAX_SNIPPET_LENGTH && ranges.length > 0) {
+      const offset = Math.max(0, ranges[0][0] - 40);
+      text = text.slice(offset, offset + MAX_SNIPPET_LENGTH);
+      ranges = ranges
+        .map(([start, end]): [number, number] => [start - offset, Math.min(end - offset, text.length)])
+        .filter(([start]) => start >= 0 && start < text.length);
+    }
+
+    snippets.push({ lineNumber: index + 1, text, highlights: ranges });
+  });
+
+  return { matchCount, snippets };
+}
+
+interface RankedComponentRow {
+  id: string;
+  score: number;
+}
+
+/**
+ * Ranked search over component titles, descriptions and the code of each
+ * component's latest active version. Matching combines Postgres full-text
+ * search (word matches, ranked with ts_rank) with trigram-indexed substring
+ * matching, which catches identifiers like `useScroll` or `backdrop-filter`
+ * that the text parser would split or miss.
+ */
+export async function searchComponents(
+  db: PrismaClient,
+  { query, limit = MAX_SEARCH_RESULTS }: { query: string; limit?: number }
+) {
+  const q = query.trim();
+  if (!q) return [];
+
+  const pattern = `%${escapeLikePattern(q)}%`;
+
+  const rows = await db.$queryRaw<RankedComponentRow[]>(Prisma.sql`
+    WITH latest AS (
+      SELECT DISTINCT ON (v."componentId") v."id", v."componentId"
+      FROM "ComponentVersion" v
+      JOIN "Component" c ON c."id" = v."componentId"
+      WHERE v."archivedAt" IS NULL AND c."deletedAt" IS NULL
+      ORDER BY v."componentId", v."version" DESC
+    ),
+    file_hits AS (
+      SELECT l."componentId",
+        MAX(
+          ts_rank(to_tsvector('simple', f."code"), websearch_to_tsquery('simple', ${q}))
+          + CASE WHEN f."code" ILIKE ${pattern} THEN 1 ELSE 0 END
+        ) AS "rank"
+      FROM latest l
+      JOIN "ComponentFile" f ON f."versionId" = l."id"
+      WHERE f."code" ILIKE ${pattern}
+        OR to_tsvector('simple', f."code") @@ websearch_to_tsquery('simple', ${q})
+      GROUP BY l."componentId"
+    )
+    SELECT c."id",
+      (
+        CASE WHEN c."title" ILIKE ${pattern} THEN 3 ELSE 0 END
+        + similarity(c."title", ${q}) * 2
+        + CASE WHEN c."description" ILIKE ${pattern} THEN 1 ELSE 0 END
+        + COALESCE(fh."rank", 0)
+      )::float AS "score"
+    FROM "Component" c
+    LEFT JOIN file_hits fh ON fh."componentId" = c."id"
+    WHERE c."deletedAt" IS NULL
+      AND (
+        fh."componentId" IS NOT NULL
+        OR c."title" ILIKE ${pattern}
+        OR c."title" % ${q}
+        OR c."description" ILIKE ${pattern}
+      )
+    ORDER BY "score" DESC, c."updatedAt" DESC
+    LIMIT ${limit}
+  `);
+
+  if (rows.length === 0) return [];
+
+  const components = await db.component.findMany({
+    where: { id: { in: rows.map((row) => row.id) } },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      framework: true,
+      status: true,
+      versions: {
+        where: activeVersionWhere,
+        orderBy: { version: "desc" },
+        take: 1,
+        select: {
+          version: true,
+          files: {
+            orderBy: { order: "asc" },
+            select: { id: true, filename: true, code: true },
+          },
+        },
+      },
+    },
+  });
+
+  const byId = new Map(components.map((component) => [component.id, component]));
+  const terms = getSearchTerms(q);
+
+  return rows.flatMap((row) => {
+    const component = byId.get(row.id);
+    if (!component) return [];
+
+    const latestVersion = component.versions[0];
+    const files: FileMatch[] = (latestVersion?.files ?? [])
+      .map((file) => ({ fileId: file.id, filename: file.filename, ...extractSnippets(file.code, terms) }))
+      .filter((file) => file.matchCount > 0)
+      .sort((a, b) => b.matchCount - a.matchCount)
+      .slice(0, MAX_FILES_PER_RESULT);
+
+    const matchedIn: SearchField[] = [];
+    if (findHighlights(component.title, terms).length > 0) matchedIn.push("title");
+    if (component.description && findHighlights(component.description, terms).length > 0) {
+      matchedIn.push("description");
+    }
+    if (files.length > 0) matchedIn.push("code");
+
+    return [
+      {
+        id: component.id,
+        title: component.title,
+        description: component.description,
+        framework: component.framework,
+        status: component.status,
+        version: latestVersion?.version ?? null,
+        score: Number(row.score),
+        matchedIn,
+        files,
+      },
+    ];
+  });
+}
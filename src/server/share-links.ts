@@ -0,0 +1,91 @@
+import { randomBytes } from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import { activeVersionWhere } from "@/server/api/selects";
+import { getShareLinkStatus } from "@/lib/share-links";
+
+// 32 random bytes; the token alone grants access, so it must not be guessable
+export function createShareToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+export type ResolvedShareLink =
+  | {
+    ok: true;
+    link: { id: string; componentId: string; versionId: string | null; expiresAt: Date };
+    component: { id: string; title: string; description: string | null; framework: string };
+    version: {
+      id: string;
+      version: number;
+      files: { id: string; filename: string; language: string; code: string }[];
+    };
+  }
+  | { ok: false; reason: "not_found" | "expired" | "revoked" | "unavailable" };
+
+/**
+ * Looks up what a share token grants: its component and either the pinned
+ * version or the latest active one. Revoked and expired links, trashed
+ * components and archived pinned versions resolve to a reason instead.
+ * With countView the link's view counter is incremented.
+ */
+export async function resolveShareLink(
+  db: PrismaClient,
+  token: string,
+  { countView = false }: { countView?: boolean } = {}
+): Promise<ResolvedShareLink> {
+  const link = await db.shareLink.findUnique({
+    where: { token },
+    include: {
+      component: {
+        select: { id: true, title: true, description: true, framework: true, deletedAt: true },
+      },
+    },
+  });
+  if (!link) return { ok: false, reason: "not_found" };
+
+  const status = getShareLinkStatus(link);
+  if (status !== "active") return { ok: false, reason: status };
+  if (link.component.deletedAt) return { ok: false, reason: "unavailable" };
+
+  const version = await db.componentVersion.findFirst({
+    where: {
+      componentId: link.componentId,
+      ...activeVersionWhere,
+      ...(link.versionId ? { id: link.versionId } : {}),
+    },
+    orderBy: { version: "desc" },
+    select: {
+      id: true,
+      version: true,
+      files: {
+        select: { id: true, filename: true, language: true, code: true },
+        orderBy: { order: "asc" },
+      },
+    },
+  });
+  if (!version) return { ok: false, reason: "unavailable" };
+
+  if (countView) {
+    await db.shareLink.update({
+      where: { id: link.id },
+      data: { viewCount: { increment: 1 }, lastViewedAt: new Date() },
+    });
+  }
+
+  const { component } = link;
+  return {
+    ok: true,
+    link: {
+      id: link.id,
+      componentId: link.componentId,
+      versionId: link.versionId,
+      expiresAt: link.expiresAt,
+    },
+    component: {
+      id: component.id,
+      title: component.title,
+      description: component.description,
+      framework: component.framework,
+    },
+    version,
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { MAX_TAGS_PER_COMPONENT } from "@/lib/tags";
+import { tagFilterSchema, tagNameSchema, tagNamesSchema } from "./tags";
+
+describe("tagNameSchema", () => {
+  it("normalizes valid names", () => {
+    expect(tagNameSchema.parse(" Scroll Animation")).toBe("scroll-animation");
+  });
+
+  it("rejects invalid names", () => {
+    expect(tagNameSchema.safeParse("bad/tag").success).toBe(false);
+  });
+});
+
+describe("tagNamesSchema", () => {
+  it("de-duplicates names after normalizing", () => {
+    expect(tagNamesSchema.parse(["React", " react", "ui"])).toEqual(["react", "ui"]);
+  });
+
+  it("limits the number of tags", () => {
+    const names = Array.from({ length: MAX_TAGS_PER_COMPONENT + 1 }, (_, i) => `tag-${i}`);
+    expect(tagNamesSchema.safeParse(names).success).toBe(false);
+  });
+});
+
+describe("tagFilterSchema", () => {
+  it("normalizes filter names like stored names", () => {
+    expect(tagFilterSchema.parse(["React", " react ", "Scroll Animation"])).toEqual([
+      "react",
+      "scroll-animation",
+    ]);
+  });
+
+  it("drops blank names and keeps invalid ones instead of failing", () => {
+    expect(tagFilterSchema.parse(["  ", "bad/tag"])).toEqual(["bad/tag"]);
+  });
+});
@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { MAX_TAGS_PER_COMPONENT, normalizeTagName, validateTagName } from "@/lib/tags";
+
+export const tagNameSchema = z
+  .string()
+  .transform(normalizeTagName)
+  .superRefine((name, ctx) => {
+    const error = validateTagName(name);
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  });
+
+// Tag names accepted by component.create/update, de-duplicated after normalizing
+export const tagNamesSchema = z
+  .array(tagNameSchema)
+  .max(MAX_TAGS_PER_COMPONENT)
+  .transform((names) => Array.from(new Set(names)));
+
+// Tag names in list filters, normalized like stored names so "React" finds "react".
+// Invalid names are kept rather than rejected; they simply match nothing.
+export const tagFilterSchema = z
+  .array(z.string().transform(normalizeTagName))
+  .transform((names) => Array.from(new Set(names.filter(Boolean))));
+
+// Nested ComponentTag creates that link existing tags by name and create missing ones
+export function connectOrCreateTags(names: string[]) {
+  return names.map((name) => ({
+    tag: {
+      connectOrCreate: {
+        where: { name },
+        create: { name },
+      },
+    },
+  }));
+}
@@ -0,0 +1,35 @@
+import type { PrismaClient } from "@prisma/client";
+
+// Soft-deleted components older than this are hard-deleted by the purge job
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention period from TRASH_RETENTION_DAYS, falling back to the default
+ * when the variable is missing or not a positive integer.
+ */
+export function getTrashRetentionDays() {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export function getPurgeCutoff(retentionDays: number, now = new Date()) {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/**
+ * Permanently deletes components that have been in the trash for longer than
+ * the retention period. Versions, files, labels and collection links cascade.
+ */
+export async function purgeExpiredTrash(
+  db: PrismaClient,
+  { retentionDays = getTrashRetentionDays(), now = new Date() } = {}
+) {
+  const cutoff = getPurgeCutoff(retentionDays, now);
+  const { count } = await db.component.deleteMany({
+    where: { deletedAt: { not: null, lt: cutoff } },
+  });
+
+  return { purgedCount: count, retentionDays, cutoff };
+}
@@ -0,0 +1,231 @@
+import { TRPCError } from "@trpc/server";
+import type { PrismaClient } from "@prisma/client";
+import { userSummarySelect } from "@/server/api/selects";
+import {
+  DEFAULT_USAGE_PERIOD,
+  USAGE_EVENT_TYPES,
+  emptyUsageCounts,
+  type UsageCounts,
+  type UsageEventType,
+} from "@/lib/usage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reopening a component within this window doesn't count as another view
+const VIEW_DEDUPE_MS = 30 * 60 * 1000;
+
+function isUsageEventType(value: string): value is UsageEventType {
+  return (USAGE_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+function countByType(rows: { type: string; _count: { _all: number } }[]) {
+  const counts = emptyUsageCounts();
+  for (const row of rows) {
+    if (isUsageEventType(row.type)) counts[row.type] += row._count._all;
+  }
+  return counts;
+}
+
+function sumCounts(counts: UsageCounts) {
+  return counts.view + counts.copy + counts.install;
+}
+
+function toDayKey(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Start of the UTC day `days - 1` days ago, so a period covers exactly `days` calendar days
+function getPeriodStart(days: number, now = new Date()) {
+  const start = new Date(now.getTime() - (days - 1) * DAY_MS);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+export async function recordUsageEvent(
+  db: PrismaClient,
+  { componentId, userId, type }: { componentId: string; userId: string; type: UsageEventType }
+) {
+  const component = await db.component.findUnique({
+    where: { id: componentId },
+    select: { deletedAt: true },
+  });
+  if (!component || component.deletedAt) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "Component not found" });
+  }
+
+  if (type === "view") {
+    const recentView = await db.usageEvent.findFirst({
+      where: { componentId, userId, type, createdAt: { gte: new Date(Date.now() - VIEW_DEDUPE_MS) } },
+      select: { id: true },
+    });
+    if (recentView) return { recorded: false };
+  }
+
+  await db.usageEvent.create({ data: { componentId, userId, type } });
+  return { recorded: true };
+}
+
+/**
+ * Usage of one component: all-time totals, counts for the last `days` days
+ * and the same number of days before that (for trends), a per-day series for
+ * charting, the number of distinct users in the period and the last use.
+ */
+export async function getComponentUsage(db: PrismaClient, componentId: string, days: number) {
+  const now = new Date();
+  const since = getPeriodStart(days, now);
+  const previousSince = new Date(since.getTime() - days * DAY_MS);
+
+  const [allTime, previous, events, users, lastEvent] = await Promise.all([
+    db.usageEvent.groupBy({ by: ["type"], where: { componentId }, _count: { _all: true } }),
+    db.usageEvent.groupBy({
+      by: ["type"],
+      where: { componentId, createdAt: { gte: previousSince, lt: since } },
+      _count: { _all: true },
+    }),
+    db.usageEvent.findMany({
+      where: { componentId, createdAt: { gte: since } },
+      select: { type: true, createdAt: true },
+    }),
+    db.usageEvent.findMany({
+      where: { componentId, createdAt: { gte: since }, userId: { not: null } },
+      distinct: ["userId"],
+      select: { userId: true },
+    }),
+    db.usageEvent.findFirst({
+      where: { componentId },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  // Every day of the period gets a bucket, so quiet days show as gaps
+  const daily = new Map<string, UsageCounts>();
+  for (let day = new Date(since); day <= now; day = new Date(day.getTime() + DAY_MS)) {
+    daily.set(toDayKey(day), emptyUsageCounts());
+  }
+  const period = emptyUsageCounts();
+  for (const event of events) {
+    if (!isUsageEventType(event.type)) continue;
+    period[event.type]++;
+    const bucket = daily.get(toDayKey(event.createdAt));
+    if (bucket) bucket[event.type]++;
+  }
+
+  return {
+    days,
+    totals: countByType(allTime),
+    period,
+    previousPeriod: countByType(previous),
+    daily: Array.from(daily, ([date, counts]) => ({ date, ...counts })),
+    uniqueUsers: users.length,
+    lastUsedAt: lastEvent?.createdAt ?? null,
+  };
+}
+
+const reportComponentSelect = {
+  id: true,
+  title: true,
+  framework: true,
+  status: true,
+  createdAt: true,
+  createdBy: { select: userSummarySelect },
+} as const;
+
+/**
+ * Library-wide usage over the last `days` days: totals, the most used
+ * components (by number of events) and the components nobody has ever used,
+ * oldest first.
+ */
+export async function getLibraryUsageReport(
+  db: PrismaClient,
+  { days, limit }: { days: number; limit: number }
+) {
+  const since = getPeriodStart(days);
+  const neverUsedWhere = { deletedAt: null, usageEvents: { none: {} } };
+
+  const [grouped, componentCount, neverUsed, neverUsedCount] = await Promise.all([
+    db.usageEvent.groupBy({
+      by: ["componentId", "type"],
+      where: { createdAt: { gte: since }, component: { deletedAt: null } },
+      _count: { _all: true },
+    }),
+    db.component.count({ where: { deletedAt: null } }),
+    db.component.findMany({
+      where: neverUsedWhere,
+      select: reportComponentSelect,
+      orderBy: { createdAt: "asc" },
+      take: limit,
+    }),
+    db.component.count({ where: neverUsedWhere }),
+  ]);
+
+  const totals = emptyUsageCounts();
+  const byComponent = new Map<string, UsageCounts>();
+  for (const row of grouped) {
+    if (!isUsageEventType(row.type)) continue;
+    const counts = byComponent.get(row.componentId) ?? emptyUsageCounts();
+    counts[row.type] += row._count._all;
+    totals[row.type] += row._count._all;
+    byComponent.set(row.componentId, counts);
+  }
+
+  const ranked = Array.from(byComponent, ([componentId, counts]) => ({
+    componentId,
+    counts,
+    total: sumCounts(counts),
+  }))
+    // Copies and installs break ties: they show a component was actually used
+    .sort(
+      (a, b) =>
+        b.total - a.total ||
+        b.counts.copy + b.counts.install - (a.counts.copy + a.counts.install)
+    )
+    .slice(0, limit);
+
+  const components = await db.component.findMany({
+    where: { id: { in: ranked.map((entry) => entry.componentId) } },
+    select: reportComponentSelect,
+  });
+  const componentsById = new Map(components.map((component) => [component.id, component]));
+
+  return {
+    days,
+    totals,
+    componentCount,
+    usedCount: byComponent.size,
+    mostUsed: ranked.flatMap(({ componentId, counts, total }) => {
+      const component = componentsById.get(componentId);
+      return component ? [{ component, counts, total }] : [];
+    }),
+    neverUsed,
+    neverUsedCount,
+  };
+}
+
+/**
+ * Profile numbers: how often other people used the components this user
+ * created (all time), and how many components the user used recently.
+ */
+export async function getUserUsageStats(db: PrismaClient, userId: string) {
+  const [received, used] = await Promise.all([
+    db.usageEvent.groupBy({
+      by: ["type"],
+      where: {
+        component: { createdById: userId, deletedAt: null },
+        OR: [{ userId: null }, { userId: { not: userId } }],
+      },
+      _count: { _all: true },
+    }),
+    db.usageEvent.findMany({
+      where: { userId, createdAt: { gte: getPeriodStart(DEFAULT_USAGE_PERIOD) } },
+      distinct: ["componentId"],
+      select: { componentId: true },
+    }),
+  ]);
+
+  return {
+    receivedUsage: countByType(received),
+    componentsUsed: used.length,
+    componentsUsedDays: DEFAULT_USAGE_PERIOD,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { findAnchorStart, getAnchorText } from "./version-comments";
+
+const ORIGINAL = [
+  "function a() {", // 1
+  "  return 1;", //    2
+  "}", //              3
+  "", //               4
+  "function b() {", // 5
+  "  return 2;", //    6
+  "}", //              7
+].join("\n");
+
+describe("getAnchorText", () => {
+  it("returns the anchored lines", () => {
+    expect(getAnchorText(ORIGINAL, 5, 6)).toBe("function b() {\n  return 2;");
+  });
+
+  it("returns null for ranges outside the file", () => {
+    expect(getAnchorText(ORIGINAL, 0, 1)).toBeNull();
+    expect(getAnchorText(ORIGINAL, 3, 2)).toBeNull();
+    expect(getAnchorText(ORIGINAL, 7, 8)).toBeNull();
+  });
+});
+
+describe("findAnchorStart", () => {
+  it("keeps an anchor on unchanged code where it was", () => {
+    expect(findAnchorStart(ORIGINAL, "  return 2;", { code: ORIGINAL, startLine: 6 })).toBe(6);
+  });
+
+  it("follows lines moved by code added above them", () => {
+    const moved = ["// header", "// more", ORIGINAL].join("\n");
+    expect(findAnchorStart(moved, "function b() {\n  return 2;", { code: ORIGINAL, startLine: 5 })).toBe(7);
+    expect(findAnchorStart(moved, "}", { code: ORIGINAL, startLine: 7 })).toBe(9);
+  });
+
+  it("follows lines when the file uses CRLF line endings", () => {
+    expect(findAnchorStart(ORIGINAL.replace(/\n/g, "\r\n"), "  return 2;", { code: ORIGINAL, startLine: 6 })).toBe(6);
+  });
+
+  it("does not move a common line onto unrelated code", () => {
+    // The "}" closing b() is gone; the one closing a() has different surroundings
+    const changed = ORIGINAL.replace("function b() {\n  return 2;\n}", "const b = () => 2;");
+    expect(findAnchorStart(changed, "}", { code: ORIGINAL, startLine: 7 })).toBeNull();
+  });
+
+  it("picks the copy whose surroundings match when the lines appear more than once", () => {
+    const duplicated = [ORIGINAL, "", "function c() {", "  return 2;", "}"].join("\n");
+    expect(findAnchorStart(duplicated, "  return 2;", { code: ORIGINAL, startLine: 6 })).toBe(6);
+  });
+
+  it("prefers the closest copy when surroundings match equally", () => {
+    const block = ["", "x();", "}", ""];
+    const original = ["start", ...block, "end"].join("\n");
+    const twice = ["start", ...block, ...block, "end"].join("\n");
+    // Both "x();" lines have "" above and "}" below; the original position wins
+    expect(findAnchorStart(twice, "x();", { code: original, startLine: 3 })).toBe(3);
+  });
+
+  it("returns null when the anchored lines were deleted or edited", () => {
+    const deleted = ORIGINAL.replace("  return 2;\n", "");
+    expect(findAnchorStart(deleted, "  return 2;", { code: ORIGINAL, startLine: 6 })).toBeNull();
+
+    const edited = ORIGINAL.replace("  return 2;", "  return 3;");
+    expect(findAnchorStart(edited, "  return 2;", { code: ORIGINAL, startLine: 6 })).toBeNull();
+  });
+
+  it("returns null when only part of a multi-line anchor survives", () => {
+    const partial = ORIGINAL.replace("  return 2;", "  return 2 + 0;");
+    expect(
+      findAnchorStart(partial, "function b() {\n  return 2;\n}", { code: ORIGINAL, startLine: 5 })
+    ).toBeNull();
+  });
+
+  it("does not follow lines that moved too far", () => {
+    const padding = Array.from({ length: 60 }, (_, i) => `// filler ${i}`);
+    const farAway = [...padding, ORIGINAL].join("\n");
+    expect(findAnchorStart(farAway, "  return 2;", { code: ORIGINAL, startLine: 6 })).toBeNull();
+  });
+});
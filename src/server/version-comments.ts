@@ -0,0 +1,151 @@
+import type { PrismaClient } from "@prisma/client";
+import { userSummarySelect, versionReferenceSelect } from "@/server/api/selects";
+
+function splitLines(code: string) {
+  return code.replace(/\r\n/g, "\n").split("\n");
+}
+
+// The text of lines start..end (1-based, inclusive), or null if they don't exist
+export function getAnchorText(code: string, startLine: number, endLine: number) {
+  const lines = splitLines(code);
+  if (startLine < 1 || endLine < startLine || endLine > lines.length) return null;
+  return lines.slice(startLine - 1, endLine).join("\n");
+}
+
+// How far anchored lines may move between versions and still be followed
+const ANCHOR_SEARCH_WINDOW = 50;
+// Lines around an anchor compared to tell a moved anchor from an unrelated
+// copy of the same lines (a lone "}" or blank line appears everywhere)
+const ANCHOR_CONTEXT_LINES = 3;
+
+/**
+ * Where anchored lines are in a later version of the file: the start line of
+ * the best unchanged occurrence near the original position, or null when there
+ * is no confident match. An occurrence counts only when at least half of the
+ * lines around it in the original file are also unchanged; ties go to the
+ * occurrence closest to the original position.
+ */
+export function findAnchorStart(
+  code: string,
+  anchorText: string,
+  original: { code: string; startLine: number }
+) {
+  const lines = splitLines(code);
+  const anchor = splitLines(anchorText);
+  const originalLines = splitLines(original.code);
+  const originalIndex = original.startLine - 1;
+
+  const before = originalLines.slice(Math.max(0, originalIndex - ANCHOR_CONTEXT_LINES), originalIndex);
+  const after = originalLines.slice(
+    originalIndex + anchor.length,
+    originalIndex + anchor.length + ANCHOR_CONTEXT_LINES
+  );
+  const requiredContext = Math.ceil((before.length + after.length) / 2);
+
+  let best: { start: number; context: number } | null = null;
+  const first = Math.max(0, originalIndex - ANCHOR_SEARCH_WINDOW);
+  const last = Math.min(lines.length - anchor.length, originalIndex + ANCHOR_SEARCH_WINDOW);
+
+  for (let i = first; i <= last; i++) {
+    if (!anchor.every((line, j) => lines[i + j] === line)) continue;
+
+    const context =
+      before.filter((line, j) => lines[i - before.length + j] === line).length +
+      after.filter((line, j) => lines[i + anchor.length + j] === line).length;
+    if (context < requiredContext) continue;
+
+    const start = i + 1;
+    if (
+      best === null ||
+      context > best.context ||
+      (context === best.context &&
+        Math.abs(start - original.startLine) < Math.abs(best.start - original.startLine))
+    ) {
+      best = { start, context };
+    }
+  }
+  return best?.start ?? null;
+}
+
+const commentInclude = {
+  createdBy: { select: userSummarySelect },
+  resolvedBy: { select: userSummarySelect },
+  version: { select: versionReferenceSelect },
+  replies: {
+    include: { createdBy: { select: userSummarySelect } },
+    orderBy: { createdAt: "asc" },
+  },
+} as const;
+
+/**
+ * Comment threads shown on a version: the ones written on it, plus anchored
+ * threads from earlier versions. Carried threads get carriedFrom set to the
+ * version they were written on and, when their lines are found unchanged, the
+ * line numbers in this version; otherwise they are marked outdated and have
+ * no lines. Returns null for an unknown version.
+ */
+export async function listVersionComments(db: PrismaClient, versionId: string) {
+  const version = await db.componentVersion.findUnique({
+    where: { id: versionId },
+    select: {
+      id: true,
+      componentId: true,
+      version: true,
+      files: { select: { filename: true, code: true } },
+    },
+  });
+  if (!version) return null;
+
+  const threads = await db.versionComment.findMany({
+    where: {
+      componentId: version.componentId,
+      parentId: null,
+      OR: [
+        { versionId: version.id },
+        { anchorText: { not: null }, version: { version: { lt: version.version } } },
+      ],
+    },
+    include: commentInclude,
+    orderBy: { createdAt: "asc" },
+  });
+
+  // The files the carried threads were written on, for comparing context lines
+  const carriedVersionIds = Array.from(
+    new Set(threads.filter((t) => t.versionId !== version.id).map((t) => t.versionId))
+  );
+  const originalFiles = carriedVersionIds.length
+    ? await db.componentFile.findMany({
+      where: { versionId: { in: carriedVersionIds } },
+      select: { versionId: true, filename: true, code: true },
+    })
+    : [];
+
+  return threads.map((thread) => {
+    if (thread.versionId === version.id) {
+      return { ...thread, carriedFrom: null as typeof thread.version | null, outdated: false };
+    }
+
+    const file = version.files.find((f) => f.filename === thread.filename);
+    const originalFile = originalFiles.find(
+      (f) => f.versionId === thread.versionId && f.filename === thread.filename
+    );
+    const startLine =
+      file && originalFile && thread.anchorText !== null && thread.startLine !== null
+        ? findAnchorStart(file.code, thread.anchorText, {
+          code: originalFile.code,
+          startLine: thread.startLine,
+        })
+        : null;
+
+    if (startLine === null || thread.startLine === null || thread.endLine === null) {
+      return { ...thread, startLine: null, endLine: null, carriedFrom: thread.version, outdated: true };
+    }
+    return {
+      ...thread,
+      startLine,
+      endLine: startLine + (thread.endLine - thread.startLine),
+      carriedFrom: thread.version,
+      outdated: false,
+    };
+  });
+}